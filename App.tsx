@@ -1,12 +1,26 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Activity, Brain, Sparkles, ArrowRight, FileSearch, ChartBar, MessageSquareQuote, Plus, Download, RefreshCw } from 'lucide-react';
-import { analyzeReports } from './geminiService';
-import { AnalysisResult, FileData } from './types';
-import Dashboard from './components/Dashboard';
+import { Activity, Brain, Sparkles, ArrowRight, FileSearch, ChartBar, MessageSquareQuote, Plus, Download, RefreshCw, RotateCcw, EyeOff, FileJson, AlertTriangle, X } from 'lucide-react';
+import { analyzeWithCache } from './analysisCache';
+import { AnalysisError, AnalysisErrorCode } from './analysisErrors';
+import { classifyReports } from './geminiService';
+import { findReportIssues, ReportCheckError, ReportIssue, sexOf } from './reportChecks';
+import { assignReport, deleteProfile, findReportByCacheKey, listProfiles, replaceAnalysis, saveAnalysis, saveChat, saveProfile, saveReport, updateProfile } from './reportVault';
+import { suggestProfile, withProfileDetails } from './profiles';
+import { redactReport } from './redaction';
+import { downloadFhirBundle } from './fhirExport';
+import { applyBiomarkerEdit, BiomarkerEdit } from './analysisEdits';
+import { buildPrivacyMap, restoreIdentifiers, withIdentifierPlaceholders } from './privacy';
+import { AnalysisResult, ChatMessage, FileData, PrivacyMap, Profile, StoredReport } from './types';
+import Dashboard, { DashboardHandle } from './components/Dashboard';
 import ChatWindow from './components/ChatWindow';
 import Uploader from './components/Uploader';
+import MyReports from './components/MyReports';
+import ReportIssuesPanel from './components/ReportIssuesPanel';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ProfileAssignment from './components/ProfileAssignment';
+import { LanguagePicker, useI18n } from './i18n';
 
 const FeatureCard: React.FC<{ icon: React.ReactNode, title: string, desc: string }> = ({ icon, title, desc }) => (
   <motion.div 
@@ -23,50 +37,293 @@ const FeatureCard: React.FC<{ icon: React.ReactNode, title: string, desc: string
   </motion.div>
 );
 
+// The saved report a run is reading again, and who it belongs to
+interface OpenReport {
+  id: string;
+  profileId: string | null;
+}
+
 const App: React.FC = () => {
+  const { language, t } = useI18n();
   const [latestReport, setLatestReport] = useState<FileData | null>(null);
-  const [previousReport, setPreviousReport] = useState<FileData | null>(null);
+  const [pastReports, setPastReports] = useState<FileData[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [explanationRequest, setExplanationRequest] = useState<string | null>(null);
   const [isGlobalDragging, setIsGlobalDragging] = useState(false);
-  const dashboardRef = useRef<any>(null);
+  const [privacyMode, setPrivacyMode] = useState(() => localStorage.getItem('lablens.privacyMode') === 'on');
+  const [privacyMap, setPrivacyMap] = useState<PrivacyMap | null>(null);
+  const [reportId, setReportId] = useState<string | null>(null);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [includeChatInPdf, setIncludeChatInPdf] = useState(false);
+  const [fromCache, setFromCache] = useState(false);
+  // retryAfter: seconds until the rate limit lifts, when the server said
+  const [analysisError, setAnalysisError] = useState<{ code: Exclude<AnalysisErrorCode, 'cancelled'>, retryAfter?: number } | null>(null);
+  const analysisAbort = useRef<AbortController | null>(null);
+  // Kept with the options of the run that found them, so continuing repeats that run.
+  const [reportIssues, setReportIssues] = useState<{ issues: ReportIssue[], refresh: boolean, replacing: OpenReport | null } | null>(null);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(() => localStorage.getItem('lablens.activeProfile'));
+  const [reportProfileId, setReportProfileId] = useState<string | null>(null);
+  const dashboardRef = useRef<DashboardHandle>(null);
 
+  // Only when a result first appears; edits to it shouldn't jump the page.
+  const hasResult = !!analysisResult;
   useEffect(() => {
-    if (analysisResult) {
+    if (hasResult) {
       window.scrollTo({ top: 0, behavior: 'smooth' });
     }
-  }, [analysisResult]);
+  }, [hasResult]);
+
+  useEffect(() => {
+    localStorage.setItem('lablens.privacyMode', privacyMode ? 'on' : 'off');
+  }, [privacyMode]);
+
+  useEffect(() => {
+    listProfiles()
+      .then(list => {
+        setProfiles(list);
+        // The remembered person may have been deleted in another tab
+        setActiveProfileId(id => id && list.some(p => p.id === id) ? id : null);
+      })
+      .catch(error => console.error("Could not load profiles", error));
+  }, []);
+
+  useEffect(() => {
+    if (activeProfileId) localStorage.setItem('lablens.activeProfile', activeProfileId);
+    else localStorage.removeItem('lablens.activeProfile');
+  }, [activeProfileId]);
+
+  // The vault entry may still be saving when the first reply lands, so this runs again once the id arrives.
+  useEffect(() => {
+    if (reportId && chat.length) {
+      saveChat(reportId, chat).catch(error => console.error("Could not save chat locally", error));
+    }
+  }, [reportId, chat]);
+
+  // The check was about the files as they were; any change to them needs a fresh one.
+  useEffect(() => {
+    setReportIssues(null);
+  }, [latestReport, pastReports]);
+
+  // Identifiers only ever exist on this device; put them back for what the user sees.
+  const displayAnalysis = useMemo(
+    () => analysisResult && privacyMap ? restoreIdentifiers(analysisResult, privacyMap) : analysisResult,
+    [analysisResult, privacyMap]
+  );
+
+  const reportProfile = profiles.find(p => p.id === reportProfileId) || null;
+  const suggestedProfile = useMemo(
+    () => displayAnalysis ? suggestProfile(profiles, displayAnalysis.patientName, displayAnalysis.gender) : null,
+    [profiles, displayAnalysis]
+  );
+  const chatContext = useMemo(
+    () => analysisResult && withProfileDetails(analysisResult, reportProfile),
+    [analysisResult, reportProfile]
+  );
 
-  const handleStartAnalysis = async () => {
+  // New reports go to the person selected on the landing page, or else to whoever the printed patient matches.
+  const profileForNewReport = (shown: AnalysisResult) =>
+    activeProfileId ?? suggestProfile(profiles, shown.patientName, shown.gender)?.id ?? null;
+
+  // refresh skips the local cache and asks the model to read the files again;
+  // skipChecks analyzes even when the uploads look mismatched, once the user has said so.
+  // A re-analysis replaces the open report's reading rather than saving another copy.
+  const handleStartAnalysis = async (
+    refresh = false,
+    skipChecks = false,
+    replacing: OpenReport | null = refresh && reportId ? { id: reportId, profileId: reportProfileId } : null
+  ) => {
     if (!latestReport) return;
+    const controller = new AbortController();
+    analysisAbort.current = controller;
     setIsAnalyzing(true);
+    setAnalysisError(null);
+    setReportIssues(null);
+    setAnalysisResult(null);
+    setReportId(null);
+    setChat([]);
+    // A failed check never stops the analysis; only what it finds does.
+    const checkReports = async (sent: FileData[], localNames?: (string | undefined)[]) => {
+      if (skipChecks) return;
+      let classifications;
+      try {
+        classifications = await classifyReports(sent, language, { signal: controller.signal });
+      } catch (error) {
+        if (controller.signal.aborted) throw error;
+        console.warn("Pre-analysis check failed; analyzing without it", error);
+        return;
+      }
+      // Names are blacked out before upload in privacy mode, so compare the ones found on this device.
+      const issues = findReportIssues(localNames ? classifications.map((c, i) => ({ ...c, patientName: localNames[i] })) : classifications);
+      if (issues.length) throw new ReportCheckError(issues);
+    };
+
     try {
-      const result = await analyzeReports(latestReport, previousReport || undefined);
-      setAnalysisResult(result);
+      const files = [latestReport, ...pastReports];
+      let reading: { analysis: AnalysisResult, privacyMap?: PrivacyMap, cached: boolean, key: string };
+      if (privacyMode) {
+        const redacted = [];
+        for (const file of files) {
+          redacted.push(await redactReport(file));
+          controller.signal.throwIfAborted();
+        }
+        const map = buildPrivacyMap(redacted.flatMap(r => r.identifiers));
+        const sent = redacted.map(r => r.file);
+        const localNames = redacted.map(r => r.identifiers.find(id => id.kind === 'PATIENT_NAME')?.value);
+        const { analysis, cached, key } = await analyzeWithCache(sent, { redacted: true, language }, {
+          refresh,
+          signal: controller.signal,
+          precheck: () => checkReports(sent, localNames)
+        });
+        reading = { analysis: withIdentifierPlaceholders(analysis, map), privacyMap: map, cached, key };
+      } else {
+        const { analysis, cached, key } = await analyzeWithCache(files, { language }, {
+          refresh,
+          signal: controller.signal,
+          precheck: () => checkReports(files)
+        });
+        reading = { analysis, cached, key };
+      }
+
+      // Files read before reopen the report they were saved as, with its corrections and chat, instead of saving a copy.
+      const saved = reading.cached && !replacing
+        ? await findReportByCacheKey(reading.key).catch(error => console.error("Could not look up saved reports", error))
+        : undefined;
+      if (saved) {
+        openStoredReport(saved);
+        setFromCache(true);
+        return;
+      }
+
+      const { analysis, privacyMap: map, cached, key } = reading;
+      const profileId = replacing ? replacing.profileId : profileForNewReport(map ? restoreIdentifiers(analysis, map) : analysis);
+      setPrivacyMap(map ?? null);
+      setFromCache(cached);
+      setReportProfileId(profileId);
+      setAnalysisResult(analysis);
+      if (replacing) {
+        setReportId(replacing.id);
+        replaceAnalysis(replacing.id, analysis, map, key).catch(error => console.error("Could not save report locally", error));
+      } else {
+        saveReport(files, analysis, map, profileId ?? undefined, key)
+          .then(report => setReportId(report.id))
+          .catch(error => console.error("Could not save report locally", error));
+      }
     } catch (error) {
+      if (controller.signal.aborted) return;
+      if (error instanceof ReportCheckError) {
+        setReportIssues({ issues: error.issues, refresh, replacing });
+        return;
+      }
       console.error("Analysis failed", error);
-      alert("Something went wrong. Please try again.");
+      setAnalysisError(error instanceof AnalysisError && error.code !== 'cancelled'
+        ? { code: error.code, retryAfter: error.retryAfter }
+        : { code: 'unknown' });
     } finally {
-      setIsAnalyzing(false);
+      // A cancelled run may settle after a new one has started; leave that one alone.
+      if (analysisAbort.current === controller) {
+        analysisAbort.current = null;
+        setIsAnalyzing(false);
+      }
     }
   };
 
+  // A fresh reading starts from the model's values again, so corrections would be lost without asking.
+  const reanalyze = () => {
+    if (analysisResult?.userCorrected && !confirm(t.app.reanalyzeConfirm)) return;
+    handleStartAnalysis(true);
+  };
+
+  const cancelAnalysis = () => {
+    analysisAbort.current?.abort();
+    analysisAbort.current = null;
+    setIsAnalyzing(false);
+  };
+
   const reset = () => {
+    setAnalysisError(null);
+    setReportIssues(null);
     setLatestReport(null);
-    setPreviousReport(null);
+    setPastReports([]);
     setAnalysisResult(null);
+    setPrivacyMap(null);
+    setReportId(null);
+    setReportProfileId(null);
+    setChat([]);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const openStoredReport = (report: StoredReport) => {
+    const [latest, ...past] = report.files;
+    setLatestReport(latest || null);
+    setPastReports(past);
+    setPrivacyMap(report.privacyMap || null);
+    setReportId(report.id);
+    setReportProfileId(report.profileId ?? null);
+    setChat(report.chat || []);
+    setFromCache(false);
+    setAnalysisResult(report.analysis);
+  };
+
+  const setPastReport = (idx: number, file: FileData | null) => {
+    setPastReports(prev => {
+      const next = [...prev];
+      if (file) next[idx] = file;
+      else next.splice(idx, 1);
+      return next;
+    });
+  };
+
+  // Edits apply to the stored (possibly masked) analysis, so the chat context and the saved copy stay in step.
+  const handleEdit = (edit: BiomarkerEdit) => {
+    if (!analysisResult) return;
+    const next = applyBiomarkerEdit(analysisResult, edit);
+    setAnalysisResult(next);
+    if (reportId) saveAnalysis(reportId, next).catch(error => console.error("Could not save corrections locally", error));
+  };
+
+  const handleAssign = (profileId: string | null) => {
+    setReportProfileId(profileId);
+    if (reportId) assignReport(reportId, profileId).catch(error => console.error("Could not assign report", error));
+  };
+
+  const handleCreateProfile = async (fields: Omit<Profile, 'id' | 'createdAt'>) => {
+    const profile = await saveProfile(fields);
+    setProfiles(prev => [...prev, profile]);
+    return profile;
+  };
+
+  const handleCreateFromReport = () => {
+    if (!displayAnalysis?.patientName) return;
+    const sex = sexOf(displayAnalysis.gender);
+    handleCreateProfile({ name: displayAnalysis.patientName, ...(sex ? { sex } : {}) })
+      .then(profile => handleAssign(profile.id))
+      .catch(error => console.error("Could not save profile", error));
+  };
+
+  const handleUpdateProfile = (profile: Profile) => {
+    setProfiles(prev => prev.map(p => p.id === profile.id ? profile : p));
+    updateProfile(profile).catch(error => console.error("Could not save profile", error));
+  };
+
+  const handleDeleteProfile = (profile: Profile) => {
+    setProfiles(prev => prev.filter(p => p.id !== profile.id));
+    if (activeProfileId === profile.id) setActiveProfileId(null);
+    if (reportProfileId === profile.id) setReportProfileId(null);
+    deleteProfile(profile.id).catch(error => console.error("Could not delete profile", error));
+  };
+
   const handleExplain = (term: string) => {
-    setExplanationRequest(`Can you explain what "${term}" means for my health?`);
+    setExplanationRequest(t.app.explainRequest(term));
   };
 
   const triggerExport = () => {
-    if (dashboardRef.current?.handleDownloadPDF) {
-      dashboardRef.current.handleDownloadPDF();
-    }
+    dashboardRef.current?.handleDownloadPDF();
+  };
+
+  const triggerFhirExport = () => {
+    if (displayAnalysis) downloadFhirBundle(displayAnalysis);
   };
 
   return (
@@ -86,30 +343,49 @@ const App: React.FC = () => {
           <h1 className="text-xl md:text-2xl font-black tracking-tighter text-[#1A237E]">LabLens</h1>
         </div>
 
-        <AnimatePresence>
-          {analysisResult && (
-            <motion.div 
-              initial={{ opacity: 0, x: 20 }}
-              animate={{ opacity: 1, x: 0 }}
-              className="flex items-center gap-3 md:gap-5"
-            >
-              <button 
-                onClick={reset}
-                className="hidden md:flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 text-[#1A237E] font-black text-[10px] uppercase tracking-widest border border-slate-200 hover:bg-slate-100 transition-all active:scale-95"
+        <div className="flex items-center gap-3 md:gap-5">
+          <AnimatePresence>
+            {analysisResult && (
+              <motion.div 
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="flex items-center gap-3 md:gap-5"
               >
-                <RefreshCw className="w-3 h-3" />
-                New Check
-              </button>
-              <button 
-                onClick={triggerExport}
-                className="flex items-center gap-2 px-6 py-2 rounded-xl bg-[#1A237E] text-white font-black text-[10px] uppercase tracking-widest shadow-md hover:shadow-xl hover:-translate-y-0.5 transition-all active:scale-95"
-              >
-                <Download className="w-3 h-3" />
-                Save Report
-              </button>
-            </motion.div>
-          )}
-        </AnimatePresence>
+                <button 
+                  onClick={reset}
+                  className="hidden md:flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 text-[#1A237E] font-black text-[10px] uppercase tracking-widest border border-slate-200 hover:bg-slate-100 transition-all active:scale-95"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  {t.app.newCheck}
+                </button>
+                <button 
+                  onClick={reanalyze}
+                  title={t.app.reanalyzeTitle}
+                  className="hidden md:flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 text-[#1A237E] font-black text-[10px] uppercase tracking-widest border border-slate-200 hover:bg-slate-100 transition-all active:scale-95"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  {t.app.reanalyze}
+                </button>
+                <button 
+                  onClick={triggerFhirExport}
+                  title={t.app.fhirTitle}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 text-[#1A237E] font-black text-[10px] uppercase tracking-widest border border-slate-200 hover:bg-slate-100 transition-all active:scale-95"
+                >
+                  <FileJson className="w-3 h-3" />
+                  FHIR
+                </button>
+                <button 
+                  onClick={triggerExport}
+                  className="flex items-center gap-2 px-6 py-2 rounded-xl bg-[#1A237E] text-white font-black text-[10px] uppercase tracking-widest shadow-md hover:shadow-xl hover:-translate-y-0.5 transition-all active:scale-95"
+                >
+                  <Download className="w-3 h-3" />
+                  {t.app.saveReport}
+                </button>
+              </motion.div>
+            )}
+          </AnimatePresence>
+          <LanguagePicker />
+        </div>
       </header>
 
       <AnimatePresence>
@@ -122,7 +398,7 @@ const App: React.FC = () => {
               <div className="w-24 h-24 md:w-32 md:h-32 bg-white/20 rounded-full flex items-center justify-center mx-auto border-4 border-dashed border-white/50 animate-pulse">
                 <Plus size={48} />
               </div>
-              <h2 className="text-2xl md:text-4xl font-black px-4">Drop to read your labs</h2>
+              <h2 className="text-2xl md:text-4xl font-black px-4">{t.app.dropToRead}</h2>
             </div>
           </motion.div>
         )}
@@ -142,21 +418,36 @@ const App: React.FC = () => {
                   className="inline-flex items-center gap-2 px-3 py-1 bg-white rounded-full border border-[#1A237E]/10 shadow-sm mb-1"
                 >
                   <Sparkles className="w-3 h-3 text-emerald-500" />
-                  <span className="text-[9px] font-black uppercase tracking-[0.2em] text-[#1A237E]">Personal Health Assistant</span>
+                  <span className="text-[9px] font-black uppercase tracking-[0.2em] text-[#1A237E]">{t.app.badge}</span>
                 </motion.div>
                 <h2 className="text-5xl md:text-7xl font-black leading-tight tracking-tighter text-gradient">
-                  Your Health, Decoded.
+                  {t.app.heroTitle}
                 </h2>
                 <p className="text-xl md:text-2xl text-gray-500 font-medium max-w-2xl leading-relaxed mx-auto">
-                  Upload your results to see the human story behind your numbers. 
+                  {t.app.heroSubtitle}
                 </p>
               </div>
 
+              {!isAnalyzing && (
+                <div className="mb-6">
+                  <ProfileSwitcher
+                    profiles={profiles}
+                    activeId={activeProfileId}
+                    onSelect={setActiveProfileId}
+                    onCreate={(fields) => handleCreateProfile(fields)
+                      .then(profile => setActiveProfileId(profile.id))
+                      .catch(error => console.error("Could not save profile", error))}
+                    onUpdate={handleUpdateProfile}
+                    onDelete={handleDeleteProfile}
+                  />
+                </div>
+              )}
+
               <div className="w-full max-w-5xl space-y-4 mb-8">
                 <div className={`grid grid-cols-1 ${latestReport ? 'md:grid-cols-2' : 'max-w-xl mx-auto'} gap-4 items-stretch transition-all duration-700`}>
                   <div className="flex flex-col h-full">
                     <Uploader 
-                      label="Upload Latest Report" 
+                      label={t.app.uploadLatest} 
                       onFileSelect={setLatestReport} 
                       selectedFile={latestReport}
                       isProcessing={isAnalyzing && !!latestReport}
@@ -168,16 +459,29 @@ const App: React.FC = () => {
                     <motion.div 
                       initial={{ opacity: 0, x: 20 }}
                       animate={{ opacity: 1, x: 0 }}
-                      className="flex flex-col h-full"
+                      className="flex flex-col h-full gap-4"
                     >
-                      <Uploader 
-                        label="Add a Past Checkup (Optional)" 
-                        onFileSelect={setPreviousReport} 
-                        selectedFile={previousReport}
-                        isProcessing={isAnalyzing && !!previousReport}
-                        glow={!previousReport}
-                        variant="comparison"
-                      />
+                      {pastReports.map((report, idx) => (
+                        <Uploader 
+                          key={`${report.name}-${idx}`}
+                          label={t.app.pastCheckup(idx + 1)} 
+                          onFileSelect={(file) => setPastReport(idx, file)} 
+                          selectedFile={report}
+                          isProcessing={isAnalyzing}
+                          compact
+                          variant="comparison"
+                        />
+                      ))}
+                      {!isAnalyzing && (
+                        <Uploader 
+                          label={pastReports.length ? t.app.addAnotherPast : t.app.addPastOptional} 
+                          onFileSelect={(file) => setPastReport(pastReports.length, file)} 
+                          selectedFile={null}
+                          isProcessing={false}
+                          glow={!pastReports.length}
+                          variant="comparison"
+                        />
+                      )}
                     </motion.div>
                   )}
                 </div>
@@ -187,39 +491,100 @@ const App: React.FC = () => {
                     <motion.div 
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
-                      className="flex justify-center"
+                      className="flex flex-col items-center gap-4"
                     >
+                      {reportIssues && (
+                        <ReportIssuesPanel issues={reportIssues.issues} onContinue={() => handleStartAnalysis(reportIssues.refresh, true, reportIssues.replacing)} />
+                      )}
+                      {analysisError && (
+                        <div role="alert" className="w-full max-w-lg flex items-start gap-3 px-5 py-4 rounded-2xl bg-amber-50 border border-amber-200 text-amber-900 text-left">
+                          <AlertTriangle className="w-5 h-5 mt-0.5 shrink-0" />
+                          <div className="flex-1 space-y-1">
+                            <p className="text-sm font-black">{t.errors[analysisError.code].title}</p>
+                            <p className="text-sm font-semibold leading-relaxed">{t.errors[analysisError.code].guidance}</p>
+                            {analysisError.retryAfter && (
+                              <p className="text-sm font-semibold">{t.errors.retryIn(Math.ceil(analysisError.retryAfter / 60))}</p>
+                            )}
+                          </div>
+                          <button onClick={() => setAnalysisError(null)} aria-label={t.errors.dismiss} className="p-1 rounded-lg hover:bg-amber-100 shrink-0">
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                      <button
+                        onClick={() => setPrivacyMode(!privacyMode)}
+                        className={`flex items-center gap-2 px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest border transition-all active:scale-95 ${privacyMode ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-white/60 text-[#1A237E]/60 border-[#1A237E]/10 hover:text-[#1A237E]'}`}
+                      >
+                        <EyeOff className="w-3.5 h-3.5" />
+                        {t.app.privacyMode(privacyMode)}
+                      </button>
+                      {privacyMode && (
+                        <p className="max-w-md text-center text-[11px] font-semibold text-emerald-700/80">{t.app.privacyEnglishOnly}</p>
+                      )}
                       <button
-                        onClick={handleStartAnalysis}
+                        onClick={() => handleStartAnalysis()}
                         className="w-full max-w-lg py-4 rounded-[28px] md:rounded-[32px] text-lg font-black uppercase tracking-widest shadow-2xl flex items-center justify-center gap-4 transition-all bg-[#1A237E] text-white breathe-animation active:scale-95"
                       >
                         <Brain className="w-6 h-6" />
-                        {previousReport ? 'See My Progress' : 'Read My Results'}
+                        {pastReports.length ? t.app.seeProgress : t.app.readResults}
                         <ArrowRight className="w-6 h-6" />
                       </button>
                     </motion.div>
                   )}
+                  {latestReport && isAnalyzing && (
+                    <motion.div key="cancel" initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="flex justify-center">
+                      <button
+                        onClick={cancelAnalysis}
+                        className="flex items-center gap-2 px-6 py-3 rounded-2xl bg-white text-[#1A237E] font-black text-xs uppercase tracking-widest border border-[#1A237E]/10 shadow-sm hover:bg-slate-50 transition-all active:scale-95"
+                      >
+                        <X className="w-4 h-4" />
+                        {t.app.cancel}
+                      </button>
+                    </motion.div>
+                  )}
                 </AnimatePresence>
               </div>
 
+              {!isAnalyzing && (
+                <MyReports
+                  onOpen={openStoredReport}
+                  profiles={profiles}
+                  profileId={activeProfileId}
+                  onCompare={latestReport ? (report) => report.files[0] && setPastReport(pastReports.length, report.files[0]) : undefined}
+                />
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4 w-full opacity-90 scale-95 md:scale-100">
-                <FeatureCard icon={<FileSearch size={24} />} title="Plain English" desc="Jargon-free translations into analogies you'll actually understand." />
-                <FeatureCard icon={<ChartBar size={24} />} title="Progress Checks" desc="See how your health is changing over time." />
-                <FeatureCard icon={<MessageSquareQuote size={24} />} title="Clear Answers" desc="Simple breakdowns of what your lab numbers mean for you." />
+                {[<FileSearch size={24} />, <ChartBar size={24} />, <MessageSquareQuote size={24} />].map((icon, idx) => (
+                  <FeatureCard key={idx} icon={icon} title={t.app.features[idx].title} desc={t.app.features[idx].desc} />
+                ))}
               </div>
             </motion.div>
           ) : (
             <motion.div key="dashboard" initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="px-4 md:px-8">
-              <Dashboard ref={dashboardRef} analysis={analysisResult} latestName={latestReport?.name || ''} onTermClick={handleExplain} />
+              <ProfileAssignment
+                profiles={profiles}
+                profileId={reportProfileId}
+                suggestion={suggestedProfile}
+                patientName={displayAnalysis?.patientName}
+                onAssign={handleAssign}
+                onCreateFromReport={handleCreateFromReport}
+              />
+              <Dashboard ref={dashboardRef} analysis={displayAnalysis!} latestName={latestReport?.name || ''} onTermClick={handleExplain} transcript={includeChatInPdf ? chat : undefined} sourceFile={latestReport} onEdit={handleEdit} cached={fromCache} onReanalyze={reanalyze} />
             </motion.div>
           )}
         </AnimatePresence>
 
         {analysisResult && (
           <ChatWindow 
-            context={analysisResult} 
+            context={chatContext!} 
+            privacyMap={privacyMap}
             externalRequest={explanationRequest}
             onClearRequest={() => setExplanationRequest(null)}
+            initialMessages={chat}
+            onMessagesChange={setChat}
+            includeInPdf={includeChatInPdf}
+            onIncludeInPdfChange={setIncludeChatInPdf}
           />
         )}
       </main>
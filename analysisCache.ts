@@ -0,0 +1,53 @@
+import { AnalysisResult, AnalyzeOptions, FileData } from "./types";
+import { analyzeReports, fetchAnalysisVersion, RequestOptions } from "./geminiService";
+import { cacheAnalysis, getCachedAnalysis } from "./reportVault";
+import { DEFAULT_LANGUAGE } from "./i18n/languages";
+
+// The model isn't deterministic, so reading the same files twice can give different numbers.
+// Analyses are cached on this device by a hash of the exact pages sent, the options and the server's
+// prompt version and model; identical input then gets the identical answer back without a model call.
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// File names are left out: the same scan uploaded under another name is the same report.
+export const analysisCacheKey = async (reports: FileData[], options: AnalyzeOptions, version: string): Promise<string> => {
+  const pages = await Promise.all(reports.map(report =>
+    Promise.all(report.pages.map(async page => `${page.mimeType}:${await sha256(page.base64)}`))
+  ));
+  return sha256(JSON.stringify({
+    version,
+    language: options.language ?? DEFAULT_LANGUAGE,
+    redacted: !!options.redacted,
+    pages
+  }));
+};
+
+export interface CachedAnalysisResult {
+  analysis: AnalysisResult;
+  cached: boolean; // Served from this device rather than a fresh model call
+  key: string; // Saved with the report, so a later hit can find it and deleting it clears the cache entry
+}
+
+export interface AnalyzeWithCacheOptions extends RequestOptions {
+  refresh?: boolean; // Skip the cache and replace its entry with a fresh reading
+  precheck?: () => Promise<void>; // Runs only before a model call, not when the cache answers; throw to stop
+}
+
+export const analyzeWithCache = async (reports: FileData[], options: AnalyzeOptions, { refresh, precheck, ...request }: AnalyzeWithCacheOptions = {}): Promise<CachedAnalysisResult> => {
+  const key = await analysisCacheKey(reports, options, await fetchAnalysisVersion(request));
+  if (!refresh) {
+    const hit = await getCachedAnalysis(key).catch(error => {
+      console.error("Could not read the analysis cache", error);
+      return undefined;
+    });
+    if (hit) return { analysis: hit.analysis, cached: true, key };
+  }
+
+  await precheck?.();
+  const analysis = await analyzeReports(reports, options, request);
+  cacheAnalysis(key, analysis).catch(error => console.error("Could not cache analysis locally", error));
+  return { analysis, cached: false, key };
+};
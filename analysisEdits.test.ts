@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { applyBiomarkerEdit } from "./analysisEdits";
+import { AnalysisResult, HealthStatus } from "./types";
+
+const analysis = (): AnalysisResult => ({
+  gender: 'Male',
+  summary: '',
+  executiveSummary: '',
+  bottomLine: { main: '', good: [], watch: [] },
+  lifestyle: { diet: '', sleep: '', exercise: '' },
+  doctorQuestions: [],
+  biomarkers: [{
+    name: 'HbA1c', currentValue: 6.1, unit: '%', status: HealthStatus.HIGH, modelStatus: HealthStatus.NORMAL,
+    range: '4.0-5.6', catalogId: 'hba1c', analogy: 'Like a sugar coating.', explanation: 'A little high.'
+  }],
+  allMarkers: [{ name: 'HbA1c', value: '6.1', unit: '%', range: '4.0-5.6', status: HealthStatus.HIGH, catalogId: 'hba1c' }]
+});
+
+describe('applyBiomarkerEdit', () => {
+  it('judges a corrected value by its range and drops the model status', () => {
+    const edited = applyBiomarkerEdit(analysis(), { type: 'update', index: 0, value: 5.2, unit: '%', range: '4.0-5.6' });
+    expect(edited.biomarkers[0]).toMatchObject({ currentValue: 5.2, status: HealthStatus.NORMAL, userCorrected: true });
+    expect(edited.biomarkers[0]).not.toHaveProperty('modelStatus');
+    expect(edited.allMarkers).toEqual([{ name: 'HbA1c', value: '5.2', unit: '%', range: '4.0-5.6', status: HealthStatus.NORMAL, catalogId: 'hba1c' }]);
+    expect(edited.userCorrected).toBe(true);
+  });
+
+  it('clears the status rather than keep a stale one when the range cannot be read', () => {
+    const edited = applyBiomarkerEdit(analysis(), { type: 'update', index: 0, value: 5.2, unit: '%', range: 'see note' });
+    expect(edited.biomarkers[0]).not.toHaveProperty('status');
+    expect(edited.allMarkers?.[0]).not.toHaveProperty('status');
+  });
+
+  it('adds a marker with its catalog id and a status from its range', () => {
+    const edited = applyBiomarkerEdit(analysis(), { type: 'add', name: 'Serum Potassium', value: 5.9, unit: 'mmol/L', range: '3.5-5.1' });
+    expect(edited.biomarkers[1]).toMatchObject({ name: 'Serum Potassium', status: HealthStatus.HIGH, catalogId: 'potassium', userCorrected: true });
+    expect(edited.allMarkers?.map(r => r.name)).toEqual(['HbA1c', 'Serum Potassium']);
+  });
+
+  it('lists an added marker outside the catalog as unmapped', () => {
+    const edited = applyBiomarkerEdit(analysis(), { type: 'add', name: 'Lipoprotein X', value: 1, unit: 'mg/dL', range: '' });
+    expect(edited.biomarkers[1]).not.toHaveProperty('status');
+    expect(edited.unmappedMarkers).toEqual(['Lipoprotein X']);
+  });
+
+  it('removes a marker from the cards and the results table', () => {
+    const edited = applyBiomarkerEdit(analysis(), { type: 'remove', index: 0 });
+    expect(edited.biomarkers).toEqual([]);
+    expect(edited.allMarkers).toEqual([]);
+  });
+
+  it('ignores edits to markers that are not there', () => {
+    const original = analysis();
+    expect(applyBiomarkerEdit(original, { type: 'remove', index: 3 })).toBe(original);
+  });
+});
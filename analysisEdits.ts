@@ -0,0 +1,83 @@
+import { AnalysisResult, Biomarker, SimpleMarker } from "./types";
+import { deriveStatus, parseReferenceRange } from "./referenceRange";
+import { normalizeHistoryUnits } from "./unitConversion";
+import { findCatalogEntry } from "./biomarkerCatalog";
+
+export interface MarkerFields {
+  value: number;
+  unit: string;
+  range: string;
+}
+
+// Edits refer to biomarkers by index so they apply equally to the masked analysis and the one on screen.
+export type BiomarkerEdit =
+  | ({ type: 'update', index: number } & MarkerFields)
+  | ({ type: 'add', name: string } & MarkerFields)
+  | { type: 'remove', index: number };
+
+// A corrected value is judged only by its printed range; the model's earlier status no longer applies,
+// so a marker whose range can't be read is left without one.
+const rederive = (bio: Biomarker, gender: string | undefined): Biomarker => {
+  const { modelStatus, status: _earlier, ...rest } = bio;
+  const status = deriveStatus(bio.currentValue, parseReferenceRange(bio.range, gender));
+  const catalogId = bio.catalogId ?? findCatalogEntry(bio.name)?.id;
+  return normalizeHistoryUnits({ ...rest, ...(status ? { status } : {}), ...(catalogId ? { catalogId } : {}), userCorrected: true });
+};
+
+const toRow = (bio: Biomarker): SimpleMarker => ({
+  name: bio.name,
+  value: String(bio.currentValue),
+  ...(bio.unit ? { unit: bio.unit } : {}),
+  ...(bio.range ? { range: bio.range } : {}),
+  ...(bio.status ? { status: bio.status } : {}),
+  ...(bio.catalogId ? { catalogId: bio.catalogId } : {})
+});
+
+// Keeps the All Results table in step with the cards.
+const syncRows = (rows: SimpleMarker[] | undefined, name: string, next: Biomarker | null): SimpleMarker[] | undefined => {
+  if (!rows) return rows;
+  const idx = rows.findIndex(r => r.name === name);
+  if (!next) return idx < 0 ? rows : rows.filter((_, i) => i !== idx);
+  return idx < 0 ? [...rows, toRow(next)] : rows.map((r, i) => i === idx ? toRow(next) : r);
+};
+
+const unmapped = (biomarkers: Biomarker[], rows: SimpleMarker[] | undefined) =>
+  [...new Set([...biomarkers, ...(rows || [])].filter(m => !findCatalogEntry(m.name)).map(m => m.name))];
+
+export const applyBiomarkerEdit = (analysis: AnalysisResult, edit: BiomarkerEdit): AnalysisResult => {
+  let biomarkers = analysis.biomarkers;
+  let allMarkers = analysis.allMarkers;
+
+  if (edit.type === 'remove') {
+    const removed = biomarkers[edit.index];
+    if (!removed) return analysis;
+    biomarkers = biomarkers.filter((_, i) => i !== edit.index);
+    allMarkers = syncRows(allMarkers, removed.name, null);
+  } else if (edit.type === 'update') {
+    const current = biomarkers[edit.index];
+    if (!current) return analysis;
+    const next = rederive({ ...current, currentValue: edit.value, unit: edit.unit, range: edit.range }, analysis.gender);
+    biomarkers = biomarkers.map((b, i) => i === edit.index ? next : b);
+    allMarkers = syncRows(allMarkers, current.name, next);
+  } else {
+    // A marker the model missed has no explanation yet; its status comes from its range alone.
+    const added = rederive({
+      name: edit.name,
+      currentValue: edit.value,
+      unit: edit.unit,
+      range: edit.range,
+      analogy: '',
+      explanation: ''
+    }, analysis.gender);
+    biomarkers = [...biomarkers, added];
+    allMarkers = syncRows(allMarkers, added.name, added);
+  }
+
+  return {
+    ...analysis,
+    biomarkers,
+    ...(allMarkers ? { allMarkers } : {}),
+    unmappedMarkers: unmapped(biomarkers, allMarkers),
+    userCorrected: true
+  };
+};
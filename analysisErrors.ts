@@ -0,0 +1,53 @@
+// Why an analysis failed, shared by the API server and the browser so each kind gets its own recovery advice.
+export type AnalysisErrorCode =
+  | 'quota' // Too many requests, here or at the model provider
+  | 'too-large' // The upload or the model's input limit
+  | 'unreadable' // The model could not make a usable analysis from the files
+  | 'safety' // The provider's safety filters blocked the request or the answer
+  | 'network' // The server or the model provider could not be reached
+  | 'timeout'
+  | 'cancelled' // The user stopped it
+  | 'unknown';
+
+export class AnalysisError extends Error {
+  constructor(public code: AnalysisErrorCode, message: string, public retryAfter?: number) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+// Worth trying again after a pause; the rest fail the same way every time.
+export const isTransient = (code: AnalysisErrorCode) => code === 'network' || code === 'timeout';
+
+export const ERROR_STATUS: Record<AnalysisErrorCode, number> = {
+  quota: 429,
+  'too-large': 413,
+  unreadable: 422,
+  safety: 422,
+  network: 503,
+  timeout: 504,
+  cancelled: 499,
+  unknown: 502
+};
+
+export const isAnalysisErrorCode = (code: unknown): code is AnalysisErrorCode =>
+  typeof code === 'string' && code in ERROR_STATUS;
+
+// Waits `ms`, or rejects with the signal's reason as soon as it fires.
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Waits before retry `attempt` (0-based): 1s, 2s, 4s... with jitter so clients don't retry in step.
+export const backoff = (attempt: number, signal?: AbortSignal, baseMs = 1000): Promise<void> =>
+  delay(baseMs * 2 ** attempt * (0.75 + Math.random() / 2), signal);
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { catalogEntryFor, findCatalogEntry, mapToCatalog } from "./biomarkerCatalog";
+import { AnalysisResult, HealthStatus } from "./types";
+
+const idOf = (name: string) => findCatalogEntry(name)?.id;
+
+describe('findCatalogEntry', () => {
+  it('matches names and synonyms whatever the case and punctuation', () => {
+    expect(idOf('HbA1c')).toBe('hba1c');
+    expect(idOf('Glycated Haemoglobin')).toBe('hba1c');
+    expect(idOf('SGPT (ALT)')).toBe('alt');
+    expect(idOf('LDL-C')).toBe('ldl');
+    expect(idOf('Vit. B12')).toBe('vitamin-b12');
+  });
+
+  it('sets aside blood specimen words, the S. prefix and notes in parentheses', () => {
+    expect(idOf('Serum Creatinine')).toBe('creatinine');
+    expect(idOf('S. Creatinine')).toBe('creatinine');
+    expect(idOf('Glucose, Plasma')).toBe('glucose');
+    expect(idOf('Hemoglobin (Whole Blood)')).toBe('hemoglobin');
+    expect(idOf('Glucose (GOD-POD)')).toBe('glucose');
+  });
+
+  it('leaves markers from other specimens unmapped', () => {
+    expect(idOf('Glucose (Urine)')).toBeUndefined();
+    expect(idOf('Protein (Urine)')).toBeUndefined();
+    expect(idOf('Urine Glucose')).toBeUndefined();
+    expect(idOf('CSF Protein')).toBeUndefined();
+    expect(idOf('Stool Hemoglobin')).toBeUndefined();
+  });
+
+  it('does not drop an s that is not the serum prefix', () => {
+    expect(idOf('Platelets s')).toBeUndefined();
+  });
+
+  it('does no fuzzy matching', () => {
+    expect(idOf('Glucose tolerance 2h')).toBeUndefined();
+    expect(idOf('Hemoglobin Electrophoresis')).toBeUndefined();
+  });
+});
+
+describe('catalogEntryFor', () => {
+  it('prefers the saved id', () => {
+    expect(catalogEntryFor({ name: 'Sugar', catalogId: 'glucose-fasting' })?.id).toBe('glucose-fasting');
+  });
+
+  it('ignores a saved id on a marker from another specimen', () => {
+    expect(catalogEntryFor({ name: 'Glucose (Urine)', catalogId: 'glucose' })).toBeUndefined();
+  });
+});
+
+describe('mapToCatalog', () => {
+  it('tags markers with their id and lists the names that did not match', () => {
+    const mapped = mapToCatalog({
+      summary: '', executiveSummary: '', bottomLine: { main: '', good: [], watch: [] },
+      lifestyle: { diet: '', sleep: '', exercise: '' }, doctorQuestions: [],
+      biomarkers: [{ name: 'FBS', currentValue: 96, unit: 'mg/dL', status: HealthStatus.NORMAL, range: '70-100', analogy: '', explanation: '' }],
+      allMarkers: [{ name: 'FBS', value: '96' }, { name: 'Glucose (Urine)', value: 'Nil' }]
+    } as AnalysisResult);
+    expect(mapped.biomarkers[0].catalogId).toBe('glucose-fasting');
+    expect(mapped.allMarkers?.map(m => m.catalogId)).toEqual(['glucose-fasting', undefined]);
+    expect(mapped.unmappedMarkers).toEqual(['Glucose (Urine)']);
+  });
+});
@@ -0,0 +1,164 @@
+import { AnalysisResult } from "./types";
+
+export type AnalyteCategory =
+  | 'Blood Sugar'
+  | 'Lipids'
+  | 'Kidney'
+  | 'Liver'
+  | 'Blood Count'
+  | 'Thyroid'
+  | 'Vitamins & Iron'
+  | 'Electrolytes'
+  | 'Inflammation'
+  | 'Hormones';
+
+export interface CatalogEntry {
+  id: string;
+  name: string; // Canonical display name
+  loinc: string;
+  synonyms: string[];
+  unit: string; // Default (conventional) unit
+  category: AnalyteCategory;
+}
+
+const entry = (id: string, name: string, loinc: string, unit: string, category: AnalyteCategory, synonyms: string[] = []): CatalogEntry =>
+  ({ id, name, loinc, unit, category, synonyms });
+
+export const BIOMARKER_CATALOG: CatalogEntry[] = [
+  entry('hba1c', 'HbA1c', '4548-4', '%', 'Blood Sugar', ['a1c', 'hemoglobin a1c', 'haemoglobin a1c', 'glycated hemoglobin', 'glycated haemoglobin', 'glycosylated hemoglobin', 'glycosylated haemoglobin', 'glycohemoglobin']),
+  entry('glucose-fasting', 'Fasting Glucose', '1558-6', 'mg/dL', 'Blood Sugar', ['fasting blood sugar', 'fbs', 'fasting plasma glucose', 'fpg', 'glucose fasting', 'fasting blood glucose']),
+  entry('glucose', 'Glucose', '2345-7', 'mg/dL', 'Blood Sugar', ['blood sugar', 'blood glucose', 'random blood sugar', 'rbs', 'glucose random', 'plasma glucose']),
+  entry('insulin', 'Insulin', '20448-7', 'µIU/mL', 'Blood Sugar', ['fasting insulin', 'insulin fasting']),
+
+  entry('cholesterol-total', 'Total Cholesterol', '2093-3', 'mg/dL', 'Lipids', ['cholesterol', 'cholesterol total', 'tc']),
+  entry('hdl', 'HDL Cholesterol', '2085-9', 'mg/dL', 'Lipids', ['hdl', 'hdl c', 'hdl cholesterol direct', 'high density lipoprotein', 'good cholesterol']),
+  entry('ldl', 'LDL Cholesterol', '2089-1', 'mg/dL', 'Lipids', ['ldl', 'ldl c', 'ldl cholesterol calculated', 'ldl cholesterol direct', 'low density lipoprotein', 'bad cholesterol']),
+  entry('vldl', 'VLDL Cholesterol', '13458-5', 'mg/dL', 'Lipids', ['vldl', 'vldl c', 'very low density lipoprotein']),
+  entry('non-hdl', 'Non-HDL Cholesterol', '43396-1', 'mg/dL', 'Lipids', ['non hdl', 'non hdl c', 'non hdl cholesterol']),
+  entry('triglycerides', 'Triglycerides', '2571-8', 'mg/dL', 'Lipids', ['triglyceride', 'tg', 'trigs']),
+
+  entry('creatinine', 'Creatinine', '2160-0', 'mg/dL', 'Kidney', ['creat', 'serum creatinine']),
+  entry('egfr', 'eGFR', '62238-1', 'mL/min/1.73m²', 'Kidney', ['estimated gfr', 'gfr', 'estimated glomerular filtration rate', 'glomerular filtration rate']),
+  entry('bun', 'Blood Urea Nitrogen', '3094-0', 'mg/dL', 'Kidney', ['bun', 'urea nitrogen']),
+  entry('urea', 'Urea', '3091-6', 'mg/dL', 'Kidney', ['blood urea']),
+  entry('uric-acid', 'Uric Acid', '3084-1', 'mg/dL', 'Kidney', ['urate']),
+
+  entry('alt', 'ALT', '1742-6', 'U/L', 'Liver', ['alanine aminotransferase', 'alanine transaminase', 'sgpt', 'alt sgpt', 'sgpt alt']),
+  entry('ast', 'AST', '1920-8', 'U/L', 'Liver', ['aspartate aminotransferase', 'aspartate transaminase', 'sgot', 'ast sgot', 'sgot ast']),
+  entry('alp', 'Alkaline Phosphatase', '6768-6', 'U/L', 'Liver', ['alp', 'alk phos', 'alkaline phosphatase alp']),
+  entry('ggt', 'GGT', '2324-2', 'U/L', 'Liver', ['gamma gt', 'gamma glutamyl transferase', 'gamma glutamyl transpeptidase', 'ggtp']),
+  entry('bilirubin-total', 'Total Bilirubin', '1975-2', 'mg/dL', 'Liver', ['bilirubin', 'bilirubin total', 't bil']),
+  entry('bilirubin-direct', 'Direct Bilirubin', '1968-7', 'mg/dL', 'Liver', ['bilirubin direct', 'conjugated bilirubin', 'd bil']),
+  entry('albumin', 'Albumin', '1751-7', 'g/dL', 'Liver', ['serum albumin']),
+  entry('total-protein', 'Total Protein', '2885-2', 'g/dL', 'Liver', ['protein total', 'protein']),
+
+  entry('hemoglobin', 'Hemoglobin', '718-7', 'g/dL', 'Blood Count', ['haemoglobin', 'hb', 'hgb']),
+  entry('hematocrit', 'Hematocrit', '4544-3', '%', 'Blood Count', ['haematocrit', 'hct', 'pcv', 'packed cell volume']),
+  entry('rbc', 'Red Blood Cells', '789-8', '10⁶/µL', 'Blood Count', ['rbc', 'rbc count', 'red blood cell count', 'erythrocytes', 'total rbc count']),
+  entry('wbc', 'White Blood Cells', '6690-2', '10³/µL', 'Blood Count', ['wbc', 'wbc count', 'white blood cell count', 'leukocytes', 'total leukocyte count', 'tlc', 'total wbc count']),
+  entry('platelets', 'Platelets', '777-3', '10³/µL', 'Blood Count', ['platelet count', 'plt', 'thrombocytes']),
+  entry('mcv', 'MCV', '787-2', 'fL', 'Blood Count', ['mean corpuscular volume', 'mean cell volume']),
+  entry('mch', 'MCH', '785-6', 'pg', 'Blood Count', ['mean corpuscular hemoglobin', 'mean cell hemoglobin']),
+  entry('mchc', 'MCHC', '786-4', 'g/dL', 'Blood Count', ['mean corpuscular hemoglobin concentration', 'mean cell hemoglobin concentration']),
+  entry('rdw', 'RDW', '788-0', '%', 'Blood Count', ['rdw cv', 'red cell distribution width']),
+  entry('neutrophils', 'Neutrophils', '770-8', '%', 'Blood Count', ['neutrophil', 'polymorphs', 'segmented neutrophils']),
+  entry('lymphocytes', 'Lymphocytes', '736-9', '%', 'Blood Count', ['lymphocyte']),
+  entry('monocytes', 'Monocytes', '5905-5', '%', 'Blood Count', ['monocyte']),
+  entry('eosinophils', 'Eosinophils', '713-8', '%', 'Blood Count', ['eosinophil']),
+  entry('basophils', 'Basophils', '706-2', '%', 'Blood Count', ['basophil']),
+
+  entry('tsh', 'TSH', '3016-3', 'mIU/L', 'Thyroid', ['thyroid stimulating hormone', 'thyrotropin', 'ultrasensitive tsh', 'tsh ultrasensitive']),
+  entry('free-t4', 'Free T4', '3024-7', 'ng/dL', 'Thyroid', ['ft4', 'free thyroxine', 't4 free']),
+  entry('free-t3', 'Free T3', '3051-0', 'pg/mL', 'Thyroid', ['ft3', 'free triiodothyronine', 't3 free']),
+  entry('t4', 'Total T4', '3026-2', 'µg/dL', 'Thyroid', ['t4', 'thyroxine', 't4 total', 'total thyroxine']),
+  entry('t3', 'Total T3', '3053-6', 'ng/dL', 'Thyroid', ['t3', 'triiodothyronine', 't3 total', 'total triiodothyronine']),
+
+  entry('vitamin-d', 'Vitamin D', '62292-8', 'ng/mL', 'Vitamins & Iron', ['25 oh vitamin d', '25 hydroxy vitamin d', '25 hydroxyvitamin d', 'vitamin d 25 hydroxy', 'vitamin d total', 'vit d', 'calcidiol', 'vitamin d3']),
+  entry('vitamin-b12', 'Vitamin B12', '2132-9', 'pg/mL', 'Vitamins & Iron', ['b12', 'vit b12', 'cobalamin', 'cyanocobalamin']),
+  entry('folate', 'Folate', '2284-8', 'ng/mL', 'Vitamins & Iron', ['folic acid', 'serum folate']),
+  entry('ferritin', 'Ferritin', '2276-4', 'ng/mL', 'Vitamins & Iron', ['serum ferritin']),
+  entry('iron', 'Iron', '2498-4', 'µg/dL', 'Vitamins & Iron', ['serum iron', 'fe']),
+  entry('tibc', 'TIBC', '2500-7', 'µg/dL', 'Vitamins & Iron', ['total iron binding capacity']),
+  entry('transferrin-saturation', 'Transferrin Saturation', '2502-3', '%', 'Vitamins & Iron', ['iron saturation', 'tsat', '% saturation']),
+
+  entry('sodium', 'Sodium', '2951-2', 'mmol/L', 'Electrolytes', ['na', 'serum sodium']),
+  entry('potassium', 'Potassium', '2823-3', 'mmol/L', 'Electrolytes', ['k', 'serum potassium']),
+  entry('chloride', 'Chloride', '2075-0', 'mmol/L', 'Electrolytes', ['cl', 'serum chloride']),
+  entry('bicarbonate', 'Bicarbonate', '2028-9', 'mmol/L', 'Electrolytes', ['hco3', 'co2', 'total co2', 'carbon dioxide']),
+  entry('calcium', 'Calcium', '17861-6', 'mg/dL', 'Electrolytes', ['ca', 'serum calcium', 'total calcium']),
+  entry('magnesium', 'Magnesium', '19123-9', 'mg/dL', 'Electrolytes', ['mg', 'serum magnesium']),
+  entry('phosphorus', 'Phosphorus', '2777-1', 'mg/dL', 'Electrolytes', ['phosphate', 'inorganic phosphorus']),
+
+  entry('crp', 'C-Reactive Protein', '1988-5', 'mg/L', 'Inflammation', ['crp', 'c reactive protein']),
+  entry('hs-crp', 'hs-CRP', '30522-7', 'mg/L', 'Inflammation', ['hs crp', 'high sensitivity crp', 'high sensitivity c reactive protein', 'cardiac crp']),
+  entry('esr', 'ESR', '30341-2', 'mm/h', 'Inflammation', ['erythrocyte sedimentation rate', 'sed rate']),
+
+  entry('psa', 'PSA', '2857-1', 'ng/mL', 'Hormones', ['prostate specific antigen', 'total psa'])
+];
+
+// Specimen words and qualifiers that labs add without changing which test it is, and the "S." serum prefix
+const QUALIFIERS = /\b(?:serum|plasma|whole blood|blood|level|levels|test|value)\b|^s\b/g;
+
+const normalizeName = (name: string) => name
+  .toLowerCase()
+  .replace(/[µμ]/g, 'u')
+  .replace(/[^a-z0-9%]+/g, ' ')
+  .trim();
+
+// The catalog holds blood tests only; the same analyte in another specimen is a different test with its own LOINC code.
+const OTHER_SPECIMEN = /\b(?:urine|urinary|csf|cerebrospinal|stool|faecal|fecal|faeces|feces|synovial|pleural|ascitic|peritoneal|saliva|sweat)\b/;
+
+export const isNonBloodSpecimen = (name: string) => OTHER_SPECIMEN.test(normalizeName(name));
+
+const withoutQualifiers = (key: string) => key.replace(QUALIFIERS, ' ').replace(/\s+/g, ' ').trim();
+
+const BY_KEY = new Map<string, CatalogEntry>();
+BIOMARKER_CATALOG.forEach(e => [e.id, e.name, ...e.synonyms].forEach(n => {
+  const key = normalizeName(n);
+  if (!BY_KEY.has(key)) BY_KEY.set(key, e);
+}));
+
+export const getCatalogEntry = (id?: string): CatalogEntry | undefined =>
+  id ? BIOMARKER_CATALOG.find(e => e.id === id) : undefined;
+
+// Matches a printed marker name to its catalog entry. Names must match a synonym exactly once
+// punctuation, parenthesised notes and blood specimen words are set aside; there is no fuzzy matching.
+// A name that mentions another specimen, such as "Glucose (Urine)", is left unmapped.
+export const findCatalogEntry = (name: string): CatalogEntry | undefined => {
+  if (isNonBloodSpecimen(name)) return undefined;
+  const key = normalizeName(name);
+  const candidates = [
+    key,
+    withoutQualifiers(key),
+    normalizeName(name.replace(/\([^)]*\)/g, ' ')),
+    withoutQualifiers(normalizeName(name.replace(/\([^)]*\)/g, ' ')))
+  ];
+  for (const candidate of candidates) {
+    const found = BY_KEY.get(candidate);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+// Prefers the id saved with the marker, falling back to its name for reports analysed before the catalog existed.
+// Saved ids are checked for the specimen too, since older versions mapped "Glucose (Urine)" to blood glucose.
+export const catalogEntryFor = (marker: { name: string, catalogId?: string }): CatalogEntry | undefined =>
+  isNonBloodSpecimen(marker.name) ? undefined : getCatalogEntry(marker.catalogId) ?? findCatalogEntry(marker.name);
+
+// Tags every marker with its catalog id and lists the names that did not match, for review.
+export const mapToCatalog = (analysis: AnalysisResult): AnalysisResult => {
+  const unmapped = new Set<string>();
+  const tag = <T extends { name: string }>(marker: T): T & { catalogId?: string } => {
+    const found = findCatalogEntry(marker.name);
+    if (!found) unmapped.add(marker.name);
+    return found ? { ...marker, catalogId: found.id } : marker;
+  };
+  const biomarkers = analysis.biomarkers.map(tag);
+  const allMarkers = analysis.allMarkers?.map(tag);
+  return {
+    ...analysis,
+    biomarkers,
+    ...(allMarkers ? { allMarkers } : {}),
+    unmappedMarkers: [...unmapped]
+  };
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { chatHistory } from "./chatTranscript";
+import { MAX_CHAT_TURN_CHARS, MAX_CHAT_TURNS } from "./providers/types";
+import { ChatMessage } from "./types";
+
+describe('chatHistory', () => {
+  it('sends the most recent turns with model roles for replies', () => {
+    const messages: ChatMessage[] = Array.from({ length: MAX_CHAT_TURNS + 5 }, (_, i) => ({ role: i % 2 ? 'assistant' : 'user', content: `turn ${i}` }));
+    const history = chatHistory(messages);
+    expect(history).toHaveLength(MAX_CHAT_TURNS);
+    expect(history[0]).toEqual({ role: 'model', content: 'turn 5' });
+    expect(history[MAX_CHAT_TURNS - 1]).toEqual({ role: 'user', content: `turn ${MAX_CHAT_TURNS + 4}` });
+  });
+
+  it('cuts a turn over the server limit short, after masking', () => {
+    const long = 'Ramesh '.repeat(MAX_CHAT_TURN_CHARS);
+    const [turn] = chatHistory([{ role: 'assistant', content: long }], text => text.replace(/Ramesh/g, '[PATIENT_NAME]'));
+    expect(turn.content).toHaveLength(MAX_CHAT_TURN_CHARS);
+    expect(turn.content.startsWith('[PATIENT_NAME] ')).toBe(true);
+  });
+});
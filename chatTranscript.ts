@@ -0,0 +1,52 @@
+import { AnalysisResult, ChatMessage } from './types';
+import { datedFilename, downloadFile } from './download';
+import { MAX_CHAT_TURN_CHARS, MAX_CHAT_TURNS, type ChatTurn } from './providers/types';
+
+export type TranscriptFormat = 'md' | 'txt';
+
+export interface TranscriptLabels {
+  title: string;
+  user: string;
+  assistant: string;
+}
+
+// The earlier turns sent with the next message, within the limits the server enforces. A long paste or
+// reply is cut short rather than sent whole, since one turn over the limit would fail every later message.
+// `prepare` runs first (masking identifiers can lengthen the text).
+export const chatHistory = (messages: ChatMessage[], prepare: (text: string) => string = text => text): ChatTurn[] =>
+  messages.slice(-MAX_CHAT_TURNS).map(m => ({
+    role: m.role === 'assistant' ? 'model' : 'user',
+    content: prepare(String(m.content)).slice(0, MAX_CHAT_TURN_CHARS)
+  }));
+
+const speaker = (message: ChatMessage, labels: TranscriptLabels) =>
+  message.role === 'user' ? labels.user : labels.assistant;
+
+// Replies are Markdown; the plain-text export keeps the words and drops the markup.
+export const stripMarkdown = (text: string) => text
+  .replace(/```[a-z]*\n?/gi, '')
+  .replace(/`([^`]*)`/g, '$1')
+  .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+  .replace(/^\s*[-*+]\s+/gm, '- ')
+  .replace(/(\*\*|__)(.*?)\1/g, '$2')
+  .replace(/(\*|_)(.*?)\1/g, '$2')
+  .trim();
+
+const heading = (analysis: AnalysisResult, labels: TranscriptLabels) =>
+  [analysis.patientName, analysis.collectionDate].filter(Boolean).join(' - ') || labels.title;
+
+export const transcriptMarkdown = (messages: ChatMessage[], analysis: AnalysisResult, labels: TranscriptLabels) => [
+  `# ${labels.title}: ${heading(analysis, labels)}`,
+  ...messages.filter(m => m.content).map(m => `**${speaker(m, labels)}:**\n\n${m.content.trim()}`)
+].join('\n\n') + '\n';
+
+export const transcriptText = (messages: ChatMessage[], analysis: AnalysisResult, labels: TranscriptLabels) => [
+  `${labels.title}: ${heading(analysis, labels)}`,
+  ...messages.filter(m => m.content).map(m => `${speaker(m, labels)}:\n${stripMarkdown(m.content)}`)
+].join('\n\n') + '\n';
+
+export const downloadTranscript = (messages: ChatMessage[], analysis: AnalysisResult, labels: TranscriptLabels, format: TranscriptFormat) =>
+  format === 'md'
+    ? downloadFile(transcriptMarkdown(messages, analysis, labels), datedFilename('LabLens_Chat', 'md'), 'text/markdown')
+    : downloadFile(transcriptText(messages, analysis, labels), datedFilename('LabLens_Chat', 'txt'), 'text/plain');
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { citationTarget, markerAnchor, markerAnchors } from "./citations";
+
+describe('markerAnchor', () => {
+  it('turns a marker name into an element id', () => {
+    expect(markerAnchor('HbA1c')).toBe('marker-hba1c');
+    expect(markerAnchor('LDL Cholesterol (Direct)')).toBe('marker-ldl-cholesterol-direct');
+  });
+});
+
+describe('markerAnchors', () => {
+  it('gives every card its own id, the first with a name keeping the plain one', () => {
+    expect(markerAnchors([{ name: 'LDL' }, { name: 'HDL' }, { name: 'ldl' }, { name: 'LDL 2' }])).toEqual([
+      'marker-ldl', 'marker-hdl', 'marker-ldl--2', 'marker-ldl-2'
+    ]);
+  });
+});
+
+describe('citationTarget', () => {
+  it('returns the anchor of a citation link and null for other links', () => {
+    expect(citationTarget('#marker-hba1c')).toBe('marker-hba1c');
+    expect(citationTarget('#marker-%E0%A4%95')).toBe('marker-क');
+    expect(citationTarget('https://medlineplus.gov')).toBeNull();
+  });
+});
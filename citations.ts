@@ -0,0 +1,24 @@
+// Chat replies cite report cards with Markdown links like [HbA1c](#marker-hba1c).
+const ANCHOR_PREFIX = 'marker-';
+
+export const markerAnchor = (name: string) =>
+  ANCHOR_PREFIX + name.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-|-$/g, '');
+
+// One element id per card, in order. Citations go by name and land on the first card with it; later cards
+// with the same name get "--2", "--3", which no name can produce since markerAnchor never repeats a hyphen.
+export const markerAnchors = (markers: { name: string }[]) => {
+  const seen = new Map<string, number>();
+  return markers.map(({ name }) => {
+    const anchor = markerAnchor(name);
+    const count = (seen.get(anchor) ?? 0) + 1;
+    seen.set(anchor, count);
+    return count === 1 ? anchor : `${anchor}--${count}`;
+  });
+};
+
+// Returns the element id a citation link points to, or null for ordinary links.
+// Markdown renderers percent-encode non-ASCII hrefs, so decode before matching.
+export const citationTarget = (href: string | undefined) => {
+  const target = href?.startsWith('#') ? decodeURIComponent(href.slice(1)) : '';
+  return target.startsWith(ANCHOR_PREFIX) ? target : null;
+};
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { ListChecks, Search, ArrowUp, ArrowDown, FileSpreadsheet, FileJson } from 'lucide-react';
+import { AnalysisResult, HealthStatus, SimpleMarker } from '../types';
+import { datedFilename, downloadFile } from '../download';
+import { Messages, useI18n } from '../i18n';
+import { STATUS_BADGE } from './statusStyles';
+
+type SortKey = 'name' | 'value' | 'status';
+type StatusFilter = 'all' | HealthStatus;
+
+interface AllResultsTableProps {
+  analysis: AnalysisResult;
+}
+
+const STATUS_ORDER: Record<string, number> = { [HealthStatus.HIGH]: 0, [HealthStatus.LOW]: 1, [HealthStatus.NORMAL]: 2 };
+
+
+// Reports analysed before allMarkers was requested only have the curated biomarkers.
+const resultRows = (analysis: AnalysisResult): SimpleMarker[] =>
+  analysis.allMarkers?.length
+    ? analysis.allMarkers
+    : analysis.biomarkers.map(b => ({ name: b.name, value: String(b.currentValue), unit: b.unit, range: b.range, status: b.status, catalogId: b.catalogId }));
+
+const numericValue = (value: string) => {
+  const match = value.replace(/,(?=\d{3})/g, '').match(/-?\d*\.?\d+/);
+  return match ? parseFloat(match[0]) : null;
+};
+
+const csvCell = (text: string) => /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+const toCsv = (rows: SimpleMarker[], t: Messages) => [
+  [t.results.test, t.results.result, t.results.unit, t.results.referenceRange, t.results.status],
+  ...rows.map(r => [r.name, r.value, r.unit || '', r.range || '', r.status || ''])
+].map(row => row.map(csvCell).join(',')).join('\n');
+
+interface SortHeaderProps {
+  label: string;
+  sortKey: SortKey;
+  sort: { key: SortKey, ascending: boolean };
+  onSort: (key: SortKey) => void;
+}
+
+const SortHeader: React.FC<SortHeaderProps> = ({ label, sortKey, sort, onSort }) => (
+  <th className="py-3 px-4">
+    <button onClick={() => onSort(sortKey)} className="flex items-center gap-1 uppercase tracking-widest hover:text-[#1A237E] transition-colors">
+      {label}
+      {sort.key === sortKey && (sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+    </button>
+  </th>
+);
+
+const AllResultsTable: React.FC<AllResultsTableProps> = ({ analysis }) => {
+  const [query, setQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [sort, setSort] = useState<{ key: SortKey, ascending: boolean }>({ key: 'name', ascending: true });
+  const { t } = useI18n();
+
+  const rows = useMemo(() => resultRows(analysis), [analysis]);
+
+  const visibleRows = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = rows.filter(r =>
+      (statusFilter === 'all' || r.status === statusFilter) &&
+      (!needle || r.name.toLowerCase().includes(needle) || r.value.toLowerCase().includes(needle))
+    );
+    const compare = (a: SimpleMarker, b: SimpleMarker) => {
+      if (sort.key === 'status') return (STATUS_ORDER[a.status ?? ''] ?? 3) - (STATUS_ORDER[b.status ?? ''] ?? 3);
+      if (sort.key === 'value') {
+        const [x, y] = [numericValue(a.value), numericValue(b.value)];
+        if (x === null || y === null) return (x === null ? 1 : 0) - (y === null ? 1 : 0) || a.value.localeCompare(b.value);
+        return x - y;
+      }
+      return a.name.localeCompare(b.name);
+    };
+    return [...filtered].sort((a, b) => sort.ascending ? compare(a, b) : compare(b, a));
+  }, [rows, query, statusFilter, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : true }));
+
+  // Exports follow the current filter and sort, so what you see is what you get.
+  const exportCsv = () => downloadFile(toCsv(visibleRows, t), datedFilename('LabLens_Results', 'csv'), 'text/csv');
+  const exportJson = () => downloadFile(JSON.stringify(visibleRows, null, 2), datedFilename('LabLens_Results', 'json'), 'application/json');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 px-2">
+        <h3 className="text-3xl font-black text-[#1A237E] flex items-center gap-3 tracking-tighter uppercase">
+          <ListChecks className="w-8 h-8 text-indigo-500" /> {t.results.title}
+        </h3>
+        <div className="no-print flex items-center gap-2">
+          <button onClick={exportCsv} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 text-[#1A237E] font-black text-[10px] uppercase tracking-widest border border-slate-200 hover:bg-slate-100 transition-all active:scale-95">
+            <FileSpreadsheet className="w-3 h-3" /> CSV
+          </button>
+          <button onClick={exportJson} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 text-[#1A237E] font-black text-[10px] uppercase tracking-widest border border-slate-200 hover:bg-slate-100 transition-all active:scale-95">
+            <FileJson className="w-3 h-3" /> JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="no-print flex flex-col md:flex-row gap-3 px-2">
+        <label className="flex items-center gap-2 flex-1 px-4 py-2 rounded-xl bg-white border border-slate-200 focus-within:border-[#1A237E]/40">
+          <Search className="w-4 h-4 text-slate-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.results.search}
+            className="flex-1 bg-transparent outline-none text-sm font-semibold text-[#1A237E] placeholder:text-slate-400"
+          />
+        </label>
+        <div className="flex items-center p-1 rounded-xl bg-[#1A237E]/5 border border-[#1A237E]/10">
+          {(['all', HealthStatus.HIGH, HealthStatus.LOW, HealthStatus.NORMAL] as StatusFilter[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setStatusFilter(option)}
+              className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${statusFilter === option ? 'bg-[#1A237E] text-white shadow' : 'text-[#1A237E]/60 hover:text-[#1A237E]'}`}
+            >
+              {t.results.filters[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="glass rounded-[24px] border border-white/40 shadow-sm overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="text-[10px] font-black text-gray-400 border-b border-[#1A237E]/10">
+            <tr>
+              <SortHeader label={t.results.test} sortKey="name" sort={sort} onSort={toggleSort} />
+              <SortHeader label={t.results.result} sortKey="value" sort={sort} onSort={toggleSort} />
+              <th className="py-3 px-4 uppercase tracking-widest">{t.results.referenceRange}</th>
+              <SortHeader label={t.results.status} sortKey="status" sort={sort} onSort={toggleSort} />
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((row, idx) => (
+              <tr key={`${row.name}-${idx}`} className="border-b border-[#1A237E]/5 last:border-0 text-sm">
+                <td className="py-3 px-4 font-bold text-[#1A237E]">{row.name}</td>
+                <td className="py-3 px-4 font-black text-[#1A237E] whitespace-nowrap">
+                  {row.value} <span className="text-xs font-semibold text-slate-400">{row.unit}</span>
+                </td>
+                <td className="py-3 px-4 text-slate-500 font-semibold">{row.range || '—'}</td>
+                <td className="py-3 px-4">
+                  {row.status ? (
+                    <span className={`px-2.5 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${STATUS_BADGE[row.status].bg} ${STATUS_BADGE[row.status].text}`}>
+                      {t.results.filters[row.status]}
+                    </span>
+                  ) : <span className="text-slate-300">—</span>}
+                </td>
+              </tr>
+            ))}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={4} className="py-8 text-center text-sm font-semibold text-slate-400">{t.results.noMatches}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AllResultsTable;
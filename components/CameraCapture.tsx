@@ -0,0 +1,168 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { Camera, X, Check, Loader2, Crop } from 'lucide-react';
+import { scanDocument } from '../documentScanner';
+import { useI18n } from '../i18n';
+
+interface CameraCaptureProps {
+  onCapture: (files: File[]) => void;
+  onClose: () => void;
+}
+
+interface Shot {
+  file: File;
+  previewUrl: string;
+  cropped: boolean;
+}
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const { t } = useI18n();
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices?.getUserMedia({
+      video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false
+    })
+      .then(s => {
+        if (cancelled) return s.getTracks().forEach(t => t.stop());
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(err => {
+        console.error("Camera unavailable:", err);
+        setError(t.camera.unavailable);
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  const takePhoto = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth || isCapturing) return;
+    setIsCapturing(true);
+
+    try {
+      const frame = document.createElement('canvas');
+      frame.width = video.videoWidth;
+      frame.height = video.videoHeight;
+      frame.getContext('2d')?.drawImage(video, 0, 0);
+
+      const { canvas, cropped } = scanDocument(frame);
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+      if (!blob) throw new Error('Capture failed');
+
+      const file = new File([blob], `scan-page-${shots.length + 1}.jpg`, { type: 'image/jpeg' });
+      setShots(prev => [...prev, { file, previewUrl: URL.createObjectURL(blob), cropped }]);
+    } catch (err) {
+      console.error("Capture failed:", err);
+      alert(t.camera.captureFailed);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const removeShot = (idx: number) => {
+    URL.revokeObjectURL(shots[idx].previewUrl);
+    setShots(prev => prev.filter((_, i) => i !== idx));
+  };
+
+  const close = () => {
+    shots.forEach(s => URL.revokeObjectURL(s.previewUrl));
+    onClose();
+  };
+
+  const finish = () => {
+    if (shots.length) onCapture(shots.map(s => s.file));
+    close();
+  };
+
+  return createPortal(
+    <motion.div
+      initial={{ opacity: 0 }} animate={{ opacity: 1 }}
+      onClick={(e) => e.stopPropagation()}
+      className="fixed inset-0 z-[150] bg-[#0d1240]/95 backdrop-blur-lg flex flex-col no-print"
+    >
+      <div className="flex items-center justify-between px-6 py-4 text-white">
+        <div>
+          <h3 className="text-lg font-black uppercase tracking-tight">{t.camera.title}</h3>
+          <p className="text-[10px] opacity-60 font-black uppercase tracking-[0.2em]">{t.camera.hint}</p>
+        </div>
+        <button onClick={close} className="p-3 hover:bg-white/10 rounded-full transition-colors">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex-1 relative flex items-center justify-center px-4 min-h-0">
+        {error ? (
+          <p className="text-white/80 font-semibold text-center max-w-sm">{error}</p>
+        ) : (
+          <>
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              onLoadedMetadata={() => setIsReady(true)}
+              className="max-h-full max-w-full rounded-[28px] shadow-2xl"
+            />
+            {!isReady && <Loader2 className="absolute w-10 h-10 text-emerald-400 animate-spin" />}
+          </>
+        )}
+      </div>
+
+      <div className="px-6 py-5 flex items-center gap-4">
+        <div className="flex-1 flex gap-3 overflow-x-auto">
+          {shots.map((shot, idx) => (
+            <div key={shot.previewUrl} className="relative w-14 h-[72px] shrink-0 rounded-xl overflow-hidden border-2 border-white/30 bg-white">
+              <img src={shot.previewUrl} alt={`Page ${idx + 1}`} className="w-full h-full object-cover" />
+              <span className="absolute bottom-1 left-1 px-1.5 rounded-md bg-[#1A237E] text-white text-[8px] font-black">{idx + 1}</span>
+              {shot.cropped && (
+                <span title={t.camera.straightened} className="absolute bottom-1 right-1 p-0.5 rounded-md bg-emerald-500 text-white">
+                  <Crop className="w-2.5 h-2.5" />
+                </span>
+              )}
+              <button onClick={() => removeShot(idx)} className="absolute top-0.5 right-0.5 bg-red-500 text-white p-0.5 rounded-full border border-white">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={takePhoto}
+          disabled={!isReady || !!error || isCapturing}
+          className="w-20 h-20 rounded-full bg-white border-[6px] border-emerald-400 flex items-center justify-center shadow-2xl active:scale-95 transition-all disabled:opacity-30 shrink-0"
+        >
+          {isCapturing ? <Loader2 className="w-8 h-8 text-[#1A237E] animate-spin" /> : <Camera className="w-8 h-8 text-[#1A237E]" />}
+        </button>
+
+        <div className="flex-1 flex justify-end">
+          <button
+            onClick={finish}
+            disabled={!shots.length}
+            className="flex items-center gap-2 px-6 py-3 rounded-xl bg-emerald-400 text-[#1A237E] font-black text-[10px] uppercase tracking-widest shadow-lg active:scale-95 transition-all disabled:opacity-30"
+          >
+            <Check className="w-4 h-4" />
+            {t.camera.usePages(shots.length)}
+          </button>
+        </div>
+      </div>
+    </motion.div>,
+    document.body
+  );
+};
+
+export default CameraCapture;
@@ -1,32 +1,49 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Send, Brain, Loader2, MessageCircle, X } from 'lucide-react';
-import Markdown from 'react-markdown';
+import { Send, Brain, Loader2, MessageCircle, X, FileText, FileDown, FilePlus } from 'lucide-react';
+import Markdown, { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { chatWithContext } from '../geminiService';
-import { AnalysisResult, ChatMessage } from '../types';
-import { GenerateContentResponse } from "@google/genai";
+import { AnalysisResult, ChatMessage, PrivacyMap } from '../types';
+import { maskText, restoreText } from '../privacy';
+import { chatHistory, downloadTranscript, TranscriptFormat } from '../chatTranscript';
+import { citationTarget } from '../citations';
+import { findCriticalValues } from '../criticalValues';
+import { MAX_CHAT_TURN_CHARS } from '../providers/types';
+import { useI18n } from '../i18n';
 
 interface ChatWindowProps {
   context: AnalysisResult;
+  privacyMap?: PrivacyMap | null; // When set, identifiers are masked on the way out and restored on the way in
   externalRequest: string | null;
   onClearRequest: () => void;
+  initialMessages?: ChatMessage[]; // A saved conversation to pick up where it left off
+  onMessagesChange?: (messages: ChatMessage[]) => void; // Called once each reply has finished streaming
+  includeInPdf: boolean;
+  onIncludeInPdfChange: (include: boolean) => void;
 }
 
-const ChatWindow: React.FC<ChatWindowProps> = ({ context, externalRequest, onClearRequest }) => {
+const ChatWindow: React.FC<ChatWindowProps> = ({ context, privacyMap, externalRequest, onClearRequest, initialMessages, onMessagesChange, includeInPdf, onIncludeInPdfChange }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages || []);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const { language, t } = useI18n();
+
+  const mask = (text: string) => privacyMap ? maskText(text, privacyMap) : text;
+  const restore = (text: string) => privacyMap ? restoreText(text, privacyMap) : text;
 
   useEffect(() => {
     if (context && messages.length === 0) {
-      const name = context.patientName ? context.patientName.split(' ')[0] : 'there';
+      const name = context.patientName ? restore(context.patientName).split(' ')[0] : t.chat.fallbackName;
       // Construct a proactive, humanized greeting
-      const verdict = context.executiveSummary || "I've finished reading your results.";
-      const greeting = `Hi ${name}, I've finished reading your results. ${verdict} What would you like to dive into first?`;
+      const verdict = restore(context.executiveSummary || t.chat.finishedReading);
+      const critical = findCriticalValues(context).map(f => f.name);
+      const greeting = critical.length
+        ? `${t.chat.criticalGreeting(critical)}\n\n${t.chat.greeting(name, verdict)}`
+        : t.chat.greeting(name, verdict);
       
       setMessages([
         { 
@@ -37,6 +54,10 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ context, externalRequest, onCle
     }
   }, [context]);
 
+  useEffect(() => {
+    if (!isLoading && messages.length) onMessagesChange?.(messages);
+  }, [messages, isLoading]);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -51,6 +72,37 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ context, externalRequest, onCle
     }
   }, [externalRequest]);
 
+  const exportTranscript = (format: TranscriptFormat) => {
+    const analysis = { ...context, patientName: context.patientName && restore(context.patientName) };
+    downloadTranscript(messages, analysis, { title: t.chat.transcriptTitle, user: t.chat.you, assistant: t.chat.title }, format);
+  };
+
+  // Citation links scroll to the biomarker card they name and flash it; the full-screen mobile chat closes first.
+  const showCitation = (id: string) => {
+    const card = document.getElementById(id);
+    if (!card) return;
+    if (window.matchMedia('(max-width: 639px)').matches) setIsOpen(false);
+    card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    card.classList.add('ring-4', 'ring-indigo-300');
+    setTimeout(() => card.classList.remove('ring-4', 'ring-indigo-300'), 2000);
+  };
+
+  const markdownComponents: Components = {
+    a: ({ href, children }) => {
+      const target = citationTarget(href);
+      if (!target) return <a href={href} target="_blank" rel="noreferrer">{children}</a>;
+      return (
+        <button
+          onClick={() => showCitation(target)}
+          title={t.chat.showOnReport}
+          className="inline px-1.5 rounded-md bg-indigo-50 text-[#1A237E] font-bold underline decoration-dotted underline-offset-2 hover:bg-indigo-100"
+        >
+          {children}
+        </button>
+      );
+    }
+  };
+
   const handleSendMessage = async (text: string) => {
     if (!text.trim() || isLoading) return;
 
@@ -60,35 +112,26 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ context, externalRequest, onCle
     setIsLoading(true);
 
     try {
-      const history = messages.map(m => ({
-        role: m.role === 'assistant' ? 'model' : 'user',
-        content: String(m.content)
-      }));
+      const history = chatHistory(messages, mask);
 
-      const stream = await chatWithContext(text, history, context);
+      const stream = chatWithContext(mask(text).slice(0, MAX_CHAT_TURN_CHARS), history, context, language);
       let assistantResponse = '';
       
       setMessages(prev => [...prev, { role: 'assistant', content: '' }]);
 
-      for await (const chunk of stream) {
-        const c = chunk as GenerateContentResponse;
-        const textChunk = c.text;
-        
-        if (typeof textChunk === 'string') {
-          assistantResponse += textChunk;
-        } else if (textChunk !== undefined) {
-          assistantResponse += String(JSON.stringify(textChunk));
-        }
+      for await (const delta of stream) {
+        assistantResponse = delta.replace ? delta.text : assistantResponse + delta.text;
+        const shown = restore(assistantResponse);
 
         setMessages(prev => {
           const last = prev[prev.length - 1];
           const rest = prev.slice(0, -1);
-          return [...rest, { ...last, content: assistantResponse }];
+          return [...rest, { ...last, content: shown }];
         });
       }
     } catch (error) {
       console.error("Chat error:", error);
-      setMessages(prev => [...prev, { role: 'assistant', content: "I am having trouble connecting. Please try again." }]);
+      setMessages(prev => [...prev, { role: 'assistant', content: t.chat.connectionError }]);
     } finally {
       setIsLoading(false);
     }
@@ -113,13 +156,30 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ context, externalRequest, onCle
                     <Brain className="w-7 h-7" />
                   </div>
                   <div>
-                    <h3 className="text-lg font-black uppercase tracking-tight">Lab Assistant</h3>
-                    <p className="text-[10px] opacity-60 font-black uppercase tracking-[0.2em]">Friendly Nurse AI</p>
+                    <h3 className="text-lg font-black uppercase tracking-tight">{t.chat.title}</h3>
+                    <p className="text-[10px] opacity-60 font-black uppercase tracking-[0.2em]">{t.chat.subtitle}</p>
                   </div>
                 </div>
-                <button onClick={() => setIsOpen(false)} className="p-3 hover:bg-white/10 rounded-full transition-colors flex items-center justify-center">
-                  <X className="w-6 h-6" />
-                </button>
+                <div className="flex items-center gap-1">
+                  <button onClick={() => exportTranscript('md')} title={t.chat.exportMarkdown} aria-label={t.chat.exportMarkdown} className="p-2.5 hover:bg-white/10 rounded-full transition-colors flex items-center justify-center">
+                    <FileText className="w-5 h-5" />
+                  </button>
+                  <button onClick={() => exportTranscript('txt')} title={t.chat.exportText} aria-label={t.chat.exportText} className="p-2.5 hover:bg-white/10 rounded-full transition-colors flex items-center justify-center">
+                    <FileDown className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => onIncludeInPdfChange(!includeInPdf)}
+                    title={t.chat.includeInPdf}
+                    aria-label={t.chat.includeInPdf}
+                    aria-pressed={includeInPdf}
+                    className={`p-2.5 rounded-full transition-colors flex items-center justify-center ${includeInPdf ? 'bg-emerald-400 text-[#1A237E]' : 'hover:bg-white/10'}`}
+                  >
+                    <FilePlus className="w-5 h-5" />
+                  </button>
+                  <button onClick={() => setIsOpen(false)} className="p-3 hover:bg-white/10 rounded-full transition-colors flex items-center justify-center">
+                    <X className="w-6 h-6" />
+                  </button>
+                </div>
               </div>
 
               {/* Messages Area */}
@@ -132,7 +192,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ context, externalRequest, onCle
                         : 'bg-white text-[#1A237E] border border-indigo-50 rounded-tl-none font-medium'
                     }`}>
                       {m.role === 'assistant' ? (
-                        m.content ? <Markdown remarkPlugins={[remarkGfm]}>{String(m.content)}</Markdown> : <Loader2 className="w-6 h-6 animate-spin opacity-30 mx-auto" />
+                        m.content ? <Markdown remarkPlugins={[remarkGfm]} components={markdownComponents}>{String(m.content)}</Markdown> : <Loader2 className="w-6 h-6 animate-spin opacity-30 mx-auto" />
                       ) : (
                         <span className="leading-relaxed">{String(m.content)}</span>
                       )}
@@ -150,8 +210,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({ context, externalRequest, onCle
                   <input 
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
+                    maxLength={MAX_CHAT_TURN_CHARS}
                     disabled={isLoading}
-                    placeholder="Ask about your results..."
+                    placeholder={t.chat.placeholder}
                     className="w-full bg-slate-100 border-none rounded-[22px] py-4 px-6 text-base font-bold text-[#1A237E] placeholder:text-gray-400 focus:ring-2 focus:ring-indigo-100 transition-all outline-none"
                   />
                   <button 
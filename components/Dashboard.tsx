@@ -1,101 +1,98 @@
 
-import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import React, { forwardRef, useImperativeHandle, useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   TrendingUp, Info, Apple, Moon, Timer, 
   CheckCircle2, HelpCircle, Heart, 
   ShieldCheck, AlertCircle, Star, ChevronDown, ChevronUp,
-  MessageSquare, Lightbulb, Stethoscope, Loader2, Sparkles, TrendingDown
+  MessageSquare, Lightbulb, Stethoscope, Sparkles, TrendingDown, Siren, FileSearch, Pencil, UserCheck, History, RotateCcw
 } from 'lucide-react';
 import { 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea, LabelList
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea, LabelList
 } from 'recharts';
-import { jsPDF } from 'jspdf';
-import html2canvas from 'html2canvas';
-import { AnalysisResult, Biomarker, HealthStatus } from '../types';
+import { AnalysisResult, Biomarker, ChatMessage, FileData, HealthStatus } from '../types';
+import { parseReferenceRange } from '../referenceRange';
+import { toUnitSystem, UnitSystem } from '../unitConversion';
+import AllResultsTable from './AllResultsTable';
+import SourceViewer from './SourceViewer';
+import MarkerEditor from './MarkerEditor';
+import { STATUS_BADGE } from './statusStyles';
+import { BiomarkerEdit } from '../analysisEdits';
+import { canBuildReportPdf, downloadReportPdf, ReportPdfOptions } from '../reportPdf';
+import { markerAnchors } from '../citations';
+import { stripFormatting } from '../styleRules';
+import { CriticalFinding, findCriticalValues } from '../criticalValues';
+import { useI18n } from '../i18n';
 
 interface DashboardProps {
   analysis: AnalysisResult;
   latestName: string;
   onTermClick: (term: string) => void;
+  transcript?: ChatMessage[]; // Appended to the PDF when the user opts in from the chat
+  sourceFile?: FileData | null; // The latest report, shown beside the cards to check where values came from
+  onEdit?: (edit: BiomarkerEdit) => void; // Omit to keep the dashboard read-only
+  cached?: boolean; // The analysis was reused from an earlier reading of the same files
+  onReanalyze?: () => void;
 }
 
-const MedicalDisclaimer: React.FC = () => (
-  <div className="max-w-7xl w-full mx-auto mb-10 bg-[#e8f5e9]/80 backdrop-blur-md border-l-[4px] border-[#2e7d32] p-6 rounded-r-2xl shadow-sm">
-    <div className="flex items-start gap-4">
-      <div className="w-10 h-10 bg-[#2e7d32] rounded-xl flex items-center justify-center shrink-0 shadow-sm mt-1">
-        <ShieldCheck className="w-6 h-6 text-white" />
-      </div>
-      <div>
-        <h3 className="text-[#1b5e20] font-black uppercase tracking-tight text-lg mb-1">MEDICAL INTERPRETATION NOTICE</h3>
-        <p className="text-[#1b5e20] text-sm font-medium leading-relaxed opacity-90">
-          LabLens is a translation tool to help you understand your reports. This is <strong>not</strong> medical advice or a diagnosis. Always talk to your doctor about these results.
-        </p>
+const MedicalDisclaimer: React.FC = () => {
+  const { t } = useI18n();
+  const [before, emphasis, after] = t.dashboard.notice;
+  return (
+    <div className="max-w-7xl w-full mx-auto mb-10 bg-[#e8f5e9]/80 backdrop-blur-md border-l-[4px] border-[#2e7d32] p-6 rounded-r-2xl shadow-sm">
+      <div className="flex items-start gap-4">
+        <div className="w-10 h-10 bg-[#2e7d32] rounded-xl flex items-center justify-center shrink-0 shadow-sm mt-1">
+          <ShieldCheck className="w-6 h-6 text-white" />
+        </div>
+        <div>
+          <h3 className="text-[#1b5e20] font-black uppercase tracking-tight text-lg mb-1">{t.dashboard.noticeTitle}</h3>
+          <p className="text-[#1b5e20] text-sm font-medium leading-relaxed opacity-90">
+            {before}<strong>{emphasis}</strong>{after}
+          </p>
+        </div>
       </div>
     </div>
-  </div>
-);
+  );
+};
 
-const Dashboard = forwardRef((props: DashboardProps, ref) => {
-  const { analysis, latestName, onTermClick } = props;
-  const dashboardRef = useRef<HTMLDivElement>(null);
-  const [isDownloading, setIsDownloading] = useState(false);
+// What App can ask of the dashboard from its toolbar
+export interface DashboardHandle {
+  handleDownloadPDF: () => void;
+}
+
+const Dashboard = forwardRef<DashboardHandle, DashboardProps>((props, ref) => {
+  const { analysis, latestName, onTermClick, transcript, sourceFile, onEdit, cached, onReanalyze } = props;
+  const [isEditing, setIsEditing] = useState(false);
+  const [sourceMarker, setSourceMarker] = useState<Biomarker | null>(null);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('reported');
+  const { t } = useI18n();
 
-  const isTrendAnalysis = analysis.biomarkers.some(b => b.previousValue !== undefined);
+  const isTrendAnalysis = analysis.biomarkers.some(b => !!b.history?.length);
+  const correctedCount = analysis.biomarkers.filter(b => b.modelStatus).length;
+  const unmappedMarkers = analysis.unmappedMarkers || [];
+  // Checked against local thresholds on the printed values, never the model's status
+  const criticalFindings = useMemo(() => findCriticalValues(analysis), [analysis]);
+  // Markers can share a name (LDL calculated and direct map to one catalog id), so cards go by position
+  const anchors = useMemo(() => markerAnchors(analysis.biomarkers), [analysis]);
 
   useImperativeHandle(ref, () => ({
-    handleDownloadPDF: async () => {
-      if (!dashboardRef.current) return;
-      setIsDownloading(true);
-      
+    handleDownloadPDF: () => {
+      const options: ReportPdfOptions = { t, unitSystem, fallbackName: latestName.split('.')[0], transcript };
+      // The browser shapes Hindi text properly, so those reports go through its print dialog
+      if (!canBuildReportPdf(analysis, options)) {
+        alert(t.dashboard.pdfPrintInstead);
+        window.print();
+        return;
+      }
       try {
-        await new Promise(resolve => setTimeout(resolve, 800));
-        const element = dashboardRef.current;
-        const canvas = await html2canvas(element, {
-          scale: 2, 
-          useCORS: true,
-          logging: false,
-          backgroundColor: '#f8fafc',
-          scrollX: 0,
-          scrollY: 0,
-          windowWidth: element.offsetWidth,
-          windowHeight: element.scrollHeight,
-          onclone: (clonedDoc) => {
-            const animations = clonedDoc.querySelectorAll('.animate-spin, .animate-pulse');
-            animations.forEach(a => (a as HTMLElement).style.display = 'none');
-          }
-        });
-        
-        const imgData = canvas.toDataURL('image/png');
-        const pdfWidth = canvas.width / 2;
-        const pdfHeight = canvas.height / 2;
-        
-        const pdf = new jsPDF({
-          orientation: pdfWidth > pdfHeight ? 'landscape' : 'portrait',
-          unit: 'px',
-          format: [pdfWidth, pdfHeight]
-        });
-        
-        pdf.addImage(imgData, 'PNG', 0, 0, pdfWidth, pdfHeight);
-        pdf.save(`LabLens_Report_${new Date().toISOString().split('T')[0]}.pdf`);
+        downloadReportPdf(analysis, options);
       } catch (error) {
         console.error('PDF Error:', error);
-        alert('Failed to generate PDF.');
-      } finally {
-        setIsDownloading(false);
+        alert(t.dashboard.pdfFailed);
       }
     }
   }));
 
-  const cleanText = (text: any) => {
-    if (!text) return '';
-    return String(text)
-      .replace(/[\*\#]/g, '')
-      .replace(/^["']|["']$/g, '')
-      .replace(/["']/g, '')
-      .trim();
-  };
-
   const container = {
     hidden: { opacity: 0 },
     show: { opacity: 1, transition: { staggerChildren: 0.1 } }
@@ -107,35 +104,47 @@ const Dashboard = forwardRef((props: DashboardProps, ref) => {
   };
 
   return (
-    <div className="pb-0 overflow-visible">
-      {isDownloading && (
-        <div className="fixed inset-0 z-[200] bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center no-print text-center">
-          <Loader2 className="w-12 h-12 text-[#1A237E] animate-spin mb-4" />
-          <h2 className="text-2xl font-black text-[#1A237E] uppercase tracking-widest px-4">Preparing High-Fidelity PDF...</h2>
-        </div>
-      )}
+    <div className={`pb-0 overflow-visible transition-[margin] duration-300 ${sourceMarker ? 'lg:mr-[42vw]' : ''}`}>
+      <AnimatePresence>
+        {sourceMarker && sourceFile && (
+          <SourceViewer file={sourceFile} marker={sourceMarker} onClose={() => setSourceMarker(null)} />
+        )}
+      </AnimatePresence>
 
       <motion.div 
-        ref={dashboardRef}
         variants={container} initial="hidden" animate="show" 
         className="max-w-7xl mx-auto space-y-12 pb-2"
       >
         <motion.div variants={item}>
           <MedicalDisclaimer />
+          {criticalFindings.length > 0 && <CriticalValuesBanner findings={criticalFindings} anchors={anchors} />}
+          {cached && (
+            <div className="no-print mt-4 flex flex-col md:flex-row md:items-center justify-between gap-3 px-5 py-4 rounded-2xl bg-slate-50 border border-slate-200 text-slate-600 text-sm font-semibold">
+              <span className="flex items-start gap-3">
+                <History className="w-5 h-5 mt-0.5 shrink-0" />
+                {t.dashboard.cachedNotice}
+              </span>
+              {onReanalyze && (
+                <button onClick={onReanalyze} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white text-[#1A237E] font-black text-[10px] uppercase tracking-widest border border-slate-200 hover:bg-slate-100 transition-all active:scale-95 shrink-0">
+                  <RotateCcw className="w-3 h-3" /> {t.app.reanalyze}
+                </button>
+              )}
+            </div>
+          )}
           
           <div className="py-6 mb-8 border-b border-[#1A237E]/10 flex flex-col md:flex-row justify-between items-baseline gap-4">
             <div className="space-y-2">
               <h2 className="text-3xl md:text-5xl font-black text-[#1A237E] tracking-tighter">
-                {isTrendAnalysis ? "Health Evolution: " : "Clinical Summary: "} 
-                {cleanText(analysis.patientName || latestName.split('.')[0] || "Patient Record")}
+                {isTrendAnalysis ? t.dashboard.healthEvolution : t.dashboard.clinicalSummary} 
+                {stripFormatting(analysis.patientName || latestName.split('.')[0] || t.dashboard.patientRecord)}
               </h2>
               <div className="flex flex-wrap gap-x-6 gap-y-2">
                 <p className="text-gray-400 font-black text-[10px] md:text-xs uppercase tracking-widest">
-                  Report Date: {analysis.collectionDate || new Date().toLocaleDateString()}
+                  {t.dashboard.reportDate}: {analysis.collectionDate || new Date().toLocaleDateString()}
                 </p>
                 {analysis.hospitalName && (
                   <p className="text-[#1A237E]/60 font-black text-[10px] md:text-xs uppercase tracking-widest">
-                    Source: {cleanText(analysis.hospitalName)}
+                    {t.dashboard.source}: {stripFormatting(analysis.hospitalName)}
                   </p>
                 )}
               </div>
@@ -148,13 +157,13 @@ const Dashboard = forwardRef((props: DashboardProps, ref) => {
           <div className="relative z-10 w-full text-center">
             <div className="flex items-center justify-center gap-2 mb-4 opacity-70 uppercase tracking-[0.2em] text-[10px] font-black">
               <Sparkles className="w-4 h-4 text-emerald-400" />
-              Intelligence Verdict
+              {t.dashboard.verdict}
             </div>
             <h2 className="text-2xl md:text-3xl font-semibold mb-6 tracking-tight leading-tight">
-              {cleanText(analysis.summary || 'Clinical Overview')}
+              {stripFormatting(analysis.summary || t.dashboard.clinicalOverview)}
             </h2>
             <div className="text-lg md:text-xl font-medium opacity-95 leading-relaxed">
-              <p className="m-0">{cleanText(analysis.executiveSummary)}</p>
+              <p className="m-0">{stripFormatting(analysis.executiveSummary)}</p>
             </div>
           </div>
           <ActivityBackground />
@@ -167,36 +176,36 @@ const Dashboard = forwardRef((props: DashboardProps, ref) => {
               <div className="w-10 h-10 bg-amber-100 rounded-xl flex items-center justify-center">
                 <Star className="w-6 h-6 text-amber-500 fill-amber-500" />
               </div>
-              <h3 className="text-2xl font-black text-[#1A237E] tracking-tighter uppercase">Vital Insights</h3>
+              <h3 className="text-2xl font-black text-[#1A237E] tracking-tighter uppercase">{t.dashboard.vitalInsights}</h3>
             </div>
             
             <div className="space-y-8">
               <div className="bg-[#1A237E]/5 p-8 rounded-[24px] border border-[#1A237E]/10">
                 <p className="text-xl font-bold text-[#1A237E] leading-relaxed">
-                  {cleanText(analysis.bottomLine.main)}
+                  {stripFormatting(analysis.bottomLine.main)}
                 </p>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
                 <div className="space-y-4">
-                  <span className="text-emerald-600 font-black uppercase tracking-[0.1em] text-[10px] px-1">Success Areas</span>
+                  <span className="text-emerald-600 font-black uppercase tracking-[0.1em] text-[10px] px-1">{t.dashboard.successAreas}</span>
                   <div className="space-y-3">
                     {analysis.bottomLine.good.map((msg, i) => (
                       <div key={i} className="flex items-start gap-3 text-[#1A237E] font-semibold bg-emerald-50/50 p-4 rounded-2xl border border-emerald-100/50">
                         <CheckCircle2 className="w-5 h-5 text-emerald-500 mt-0.5 shrink-0" />
-                        <span className="text-base">{cleanText(msg)}</span>
+                        <span className="text-base">{stripFormatting(msg)}</span>
                       </div>
                     ))}
                   </div>
                 </div>
 
                 <div className="space-y-4">
-                  <span className="text-amber-600 font-black uppercase tracking-[0.1em] text-[10px] px-1">Next Goals</span>
+                  <span className="text-amber-600 font-black uppercase tracking-[0.1em] text-[10px] px-1">{t.dashboard.nextGoals}</span>
                   <div className="space-y-3">
                     {analysis.bottomLine.watch.map((msg, i) => (
                       <div key={i} className="flex items-start gap-3 text-[#1A237E] font-semibold bg-amber-50/50 p-4 rounded-2xl border border-amber-100/50">
                         <AlertCircle className="w-5 h-5 text-amber-500 mt-0.5 shrink-0" />
-                        <span className="text-base">{cleanText(msg)}</span>
+                        <span className="text-base">{stripFormatting(msg)}</span>
                       </div>
                     ))}
                   </div>
@@ -211,26 +220,74 @@ const Dashboard = forwardRef((props: DashboardProps, ref) => {
           <div className="flex items-center justify-between px-2">
             <h3 className="text-3xl font-black text-[#1A237E] flex items-center gap-3 tracking-tighter uppercase">
               <Heart className="w-8 h-8 text-rose-500" /> 
-              {isTrendAnalysis ? "Marker Evolution" : "Vital Metrics"}
+              {isTrendAnalysis ? t.dashboard.markerEvolution : t.dashboard.vitalMetrics}
             </h3>
-            <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{analysis.biomarkers.length} Markers</span>
+            <div className="flex items-center gap-4">
+              {onEdit && !isEditing && (
+                <button onClick={() => setIsEditing(true)} className="no-print flex items-center gap-2 px-3 py-2 rounded-xl bg-[#1A237E]/5 text-[#1A237E] font-black text-[10px] uppercase tracking-widest border border-[#1A237E]/10 hover:bg-[#1A237E]/10 transition-all active:scale-95">
+                  <Pencil className="w-3 h-3" /> {t.editor.edit}
+                </button>
+              )}
+              <UnitToggle value={unitSystem} onChange={setUnitSystem} />
+              <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t.dashboard.markerCount(analysis.biomarkers.length)}</span>
+            </div>
           </div>
+          {onEdit && isEditing && (
+            <MarkerEditor biomarkers={analysis.biomarkers} onEdit={onEdit} onDone={() => setIsEditing(false)} />
+          )}
+          {analysis.userCorrected && (
+            <div className="flex items-start gap-3 px-5 py-4 rounded-2xl bg-sky-50 border border-sky-100 text-sky-800 text-sm font-semibold">
+              <UserCheck className="w-5 h-5 mt-0.5 shrink-0" />
+              <span>{t.dashboard.userCorrectedNotice}</span>
+            </div>
+          )}
+          {correctedCount > 0 && (
+            <div className="flex items-start gap-3 px-5 py-4 rounded-2xl bg-violet-50 border border-violet-100 text-violet-800 text-sm font-semibold">
+              <AlertCircle className="w-5 h-5 mt-0.5 shrink-0" />
+              <span>
+                {t.dashboard.correctedNotice(correctedCount)}
+              </span>
+            </div>
+          )}
+          {unmappedMarkers.length > 0 && (
+            <div className="flex items-start gap-3 px-5 py-4 rounded-2xl bg-slate-50 border border-slate-200 text-slate-600 text-sm font-semibold">
+              <AlertCircle className="w-5 h-5 mt-0.5 shrink-0" />
+              <span>
+                {t.dashboard.unmappedNotice(unmappedMarkers.length, unmappedMarkers.join(', '))}
+              </span>
+            </div>
+          )}
           <div className="biomarker-grid grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 items-start">
             {analysis.biomarkers.map((bio, idx) => (
-              <BiomarkerCard key={idx} bio={bio} onTermClick={onTermClick} isDownloading={isDownloading} />
+              <BiomarkerCard
+                key={anchors[idx]}
+                anchor={anchors[idx]}
+                bio={toUnitSystem(bio, unitSystem)}
+                critical={criticalFindings.some(f => f.index === idx)}
+                selected={sourceMarker === bio}
+                onShowSource={sourceFile ? () => setSourceMarker(bio) : undefined}
+                gender={analysis.gender}
+                reportDate={analysis.collectionDate || t.dashboard.latest}
+                onTermClick={onTermClick}
+              />
             ))}
           </div>
         </motion.div>
 
+        {/* 3b. Every line item on the report */}
+        <motion.div variants={item} className="pt-12 border-t border-[#1A237E]/10">
+          <AllResultsTable analysis={analysis} />
+        </motion.div>
+
         {/* 4. Protocols */}
         <motion.div variants={item} className="space-y-8 pt-12 border-t border-[#1A237E]/10">
           <h3 className="text-3xl font-black text-[#1A237E] flex items-center gap-3 px-2 tracking-tighter uppercase">
-            <Info className="w-8 h-8 text-blue-500" /> Daily Habits
+            <Info className="w-8 h-8 text-blue-500" /> {t.dashboard.dailyHabits}
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-start">
-            <LifestyleCard icon={<Apple className="w-6 h-6 text-emerald-600" />} title="Food & Diet" desc={cleanText(analysis.lifestyle.diet)} color="bg-emerald-50" />
-            <LifestyleCard icon={<Moon className="w-6 h-6 text-indigo-600" />} title="Rest & Recovery" desc={cleanText(analysis.lifestyle.sleep)} color="bg-indigo-50" />
-            <LifestyleCard icon={<Timer className="w-6 h-6 text-amber-600" />} title="Body Movement" desc={cleanText(analysis.lifestyle.exercise)} color="bg-amber-50" />
+            <LifestyleCard icon={<Apple className="w-6 h-6 text-emerald-600" />} title={t.dashboard.foodDiet} desc={stripFormatting(analysis.lifestyle.diet)} color="bg-emerald-50" />
+            <LifestyleCard icon={<Moon className="w-6 h-6 text-indigo-600" />} title={t.dashboard.restRecovery} desc={stripFormatting(analysis.lifestyle.sleep)} color="bg-indigo-50" />
+            <LifestyleCard icon={<Timer className="w-6 h-6 text-amber-600" />} title={t.dashboard.bodyMovement} desc={stripFormatting(analysis.lifestyle.exercise)} color="bg-amber-50" />
           </div>
         </motion.div>
 
@@ -240,7 +297,7 @@ const Dashboard = forwardRef((props: DashboardProps, ref) => {
             <div className="w-10 h-10 bg-[#1A237E] rounded-xl flex items-center justify-center shadow-lg">
               <Stethoscope className="w-6 h-6 text-white" />
             </div>
-            <h3 className="text-3xl font-black text-[#1A237E] uppercase tracking-tighter">Prep for my Visit</h3>
+            <h3 className="text-3xl font-black text-[#1A237E] uppercase tracking-tighter">{t.dashboard.prepVisit}</h3>
           </div>
 
           <div className="flex flex-col gap-4">
@@ -252,7 +309,7 @@ const Dashboard = forwardRef((props: DashboardProps, ref) => {
                     <MessageSquare className="w-6 h-6 text-[#1A237E]" />
                   </div>
                   <p className="text-[#1A237E] font-black text-xl leading-tight">
-                    {cleanText(q.question)}
+                    {stripFormatting(q.question)}
                   </p>
                 </div>
                 
@@ -263,9 +320,9 @@ const Dashboard = forwardRef((props: DashboardProps, ref) => {
                       <Lightbulb className="w-4 h-4 text-[#1A237E]" />
                     </div>
                     <div>
-                      <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 block mb-1">Why this helps</span>
+                      <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 block mb-1">{t.dashboard.whyHelps}</span>
                       <p className="text-sm text-slate-700 font-medium italic leading-relaxed">
-                        {cleanText(q.why)}
+                        {stripFormatting(q.why)}
                       </p>
                     </div>
                   </div>
@@ -281,34 +338,78 @@ const Dashboard = forwardRef((props: DashboardProps, ref) => {
   );
 });
 
-const BiomarkerCard: React.FC<{bio: Biomarker, onTermClick: (t: string) => void, isDownloading: boolean}> = ({ bio, onTermClick, isDownloading }) => {
+// Deliberately has no close button: it stays for as long as the report is open.
+const CriticalValuesBanner: React.FC<{findings: CriticalFinding[], anchors: string[]}> = ({ findings, anchors }) => {
+  const { t } = useI18n();
+  return (
+    <div role="alert" className="mt-4 flex items-start gap-4 p-6 rounded-[24px] bg-rose-50 border-2 border-rose-600 text-rose-900 [page-break-inside:avoid]">
+      <div className="w-10 h-10 bg-rose-600 rounded-xl flex items-center justify-center shrink-0">
+        <Siren className="w-6 h-6 text-white" />
+      </div>
+      <div className="space-y-2">
+        <h3 className="text-lg font-black uppercase tracking-tight">{t.dashboard.criticalTitle}</h3>
+        <p className="text-sm font-semibold leading-relaxed">{t.dashboard.criticalBody}</p>
+        <ul className="space-y-1">
+          {findings.map(f => (
+            <li key={f.index}>
+              <a href={`#${anchors[f.index]}`} className="text-sm font-black underline decoration-dotted underline-offset-2">
+                {t.dashboard.criticalItem(f.name, f.value, f.unit, f.direction, f.threshold)}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+interface BiomarkerCardProps {
+  bio: Biomarker;
+  anchor: string; // Element id that citations and the critical values banner link to
+  critical?: boolean;
+  selected?: boolean; // Currently shown in the source viewer
+  onShowSource?: () => void;
+  gender?: string;
+  reportDate: string;
+  onTermClick: (t: string) => void;
+}
+
+const BiomarkerCard: React.FC<BiomarkerCardProps> = ({ bio, anchor, critical, selected, onShowSource, gender, reportDate, onTermClick }) => {
   // Independent isExpanded state per card
   const [isExpanded, setIsExpanded] = useState(false);
+  const { t } = useI18n();
   const hasHistory = bio.previousValue !== undefined;
   
-  const rangeValues = bio.range.split('-').map(v => parseFloat(v.trim().replace(/[^0-9.]/g, '')));
-  const chartData = [{ name: 'Results', Previous: bio.previousValue || 0, Current: bio.currentValue }];
+  const refRange = parseReferenceRange(bio.range, gender);
+  const chartData = [
+    ...(bio.history || []).map(h => ({ name: h.date, Value: h.value })),
+    { name: reportDate, Value: bio.currentValue }
+  ];
 
   const percentChange = hasHistory && bio.previousValue !== 0 ? ((bio.currentValue - bio.previousValue!) / bio.previousValue!) * 100 : null;
 
   const getStatusDisplay = () => {
     switch(bio.status) {
-      case HealthStatus.NORMAL: return { label: 'Optimal', bg: 'bg-emerald-100', text: 'text-emerald-700' };
-      case HealthStatus.HIGH: return { label: 'Above Range', bg: 'bg-amber-100', text: 'text-amber-700' };
-      case HealthStatus.LOW: return { label: 'Below Range', bg: 'bg-sky-100', text: 'text-sky-700' };
-      default: return { label: 'Focus Area', bg: 'bg-rose-100', text: 'text-rose-700' };
+      case HealthStatus.NORMAL: return { label: t.card.optimal, ...STATUS_BADGE[HealthStatus.NORMAL] };
+      case HealthStatus.HIGH: return { label: t.card.aboveRange, ...STATUS_BADGE[HealthStatus.HIGH] };
+      case HealthStatus.LOW: return { label: t.card.belowRange, ...STATUS_BADGE[HealthStatus.LOW] };
+      default: return { label: t.card.notChecked, bg: 'bg-slate-100', text: 'text-slate-600' };
     }
   };
 
   const status = getStatusDisplay();
-  const cleanText = (text: any) => String(text || '').replace(/[\*\#]/g, '').replace(/^["']|["']$/g, '').replace(/["']/g, '').trim();
 
   return (
     <div 
-      className={`biomarker-card glass rounded-[32px] shadow-lg border-l-[12px] relative transition-all duration-300 overflow-hidden bg-white h-auto flex flex-col self-start [page-break-inside:avoid] ${
+      id={anchor}
+      // Clicking the card opens its source; the buttons inside keep their own actions
+      onClick={(e) => { if (onShowSource && !(e.target as HTMLElement).closest('button')) onShowSource(); }}
+      className={`biomarker-card glass rounded-[32px] scroll-mt-24 ${onShowSource ? 'cursor-pointer' : ''} ${selected ? 'ring-4 ring-amber-300' : ''} shadow-lg border-l-[12px] relative transition-all duration-300 overflow-hidden bg-white h-auto flex flex-col self-start [page-break-inside:avoid] ${
+        critical ? 'border-rose-600' :
         bio.status === HealthStatus.HIGH ? 'border-amber-400' : 
         bio.status === HealthStatus.LOW ? 'border-sky-400' : 
-        'border-emerald-400'
+        bio.status === HealthStatus.NORMAL ? 'border-emerald-400' :
+        'border-slate-300'
       }`}
     >
       <div className="p-6 flex flex-col h-full">
@@ -319,9 +420,29 @@ const BiomarkerCard: React.FC<{bio: Biomarker, onTermClick: (t: string) => void,
                <span className={`inline-block px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest ${status.bg} ${status.text}`}>
                 {status.label}
               </span>
+              {critical && (
+                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest bg-rose-600 text-white">
+                  <Siren size={9} /> {t.card.critical}
+                </span>
+              )}
+              {bio.userCorrected && (
+                <span className="inline-block px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest bg-sky-100 text-sky-700">
+                  {t.card.userCorrected}
+                </span>
+              )}
+              {bio.modelStatus && (
+                <span title={t.card.rangeCheckedTitle(bio.modelStatus)} className="inline-block px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest bg-violet-100 text-violet-700">
+                  {t.card.rangeChecked}
+                </span>
+              )}
               <span className="text-[9px] font-bold text-gray-400 uppercase tracking-tighter self-center">
-                Ref: {bio.range}
+                {t.card.ref}: {bio.range}
               </span>
+              {onShowSource && (
+                <button onClick={onShowSource} title={t.card.viewSource} aria-label={t.card.viewSource} className="no-print self-center text-gray-400 hover:text-[#1A237E] transition-colors">
+                  <FileSearch size={12} />
+                </button>
+              )}
             </div>
           </div>
           <div className="text-right shrink-0">
@@ -330,7 +451,7 @@ const BiomarkerCard: React.FC<{bio: Biomarker, onTermClick: (t: string) => void,
              {percentChange !== null && (
                 <div className={`mt-1 flex items-center justify-end gap-1 text-[9px] font-black uppercase tracking-wider ${percentChange >= 0 ? 'text-amber-600' : 'text-emerald-600'}`}>
                   {percentChange >= 0 ? <TrendingUp size={10} /> : <TrendingDown size={10} />}
-                  {Math.abs(percentChange).toFixed(1)}% {percentChange >= 0 ? 'Increase' : 'Decrease'}
+                  {Math.abs(percentChange).toFixed(1)}% {percentChange >= 0 ? t.card.increase : t.card.decrease}
                 </div>
               )}
           </div>
@@ -338,30 +459,25 @@ const BiomarkerCard: React.FC<{bio: Biomarker, onTermClick: (t: string) => void,
 
         <div className="h-40 w-full bg-[#F8FAFC] rounded-[20px] p-4 mb-4 border border-gray-100 relative">
           <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={chartData} barGap={12} margin={{ top: 20, right: 10, left: -30, bottom: 0 }}>
+            <LineChart data={chartData} margin={{ top: 20, right: 20, left: -30, bottom: 0 }}>
               <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E2E8F0" />
-              <XAxis dataKey="name" hide />
+              <XAxis dataKey="name" hide={!hasHistory} axisLine={false} tickLine={false} tick={{fontSize: 8, fontWeight: 700, fill: '#94A3B8'}} />
               <YAxis axisLine={false} tickLine={false} tick={{fontSize: 9, fontWeight: 700, fill: '#94A3B8'}} domain={['auto', 'auto']} />
               <Tooltip cursor={{fill: 'rgba(0,0,0,0.02)'}} contentStyle={{borderRadius: '12px', border: 'none', boxShadow: '0 10px 30px rgba(0,0,0,0.1)', fontSize: '10px'}} />
-              {rangeValues.length === 2 && !isNaN(rangeValues[0]) && !isNaN(rangeValues[1]) && (
-                <ReferenceArea y1={rangeValues[0]} y2={rangeValues[1]} fill="rgba(16, 185, 129, 0.05)" stroke="none" />
+              {refRange && (
+                <ReferenceArea y1={refRange.low} y2={refRange.high} fill="rgba(16, 185, 129, 0.05)" stroke="none" ifOverflow="extendDomain" />
               )}
-              {hasHistory && (
-                <Bar name="Past" dataKey="Previous" fill="#94A3B8" radius={[4, 4, 0, 0]} barSize={25}>
-                  <LabelList dataKey="Previous" position="top" offset={5} style={{ fill: '#94A3B8', fontSize: '8px', fontWeight: '800' }} />
-                </Bar>
-              )}
-              <Bar name="Current" dataKey="Current" fill="#1A237E" radius={[4, 4, 0, 0]} barSize={25}>
-                <LabelList dataKey="Current" position="top" offset={5} style={{ fill: '#1A237E', fontSize: '8px', fontWeight: '800' }} />
-              </Bar>
-            </BarChart>
+              <Line name={bio.name} dataKey="Value" type="monotone" stroke="#1A237E" strokeWidth={3} dot={{ r: 4, fill: '#1A237E', strokeWidth: 0 }} activeDot={{ r: 6 }}>
+                <LabelList dataKey="Value" position="top" offset={8} style={{ fill: '#1A237E', fontSize: '8px', fontWeight: '800' }} />
+              </Line>
+            </LineChart>
           </ResponsiveContainer>
         </div>
 
         <div className="bg-gray-50/80 p-3 rounded-[16px] border border-gray-100 mb-4 flex-grow">
           <div className="text-[#1A237E] font-bold italic text-[13px] leading-relaxed">
-            <span className="text-[#1A237E]/40 font-black uppercase text-[8px] block mb-1 tracking-[0.1em]">Simple Analogy</span>
-            {cleanText(bio.analogy)}
+            <span className="text-[#1A237E]/40 font-black uppercase text-[8px] block mb-1 tracking-[0.1em]">{t.card.analogy}</span>
+            {stripFormatting(bio.analogy)}
           </div>
         </div>
 
@@ -370,12 +486,12 @@ const BiomarkerCard: React.FC<{bio: Biomarker, onTermClick: (t: string) => void,
             onClick={() => setIsExpanded(!isExpanded)}
             className="w-full py-2.5 rounded-xl text-[9px] font-black uppercase tracking-[0.15em] bg-[#1A237E]/5 text-[#1A237E] hover:bg-[#1A237E]/10 transition-colors flex items-center justify-center gap-2 border border-[#1A237E]/5"
           >
-            {isExpanded ? <>Close Detail <ChevronUp size={14} /></> : <>Read More <ChevronDown size={14} /></>}
+            {isExpanded ? <>{t.card.closeDetail} <ChevronUp size={14} /></> : <>{t.card.readMore} <ChevronDown size={14} /></>}
           </button>
         </div>
 
         <AnimatePresence>
-          {(isExpanded || isDownloading) && (
+          {isExpanded && (
             <motion.div 
               initial={{ height: 0, opacity: 0 }} 
               animate={{ height: 'auto', opacity: 1 }} 
@@ -383,10 +499,10 @@ const BiomarkerCard: React.FC<{bio: Biomarker, onTermClick: (t: string) => void,
               transition={{ duration: 0.3, ease: "easeInOut" }}
               className="mt-4 pt-4 border-t border-gray-100 space-y-4"
             >
-              <p className="text-sm text-gray-700 leading-relaxed font-medium">{cleanText(bio.explanation)}</p>
+              <p className="text-sm text-gray-700 leading-relaxed font-medium">{stripFormatting(bio.explanation)}</p>
               <div className="no-print">
                 <button onClick={() => onTermClick(bio.name)} className="text-[9px] font-black text-indigo-500 hover:text-[#1A237E] flex items-center gap-2 transition-colors uppercase tracking-[0.1em]">
-                  <HelpCircle size={14} /> Explain Mechanism
+                  <HelpCircle size={14} /> {t.card.explainMechanism}
                 </button>
               </div>
             </motion.div>
@@ -397,6 +513,25 @@ const BiomarkerCard: React.FC<{bio: Biomarker, onTermClick: (t: string) => void,
   );
 };
 
+const UNIT_OPTIONS: UnitSystem[] = ['reported', 'conventional', 'si'];
+
+const UnitToggle: React.FC<{value: UnitSystem, onChange: (v: UnitSystem) => void}> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <div className="no-print flex items-center p-1 rounded-xl bg-[#1A237E]/5 border border-[#1A237E]/10">
+      {UNIT_OPTIONS.map(opt => (
+        <button
+          key={opt}
+          onClick={() => onChange(opt)}
+          className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${value === opt ? 'bg-[#1A237E] text-white shadow-md' : 'text-[#1A237E]/60 hover:text-[#1A237E]'}`}
+        >
+          {t.dashboard.units[opt]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
 const LifestyleCard: React.FC<{icon: React.ReactNode, title: string, desc: string, color: string}> = ({ icon, title, desc, color }) => (
   <div className={`p-8 rounded-[32px] ${color} flex gap-6 items-start border border-black/5 hover:shadow-xl transition-all duration-300 group h-auto self-start [page-break-inside:avoid]`}>
     <div className="w-12 h-12 bg-white rounded-xl flex items-center justify-center flex-shrink-0 shadow-md group-hover:scale-105 transition-transform">
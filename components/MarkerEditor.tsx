@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, Trash2, Check } from 'lucide-react';
+import { Biomarker } from '../types';
+import { BiomarkerEdit, MarkerFields } from '../analysisEdits';
+import { normalizeDecimal } from '../referenceRange';
+import { useI18n } from '../i18n';
+
+interface MarkerEditorProps {
+  biomarkers: Biomarker[]; // As reported, before any unit toggle
+  onEdit: (edit: BiomarkerEdit) => void;
+  onDone: () => void;
+}
+
+interface Draft {
+  value: string;
+  unit: string;
+  range: string;
+}
+
+// Accepts a decimal comma as well as a point, since that is how many reports print them.
+const parseValue = (text: string): number | null => {
+  const value = Number(normalizeDecimal(text.trim()));
+  return text.trim() && Number.isFinite(value) ? value : null;
+};
+
+const toFields = (draft: Draft): MarkerFields | null => {
+  const value = parseValue(draft.value);
+  return value === null ? null : { value, unit: draft.unit.trim(), range: draft.range.trim() };
+};
+
+const inputClass = 'w-full px-3 py-2 rounded-xl bg-white border border-slate-200 focus:border-[#1A237E]/40 outline-none text-sm font-semibold text-[#1A237E]';
+
+const MarkerRow: React.FC<{ bio: Biomarker, index: number, onEdit: MarkerEditorProps['onEdit'] }> = ({ bio, index, onEdit }) => {
+  const { t } = useI18n();
+  const original: Draft = { value: String(bio.currentValue), unit: bio.unit, range: bio.range };
+  const [draft, setDraft] = useState<Draft>(original);
+  const changed = draft.value !== original.value || draft.unit !== original.unit || draft.range !== original.range;
+  const fields = toFields(draft);
+
+  const save = () => {
+    if (fields) onEdit({ type: 'update', index, ...fields });
+  };
+
+  const remove = () => {
+    if (confirm(t.editor.removeConfirm(bio.name))) onEdit({ type: 'remove', index });
+  };
+
+  return (
+    <tr className="border-b border-[#1A237E]/5 last:border-0">
+      <td className="py-2 px-3 font-bold text-[#1A237E] text-sm">{bio.name}</td>
+      <td className="py-2 px-3">
+        <input value={draft.value} inputMode="decimal" onChange={(e) => setDraft({ ...draft, value: e.target.value })} aria-label={t.editor.value} className={`${inputClass} ${fields ? '' : 'border-rose-300'}`} />
+      </td>
+      <td className="py-2 px-3">
+        <input value={draft.unit} onChange={(e) => setDraft({ ...draft, unit: e.target.value })} aria-label={t.editor.unit} className={inputClass} />
+      </td>
+      <td className="py-2 px-3">
+        <input value={draft.range} onChange={(e) => setDraft({ ...draft, range: e.target.value })} aria-label={t.editor.range} className={inputClass} />
+      </td>
+      <td className="py-2 px-3">
+        <div className="flex items-center gap-1">
+          <button onClick={save} disabled={!changed || !fields} title={t.editor.save} aria-label={t.editor.save} className="p-2 rounded-xl bg-[#1A237E] text-white disabled:opacity-20 transition-all active:scale-95">
+            <Check className="w-4 h-4" />
+          </button>
+          <button onClick={remove} title={t.editor.remove} aria-label={t.editor.remove} className="p-2 rounded-xl text-rose-500 hover:bg-rose-50 transition-all active:scale-95">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+const EMPTY_DRAFT: Draft = { value: '', unit: '', range: '' };
+
+const MarkerEditor: React.FC<MarkerEditorProps> = ({ biomarkers, onEdit, onDone }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const fields = toFields(draft);
+
+  const add = () => {
+    if (!name.trim() || !fields) return;
+    onEdit({ type: 'add', name: name.trim(), ...fields });
+    setName('');
+    setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <div className="no-print glass rounded-[24px] border border-[#1A237E]/10 shadow-sm p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-lg font-black text-[#1A237E] uppercase tracking-tight flex items-center gap-2">
+            <Pencil className="w-4 h-4" /> {t.editor.title}
+          </h4>
+          <p className="text-sm font-semibold text-slate-500">{t.editor.intro}</p>
+        </div>
+        <button onClick={onDone} className="px-4 py-2 rounded-xl bg-[#1A237E] text-white font-black text-[10px] uppercase tracking-widest shadow-md active:scale-95 shrink-0">
+          {t.editor.done}
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="text-[10px] font-black text-gray-400 uppercase tracking-widest border-b border-[#1A237E]/10">
+            <tr>
+              <th className="py-2 px-3">{t.editor.name}</th>
+              <th className="py-2 px-3">{t.editor.value}</th>
+              <th className="py-2 px-3">{t.editor.unit}</th>
+              <th className="py-2 px-3">{t.editor.range}</th>
+              <th className="py-2 px-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {biomarkers.map((bio, idx) => (
+              // Keyed on the values too, so a row resets after its edit is applied
+              <MarkerRow key={`${bio.name}-${idx}-${bio.currentValue}-${bio.unit}-${bio.range}`} bio={bio} index={idx} onEdit={onEdit} />
+            ))}
+            <tr className="bg-[#1A237E]/5">
+              <td className="py-2 px-3">
+                <input value={name} onChange={(e) => setName(e.target.value)} placeholder={t.editor.newMarker} aria-label={t.editor.name} className={inputClass} />
+              </td>
+              <td className="py-2 px-3">
+                <input value={draft.value} inputMode="decimal" onChange={(e) => setDraft({ ...draft, value: e.target.value })} aria-label={t.editor.value} className={inputClass} />
+              </td>
+              <td className="py-2 px-3">
+                <input value={draft.unit} onChange={(e) => setDraft({ ...draft, unit: e.target.value })} aria-label={t.editor.unit} className={inputClass} />
+              </td>
+              <td className="py-2 px-3">
+                <input value={draft.range} onChange={(e) => setDraft({ ...draft, range: e.target.value })} aria-label={t.editor.range} className={inputClass} />
+              </td>
+              <td className="py-2 px-3">
+                <button onClick={add} disabled={!name.trim() || !fields} title={t.editor.add} aria-label={t.editor.add} className="p-2 rounded-xl bg-emerald-500 text-white disabled:opacity-20 transition-all active:scale-95">
+                  <Plus className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default MarkerEditor;
@@ -0,0 +1,132 @@
+
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FolderOpen, FileText, Pencil, Trash2, Check, X, GitCompare } from 'lucide-react';
+import { listReports, renameReport, deleteReport } from '../reportVault';
+import { Profile, StoredReport } from '../types';
+import { useI18n } from '../i18n';
+
+interface MyReportsProps {
+  onOpen: (report: StoredReport) => void;
+  profiles?: Profile[];
+  profileId?: string | null; // Only this person's reports; null or omitted lists everyone's
+  onCompare?: (report: StoredReport) => void; // Adds the report as a past checkup for the upload in progress
+}
+
+const MyReports: React.FC<MyReportsProps> = ({ onOpen, profiles = [], profileId, onCompare }) => {
+  const [reports, setReports] = useState<StoredReport[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const { t } = useI18n();
+
+  const refresh = () => {
+    listReports()
+      .then(setReports)
+      .catch(error => console.error("Could not load saved reports", error));
+  };
+
+  useEffect(refresh, []);
+
+  const startRename = (report: StoredReport) => {
+    setEditingId(report.id);
+    setDraftTitle(report.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      renameReport(editingId, draftTitle.trim())
+        .then(refresh)
+        .catch(error => console.error("Could not rename report", error));
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (report: StoredReport) => {
+    if (!confirm(t.myReports.deleteConfirm(report.title))) return;
+    deleteReport(report.id)
+      .then(refresh)
+      .catch(error => console.error("Could not delete report", error));
+  };
+
+  const shown = profileId ? reports.filter(r => r.profileId === profileId) : reports;
+  const ownerName = (report: StoredReport) => profiles.find(p => p.id === report.profileId)?.name;
+
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-5xl mb-8 text-left">
+      <div className="flex items-center gap-3 mb-4 px-2">
+        <div className="w-8 h-8 bg-[#1A237E] rounded-xl flex items-center justify-center shadow-lg">
+          <FolderOpen className="w-4 h-4 text-white" />
+        </div>
+        <h3 className="text-xl font-black text-[#1A237E] uppercase tracking-tighter">{t.myReports.title}</h3>
+        <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-auto">{t.myReports.savedOnDevice}</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        <AnimatePresence>
+          {shown.map(report => (
+            <motion.div
+              key={report.id}
+              layout
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="glass p-5 rounded-[24px] shadow-sm border border-white/40 flex items-center gap-4"
+            >
+              <button
+                onClick={() => onOpen(report)}
+                disabled={editingId === report.id}
+                className="w-10 h-10 bg-[#1A237E]/5 text-[#1A237E] rounded-xl flex items-center justify-center shrink-0 hover:bg-[#1A237E]/10 transition-colors"
+              >
+                <FileText size={18} />
+              </button>
+
+              <div className="min-w-0 flex-1">
+                {editingId === report.id ? (
+                  <form onSubmit={(e) => { e.preventDefault(); commitRename(); }} className="flex items-center gap-1">
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      className="w-full bg-white rounded-lg px-2 py-1 text-sm font-bold text-[#1A237E] outline-none focus:ring-2 focus:ring-indigo-100"
+                    />
+                    <button type="submit" className="p-1 text-emerald-600 hover:bg-emerald-50 rounded-full"><Check size={14} /></button>
+                    <button type="button" onClick={() => setEditingId(null)} className="p-1 text-gray-400 hover:bg-slate-100 rounded-full"><X size={14} /></button>
+                  </form>
+                ) : (
+                  <button onClick={() => onOpen(report)} className="block w-full text-left">
+                    <p className="font-black text-[#1A237E] text-sm tracking-tight truncate">{report.title}</p>
+                    <p className="text-[9px] font-black text-gray-400 uppercase tracking-widest truncate">
+                      {report.collectionDate || new Date(report.createdAt).toLocaleDateString()}
+                      {report.files.length > 1 && ` · ${t.myReports.reportCount(report.files.length)}`}
+                      {!profileId && ownerName(report) && ` · ${ownerName(report)}`}
+                    </p>
+                  </button>
+                )}
+              </div>
+
+              {editingId !== report.id && (
+                <div className="flex items-center gap-1 shrink-0">
+                  {onCompare && (
+                    <button onClick={() => onCompare(report)} title={t.myReports.compare} aria-label={t.myReports.compare} className="p-2 text-[#1A237E]/50 hover:text-emerald-600 hover:bg-white rounded-full transition-colors">
+                      <GitCompare size={14} />
+                    </button>
+                  )}
+                  <button onClick={() => startRename(report)} className="p-2 text-[#1A237E]/50 hover:text-[#1A237E] hover:bg-white rounded-full transition-colors">
+                    <Pencil size={14} />
+                  </button>
+                  <button onClick={() => handleDelete(report)} className="p-2 text-[#1A237E]/50 hover:text-red-500 hover:bg-white rounded-full transition-colors">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              )}
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+};
+
+export default MyReports;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { UserRound, UserPlus, ArrowRight } from 'lucide-react';
+import { Profile } from '../types';
+import { useI18n } from '../i18n';
+
+interface ProfileAssignmentProps {
+  profiles: Profile[];
+  profileId: string | null; // Who the open report is assigned to
+  suggestion: Profile | null; // Best match for the printed patient
+  patientName?: string; // As printed, restored if it was masked
+  onAssign: (profileId: string | null) => void;
+  onCreateFromReport: () => void;
+}
+
+const ProfileAssignment: React.FC<ProfileAssignmentProps> = ({ profiles, profileId, suggestion, patientName, onAssign, onCreateFromReport }) => {
+  const { t } = useI18n();
+  const suggestMove = suggestion && suggestion.id !== profileId;
+  const suggestCreate = !suggestion && !profileId && !!patientName;
+
+  return (
+    <div className="no-print max-w-7xl mx-auto mt-6 flex flex-wrap items-center gap-3 px-5 py-3 rounded-2xl bg-white/60 border border-[#1A237E]/10 text-sm font-semibold text-[#1A237E]">
+      <UserRound className="w-4 h-4 shrink-0" />
+      <label className="flex items-center gap-2">
+        <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t.profiles.belongsTo}</span>
+        <select value={profileId || ''} onChange={(e) => onAssign(e.target.value || null)} className="px-3 py-1.5 rounded-xl bg-white border border-slate-200 outline-none font-bold">
+          <option value="">{t.profiles.unassigned}</option>
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </label>
+      {suggestMove && (
+        <button onClick={() => onAssign(suggestion.id)} className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-[#1A237E]/5 hover:bg-[#1A237E]/10 transition-all active:scale-95">
+          {t.profiles.suggestion(patientName || suggestion.name, suggestion.name)} <ArrowRight className="w-3 h-3" />
+        </button>
+      )}
+      {suggestCreate && (
+        <button onClick={onCreateFromReport} className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-[#1A237E]/5 hover:bg-[#1A237E]/10 transition-all active:scale-95">
+          <UserPlus className="w-3.5 h-3.5" /> {t.profiles.createFrom(patientName!)}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ProfileAssignment;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Users, UserPlus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { Profile } from '../types';
+import { profileAge } from '../profiles';
+import { useI18n } from '../i18n';
+
+type ProfileFields = Omit<Profile, 'id' | 'createdAt'>;
+
+interface ProfileSwitcherProps {
+  profiles: Profile[];
+  activeId: string | null; // null shows everyone's reports
+  onSelect: (id: string | null) => void;
+  onCreate: (fields: ProfileFields) => void;
+  onUpdate: (profile: Profile) => void;
+  onDelete: (profile: Profile) => void;
+}
+
+const EMPTY: ProfileFields = { name: '' };
+
+const inputClass = 'px-3 py-2 rounded-xl bg-white border border-slate-200 focus:border-[#1A237E]/40 outline-none text-sm font-semibold text-[#1A237E]';
+
+const ProfileForm: React.FC<{ initial: ProfileFields, onSave: (fields: ProfileFields) => void, onCancel: () => void, onDelete?: () => void }> = ({ initial, onSave, onCancel, onDelete }) => {
+  const { t } = useI18n();
+  const [fields, setFields] = useState<ProfileFields>(initial);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fields.name.trim()) return;
+    onSave({
+      name: fields.name.trim(),
+      ...(fields.birthDate ? { birthDate: fields.birthDate } : {}),
+      ...(fields.sex ? { sex: fields.sex } : {})
+    });
+  };
+
+  return (
+    <form onSubmit={submit} className="flex flex-wrap items-center justify-center gap-2">
+      <input autoFocus value={fields.name} onChange={(e) => setFields({ ...fields, name: e.target.value })} placeholder={t.profiles.name} aria-label={t.profiles.name} className={inputClass} />
+      <input type="date" value={fields.birthDate || ''} onChange={(e) => setFields({ ...fields, birthDate: e.target.value || undefined })} aria-label={t.profiles.birthDate} className={inputClass} />
+      <select value={fields.sex || ''} onChange={(e) => setFields({ ...fields, sex: (e.target.value || undefined) as ProfileFields['sex'] })} aria-label={t.profiles.sex} className={inputClass}>
+        <option value="">{t.profiles.sex}</option>
+        <option value="female">{t.profiles.female}</option>
+        <option value="male">{t.profiles.male}</option>
+        <option value="other">{t.profiles.other}</option>
+      </select>
+      <button type="submit" disabled={!fields.name.trim()} title={t.profiles.save} aria-label={t.profiles.save} className="p-2 rounded-xl bg-[#1A237E] text-white disabled:opacity-20 transition-all active:scale-95">
+        <Check className="w-4 h-4" />
+      </button>
+      <button type="button" onClick={onCancel} title={t.profiles.cancel} aria-label={t.profiles.cancel} className="p-2 rounded-xl text-gray-400 hover:bg-slate-100 transition-all active:scale-95">
+        <X className="w-4 h-4" />
+      </button>
+      {onDelete && (
+        <button type="button" onClick={onDelete} title={t.profiles.delete} aria-label={t.profiles.delete} className="p-2 rounded-xl text-rose-500 hover:bg-rose-50 transition-all active:scale-95">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+    </form>
+  );
+};
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeId, onSelect, onCreate, onUpdate, onDelete }) => {
+  const { t } = useI18n();
+  const [editing, setEditing] = useState<Profile | 'new' | null>(null);
+  const active = profiles.find(p => p.id === activeId);
+
+  const chipClass = (selected: boolean) => `flex items-center gap-2 px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest border transition-all active:scale-95 ${selected ? 'bg-[#1A237E] text-white border-[#1A237E] shadow-md' : 'bg-white/60 text-[#1A237E]/60 border-[#1A237E]/10 hover:text-[#1A237E]'}`;
+
+  if (editing) {
+    return (
+      <ProfileForm
+        key={editing === 'new' ? 'new' : editing.id}
+        initial={editing === 'new' ? EMPTY : editing}
+        onSave={(fields) => {
+          if (editing === 'new') onCreate(fields);
+          else onUpdate({ id: editing.id, createdAt: editing.createdAt, ...fields });
+          setEditing(null);
+        }}
+        onCancel={() => setEditing(null)}
+        onDelete={editing === 'new' ? undefined : () => {
+          if (!confirm(t.profiles.deleteConfirm(editing.name))) return;
+          onDelete(editing);
+          setEditing(null);
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <span className="flex items-center gap-2 text-[10px] font-black text-gray-400 uppercase tracking-widest mr-1">
+        <Users className="w-3.5 h-3.5" /> {t.profiles.switcherTitle}
+      </span>
+      <button onClick={() => onSelect(null)} className={chipClass(!active)}>{t.profiles.everyone}</button>
+      {profiles.map(profile => {
+        const age = profileAge(profile);
+        return (
+          <button key={profile.id} onClick={() => onSelect(profile.id)} className={chipClass(profile.id === active?.id)}>
+            {profile.name}{age !== undefined && <span className="opacity-60">{t.profiles.age(age)}</span>}
+          </button>
+        );
+      })}
+      {active && (
+        <button onClick={() => setEditing(active)} title={t.profiles.edit} aria-label={t.profiles.edit} className="p-2 rounded-xl text-[#1A237E]/50 hover:text-[#1A237E] hover:bg-white transition-all">
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+      )}
+      <button onClick={() => setEditing('new')} title={t.profiles.add} aria-label={t.profiles.add} className="p-2 rounded-xl text-[#1A237E]/50 hover:text-[#1A237E] hover:bg-white transition-all">
+        <UserPlus className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
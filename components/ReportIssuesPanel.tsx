@@ -0,0 +1,47 @@
+import React from 'react';
+import { FileWarning, ArrowRight } from 'lucide-react';
+import { isBlocking, ReportIssue } from '../reportChecks';
+import { useI18n } from '../i18n';
+
+interface ReportIssuesPanelProps {
+  issues: ReportIssue[];
+  onContinue: () => void; // Analyze anyway; not offered while any issue is blocking
+}
+
+const ReportIssuesPanel: React.FC<ReportIssuesPanelProps> = ({ issues, onContinue }) => {
+  const { t } = useI18n();
+  const blocked = issues.some(isBlocking);
+  const label = (report: number) => report === 0 ? t.checks.latest : t.app.pastCheckup(report);
+
+  const describe = (issue: ReportIssue) => {
+    switch (issue.kind) {
+      case 'not-lab-report': return t.checks.notLabReport(label(issue.report), issue.documentType);
+      case 'patient-mismatch': return t.checks.patientMismatch(label(issue.report), issue.name, issue.latestName);
+      case 'past-newer': return t.checks.pastNewer(label(issue.report), issue.date, issue.latestDate);
+    }
+  };
+
+  return (
+    <div role="alert" className={`w-full max-w-lg px-5 py-4 rounded-2xl border text-left space-y-3 ${blocked ? 'bg-rose-50 border-rose-200 text-rose-900' : 'bg-amber-50 border-amber-200 text-amber-900'}`}>
+      <div className="flex items-start gap-3">
+        <FileWarning className="w-5 h-5 mt-0.5 shrink-0" />
+        <div className="space-y-2">
+          <p className="text-sm font-black">{t.checks.title}</p>
+          <ul className="space-y-1 list-disc pl-4">
+            {issues.map((issue, idx) => (
+              <li key={idx} className="text-sm font-semibold leading-relaxed">{describe(issue)}</li>
+            ))}
+          </ul>
+          <p className="text-xs font-semibold opacity-80">{blocked ? t.checks.blockedHint : t.checks.warningHint}</p>
+        </div>
+      </div>
+      {!blocked && (
+        <button onClick={onContinue} className="ml-8 flex items-center gap-2 px-4 py-2 rounded-xl bg-white text-amber-900 font-black text-[10px] uppercase tracking-widest border border-amber-200 hover:bg-amber-100 transition-all active:scale-95">
+          {t.checks.continueAnyway} <ArrowRight className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReportIssuesPanel;
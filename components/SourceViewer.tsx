@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, ChevronLeft, ChevronRight, Loader2, FileSearch } from 'lucide-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { Biomarker, FileData, FilePage } from '../types';
+import { loadPdf, renderPdfPage } from '../pdfDocument';
+import { useI18n } from '../i18n';
+
+interface SourceViewerProps {
+  file: FileData; // The latest report, which is the one source locations refer to
+  marker: Biomarker;
+  onClose: () => void;
+}
+
+// One viewable page: an image, or a single page of a PDF
+interface ViewerPage {
+  filePage: FilePage;
+  pdf?: PDFDocumentProxy;
+  pdfPage?: number;
+}
+
+const PDF_SCALE = 2;
+
+// Matches how the model is told to count pages: every page of every image and PDF, in order.
+const listPages = async (file: FileData): Promise<ViewerPage[]> => {
+  const pages: ViewerPage[] = [];
+  for (const filePage of file.pages) {
+    if (filePage.mimeType !== 'application/pdf') {
+      pages.push({ filePage });
+      continue;
+    }
+    const pdf = await loadPdf(filePage.base64);
+    for (let n = 1; n <= pdf.numPages; n++) pages.push({ filePage, pdf, pdfPage: n });
+  }
+  return pages;
+};
+
+const renderPage = async (page: ViewerPage): Promise<string> => {
+  if (!page.pdf) return `data:${page.filePage.mimeType};base64,${page.filePage.base64}`;
+  const canvas = await renderPdfPage(await page.pdf.getPage(page.pdfPage!), PDF_SCALE);
+  return canvas.toDataURL('image/png');
+};
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ file, marker, onClose }) => {
+  const [pages, setPages] = useState<ViewerPage[] | null>(null);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const { t } = useI18n();
+
+  const source = marker.source;
+  const sourceIndex = source ? source.page - 1 : -1;
+  const box = pageIndex === sourceIndex ? source?.box : undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: ViewerPage[] = [];
+    setPages(null);
+    listPages(file)
+      .then(list => {
+        loaded = list;
+        if (!cancelled) setPages(list);
+      })
+      .catch(error => {
+        console.error('Could not open the report for viewing', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+      new Set(loaded.map(p => p.pdf)).forEach(pdf => pdf?.destroy());
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (pages) setPageIndex(Math.min(Math.max(sourceIndex, 0), pages.length - 1));
+  }, [pages, marker]);
+
+  useEffect(() => {
+    if (!pages?.[pageIndex]) return;
+    let cancelled = false;
+    setImageUrl(null);
+    renderPage(pages[pageIndex])
+      .then(url => { if (!cancelled) setImageUrl(url); })
+      .catch(error => {
+        console.error('Could not render the report page', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [pages, pageIndex]);
+
+  const scrollToHighlight = () => highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+  // A new image scrolls on load; another marker on the page already shown needs a nudge.
+  useEffect(() => {
+    if (imageUrl) scrollToHighlight();
+  }, [marker]);
+
+  return (
+    <motion.aside
+      initial={{ x: '100%' }}
+      animate={{ x: 0 }}
+      exit={{ x: '100%' }}
+      transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+      className="no-print fixed top-16 right-0 bottom-0 w-full lg:w-[42vw] z-[90] bg-white shadow-2xl border-l border-[#1A237E]/10 flex flex-col"
+    >
+      <div className="px-6 py-4 border-b border-[#1A237E]/10 flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t.source.title}</p>
+          <h3 className="text-lg font-black text-[#1A237E] uppercase tracking-tighter truncate">{marker.name}</h3>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {pages && pages.length > 1 && (
+            <>
+              <button onClick={() => setPageIndex(i => i - 1)} disabled={pageIndex === 0} aria-label={t.source.previousPage} className="p-2 rounded-xl hover:bg-slate-100 disabled:opacity-30">
+                <ChevronLeft className="w-5 h-5 text-[#1A237E]" />
+              </button>
+              <span className="text-[10px] font-black text-[#1A237E] uppercase tracking-widest">{t.source.pageOf(pageIndex + 1, pages.length)}</span>
+              <button onClick={() => setPageIndex(i => i + 1)} disabled={pageIndex === pages.length - 1} aria-label={t.source.nextPage} className="p-2 rounded-xl hover:bg-slate-100 disabled:opacity-30">
+                <ChevronRight className="w-5 h-5 text-[#1A237E]" />
+              </button>
+            </>
+          )}
+          <button onClick={onClose} aria-label={t.source.close} className="p-2 rounded-xl hover:bg-slate-100">
+            <X className="w-5 h-5 text-[#1A237E]" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-slate-100 p-4">
+        {failed ? (
+          <p className="text-sm font-semibold text-slate-500 text-center py-12">{t.source.unavailable}</p>
+        ) : imageUrl ? (
+          <div className="relative mx-auto shadow-lg bg-white">
+            <img src={imageUrl} alt={t.source.pageOf(pageIndex + 1, pages?.length || 1)} onLoad={scrollToHighlight} className="w-full h-auto block" />
+            {box && (
+              <div
+                ref={highlightRef}
+                className="absolute rounded-md border-2 border-amber-500 bg-amber-300/30 pointer-events-none animate-pulse"
+                style={{
+                  left: `calc(${box.x * 100}% - 4px)`,
+                  top: `calc(${box.y * 100}% - 4px)`,
+                  width: `calc(${box.width * 100}% + 8px)`,
+                  height: `calc(${box.height * 100}% + 8px)`
+                }}
+              />
+            )}
+          </div>
+        ) : (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-[#1A237E]/30" />
+          </div>
+        )}
+      </div>
+
+      <div className="px-6 py-4 border-t border-[#1A237E]/10 space-y-1">
+        {source ? (
+          <>
+            <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+              <FileSearch className="w-3 h-3" /> {t.source.printedAs(source.page)}
+            </p>
+            <p className="font-mono text-sm text-[#1A237E] break-words">{source.text || '—'}</p>
+            {!source.box && <p className="text-xs font-semibold text-slate-400">{t.source.noRegion}</p>}
+          </>
+        ) : (
+          <p className="text-sm font-semibold text-slate-500">{t.source.noLocation}</p>
+        )}
+      </div>
+    </motion.aside>
+  );
+};
+
+export default SourceViewer;
@@ -1,8 +1,10 @@
 
 import React, { useRef, useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, FileText, X, FileSearch, CheckCircle2, Loader2, Sparkles, LineChart } from 'lucide-react';
-import { FileData } from '../types';
+import { Upload, FileText, X, FileSearch, CheckCircle2, Loader2, Sparkles, LineChart, ChevronLeft, ChevronRight, Plus, Camera } from 'lucide-react';
+import { FileData, FilePage } from '../types';
+import CameraCapture from './CameraCapture';
+import { useI18n } from '../i18n';
 
 interface UploaderProps {
   label: string;
@@ -17,9 +19,11 @@ interface UploaderProps {
 const Uploader: React.FC<UploaderProps> = ({ label, onFileSelect, selectedFile, isProcessing, compact, glow, variant = 'primary' }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const { t } = useI18n();
 
-  const loadingText = variant === 'primary' ? "Reading your labs..." : "Comparing records...";
-  const subtext = variant === 'primary' ? "Turning medical numbers into clear insights." : "Finding patterns in your health story.";
+  const loadingText = variant === 'primary' ? t.uploader.readingLabs : t.uploader.comparingRecords;
+  const subtext = variant === 'primary' ? t.uploader.readingSubtext : t.uploader.comparingSubtext;
 
   const compressImage = (file: File): Promise<{ base64: string, mimeType: string }> => {
     return new Promise((resolve, reject) => {
@@ -61,45 +65,76 @@ const Uploader: React.FC<UploaderProps> = ({ label, onFileSelect, selectedFile,
     });
   };
 
-  const processFile = async (file: File) => {
+  const readAsBase64 = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve((reader.result as string).split(',')[1]);
+      reader.onerror = () => reject(new Error('File read error'));
+      reader.readAsDataURL(file);
+    });
+  };
+
+  const processFile = async (file: File): Promise<FilePage | null> => {
     const MAX_RAW_SIZE = 35 * 1024 * 1024;
 
     try {
       if (file.type.startsWith('image/')) {
         const compressed = await compressImage(file);
-        onFileSelect({
+        return {
           base64: compressed.base64,
           mimeType: compressed.mimeType,
           name: file.name
-        });
+        };
       } else if (file.type === 'application/pdf') {
         if (file.size > MAX_RAW_SIZE) {
-          alert("This PDF is too large. Please try a smaller scan.");
-          return;
+          alert(t.uploader.tooLarge(file.name));
+          return null;
         }
-        
-        const reader = new FileReader();
-        reader.onload = () => {
-          const base64 = (reader.result as string).split(',')[1];
-          onFileSelect({
-            base64,
-            mimeType: file.type,
-            name: file.name
-          });
+        return {
+          base64: await readAsBase64(file),
+          mimeType: file.type,
+          name: file.name
         };
-        reader.readAsDataURL(file);
       } else {
-        alert("Please upload a PDF or an Image.");
+        alert(t.uploader.unsupportedType);
+        return null;
       }
     } catch (error) {
       console.error("File processing failed:", error);
-      alert("Failed to process the file.");
+      alert(t.uploader.processFailed(file.name));
+      return null;
     }
   };
 
+  // New files are appended as extra pages of the report already in this slot.
+  const addFiles = async (files: File[]) => {
+    const pages = (await Promise.all(files.map(processFile))).filter((p): p is FilePage => p !== null);
+    if (pages.length === 0) return;
+    onFileSelect({
+      name: selectedFile?.name || pages[0].name,
+      pages: [...(selectedFile?.pages || []), ...pages]
+    });
+  };
+
+  const movePage = (idx: number, offset: number) => {
+    if (!selectedFile) return;
+    const pages = [...selectedFile.pages];
+    const target = idx + offset;
+    if (target < 0 || target >= pages.length) return;
+    [pages[idx], pages[target]] = [pages[target], pages[idx]];
+    onFileSelect({ ...selectedFile, pages });
+  };
+
+  const removePage = (idx: number) => {
+    if (!selectedFile) return;
+    const pages = selectedFile.pages.filter((_, i) => i !== idx);
+    onFileSelect(pages.length ? { name: pages[0].name, pages } : null);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) processFile(file);
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length) addFiles(files);
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -121,12 +156,19 @@ const Uploader: React.FC<UploaderProps> = ({ label, onFileSelect, selectedFile,
     
     if (isProcessing) return;
     
-    const file = e.dataTransfer.files?.[0];
-    if (file) {
-      processFile(file);
-    }
+    const files = Array.from(e.dataTransfer.files || []);
+    if (files.length) addFiles(files);
+  };
+
+  const openCamera = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!isProcessing) setIsCameraOpen(true);
   };
 
+  const cameraModal = isCameraOpen && (
+    <CameraCapture onCapture={addFiles} onClose={() => setIsCameraOpen(false)} />
+  );
+
   const handleRemove = (e: React.MouseEvent) => {
     e.stopPropagation();
     onFileSelect(null);
@@ -137,18 +179,42 @@ const Uploader: React.FC<UploaderProps> = ({ label, onFileSelect, selectedFile,
     return (
       <div 
         onClick={() => !isProcessing && fileInputRef.current?.click()}
-        className={`flex items-center gap-3 px-6 py-4 rounded-2xl border border-dashed transition-all cursor-pointer bg-white/30 backdrop-blur-md ${selectedFile ? 'border-emerald-500 bg-emerald-50/20' : 'border-[#1A237E]/20 hover:border-[#1A237E]/50'}`}
+        className={`flex flex-col gap-3 px-6 py-4 rounded-2xl border border-dashed transition-all cursor-pointer bg-white/30 backdrop-blur-md ${selectedFile ? 'border-emerald-500 bg-emerald-50/20' : 'border-[#1A237E]/20 hover:border-[#1A237E]/50'}`}
       >
-        <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/*,application/pdf" />
-        <FileText className={`w-5 h-5 ${selectedFile ? 'text-emerald-500' : 'text-[#1A237E]/40'}`} />
-        <span className="text-sm font-bold text-[#1A237E] truncate max-w-[150px]">
-          {selectedFile ? selectedFile.name : label}
-        </span>
-        {selectedFile && (
-          <button onClick={handleRemove} className="ml-auto p-1 hover:bg-emerald-100 rounded-full text-emerald-600">
-            <X className="w-4 h-4" />
+        <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/*,application/pdf" multiple />
+        <div className="flex items-center gap-3">
+          <FileText className={`w-5 h-5 ${selectedFile ? 'text-emerald-500' : 'text-[#1A237E]/40'}`} />
+          <span className="text-sm font-bold text-[#1A237E] truncate max-w-[150px]">
+            {selectedFile ? selectedFile.name : label}
+          </span>
+          {selectedFile && selectedFile.pages.length > 1 && (
+            <span className="text-[9px] font-black text-emerald-600 uppercase tracking-widest shrink-0">{t.uploader.pageCount(selectedFile.pages.length)}</span>
+          )}
+          <button onClick={openCamera} className="ml-auto p-1 hover:bg-[#1A237E]/5 rounded-full text-[#1A237E]/50">
+            <Camera className="w-4 h-4" />
           </button>
+          {selectedFile && (
+            <button onClick={handleRemove} className="p-1 hover:bg-emerald-100 rounded-full text-emerald-600">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        {selectedFile && (
+          <div className="flex flex-wrap gap-2">
+            {selectedFile.pages.map((page, idx) => (
+              <PageThumbnail
+                key={`${page.name}-${idx}`}
+                page={page}
+                index={idx}
+                total={selectedFile.pages.length}
+                onMove={(offset) => movePage(idx, offset)}
+                onRemove={() => removePage(idx)}
+                small
+              />
+            ))}
+          </div>
         )}
+        {cameraModal}
       </div>
     );
   }
@@ -173,6 +239,7 @@ const Uploader: React.FC<UploaderProps> = ({ label, onFileSelect, selectedFile,
         onChange={handleFileChange} 
         className="hidden" 
         accept="image/*,application/pdf"
+        multiple
       />
       
       <div className="flex flex-col items-center text-center gap-6 relative z-10">
@@ -208,21 +275,30 @@ const Uploader: React.FC<UploaderProps> = ({ label, onFileSelect, selectedFile,
               exit={{ scale: 0.9, opacity: 0 }}
               className="flex flex-col items-center gap-5"
             >
-              <div className="w-16 h-16 bg-emerald-100 rounded-[28px] flex items-center justify-center relative shadow-xl border border-emerald-200">
-                <FileText className="w-8 h-8 text-emerald-600" />
-                <motion.button 
-                  whileHover={{ scale: 1.1 }}
-                  whileTap={{ scale: 0.9 }}
-                  onClick={handleRemove}
-                  className="absolute -top-3 -right-3 bg-red-500 text-white p-2 rounded-full hover:bg-red-600 transition-colors shadow-lg border-2 border-white"
-                >
-                  <X className="w-4 h-4" />
-                </motion.button>
+              <div className="flex flex-wrap justify-center gap-3 max-h-[190px] overflow-y-auto p-2">
+                {selectedFile.pages.map((page, idx) => (
+                  <PageThumbnail
+                    key={`${page.name}-${idx}`}
+                    page={page}
+                    index={idx}
+                    total={selectedFile.pages.length}
+                    onMove={(offset) => movePage(idx, offset)}
+                    onRemove={() => removePage(idx)}
+                  />
+                ))}
+                <div className="w-16 h-20 rounded-xl border-2 border-dashed border-emerald-300 flex flex-col items-center justify-center text-emerald-600 gap-1">
+                  <Plus className="w-5 h-5" />
+                  <span className="text-[8px] font-black uppercase tracking-widest">{t.uploader.page}</span>
+                </div>
+                <button onClick={openCamera} className="w-16 h-20 rounded-xl border-2 border-dashed border-emerald-300 flex flex-col items-center justify-center text-emerald-600 gap-1 hover:bg-emerald-50 transition-colors">
+                  <Camera className="w-5 h-5" />
+                  <span className="text-[8px] font-black uppercase tracking-widest">{t.uploader.scan}</span>
+                </button>
               </div>
               <div className="space-y-1">
                 <p className="font-black text-[#1A237E] text-lg tracking-tight max-w-[200px] truncate">{selectedFile.name}</p>
                 <div className="flex items-center justify-center gap-2 text-emerald-600 font-black text-[9px] uppercase tracking-widest">
-                  <CheckCircle2 className="w-4 h-4" /> Ready to View
+                  <CheckCircle2 className="w-4 h-4" /> {selectedFile.pages.length > 1 ? t.uploader.pagesReady(selectedFile.pages.length) : t.uploader.readyToView}
                 </div>
               </div>
             </motion.div>
@@ -242,12 +318,21 @@ const Uploader: React.FC<UploaderProps> = ({ label, onFileSelect, selectedFile,
               </motion.div>
               <div className="space-y-2 px-4">
                 <p className="font-black text-[#1A237E] text-xl tracking-tight leading-none">
-                  {isDragging ? "Drop to View" : label}
+                  {isDragging ? t.uploader.dropToView : label}
                 </p>
                 <p className="text-gray-500 text-sm font-medium max-w-[200px] mx-auto leading-relaxed">
-                  {isDragging ? "Release to see your results" : glow ? "Add a past record to see your progress" : "Drag and drop report here"}
+                  {isDragging ? t.uploader.releaseToSee : glow ? t.uploader.addPastHint : t.uploader.dragDrop}
                 </p>
               </div>
+              {!isDragging && (
+                <button
+                  onClick={openCamera}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white text-[#1A237E] font-black text-[9px] uppercase tracking-widest border border-[#1A237E]/10 shadow-sm hover:shadow-md transition-all active:scale-95"
+                >
+                  <Camera className="w-3.5 h-3.5" />
+                  {t.uploader.scanWithCamera}
+                </button>
+              )}
             </motion.div>
           )}
         </AnimatePresence>
@@ -260,8 +345,42 @@ const Uploader: React.FC<UploaderProps> = ({ label, onFileSelect, selectedFile,
           className="absolute inset-0 bg-[#1A237E] pointer-events-none"
         />
       )}
+      {cameraModal}
     </motion.div>
   );
 };
 
+const PageThumbnail: React.FC<{page: FilePage, index: number, total: number, onMove: (offset: number) => void, onRemove: () => void, small?: boolean}> = ({ page, index, total, onMove, onRemove, small }) => {
+  const stop = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
+  };
+
+  return (
+    <div className={`relative ${small ? 'w-11 h-14 rounded-lg' : 'w-16 h-20 rounded-xl'} bg-white border border-emerald-200 shadow-md overflow-hidden group/page`} title={page.name}>
+      {page.mimeType.startsWith('image/') ? (
+        <img src={`data:${page.mimeType};base64,${page.base64}`} alt={page.name} className="w-full h-full object-cover" />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center bg-emerald-50">
+          <FileText className={`${small ? 'w-4 h-4' : 'w-6 h-6'} text-emerald-600`} />
+        </div>
+      )}
+      <span className={`absolute ${small ? 'top-0.5' : 'bottom-1'} left-1 px-1.5 rounded-md bg-[#1A237E] text-white text-[8px] font-black`}>{index + 1}</span>
+      <button onClick={stop(onRemove)} className="absolute top-0.5 right-0.5 bg-red-500 text-white p-0.5 rounded-full shadow border border-white">
+        <X className={small ? 'w-2.5 h-2.5' : 'w-3 h-3'} />
+      </button>
+      {total > 1 && (
+        <div className="absolute inset-x-0 bottom-0 flex justify-end gap-0.5 p-0.5 opacity-0 group-hover/page:opacity-100 transition-opacity">
+          <button onClick={stop(() => onMove(-1))} disabled={index === 0} className="bg-white/90 rounded p-0.5 text-[#1A237E] disabled:opacity-30">
+            <ChevronLeft className="w-3 h-3" />
+          </button>
+          <button onClick={stop(() => onMove(1))} disabled={index === total - 1} className="bg-white/90 rounded p-0.5 text-[#1A237E] disabled:opacity-30">
+            <ChevronRight className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
 export default Uploader;
@@ -0,0 +1,8 @@
+import { HealthStatus } from '../types';
+
+// Badge colours for each status, shared by the marker cards and the All Results table
+export const STATUS_BADGE: Record<HealthStatus, { bg: string, text: string }> = {
+  [HealthStatus.HIGH]: { bg: 'bg-amber-100', text: 'text-amber-700' },
+  [HealthStatus.LOW]: { bg: 'bg-sky-100', text: 'text-sky-700' },
+  [HealthStatus.NORMAL]: { bg: 'bg-emerald-100', text: 'text-emerald-700' }
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { criticalFinding, findCriticalValues, unitKey } from "./criticalValues";
+import { AnalysisResult, Biomarker, HealthStatus } from "./types";
+
+const marker = (name: string, currentValue: number, unit: string, catalogId?: string): Biomarker =>
+  ({ name, currentValue, unit, catalogId, status: HealthStatus.NORMAL, range: '', analogy: '', explanation: '' });
+
+describe('unitKey', () => {
+  it('folds the ways labs write cell counts into one key', () => {
+    expect(unitKey('x10^3/uL')).toBe('103/ul');
+    expect(unitKey('10³/µL')).toBe('103/ul');
+    expect(unitKey('10^3 cells/cu.mm')).toBe('103/ul');
+    expect(unitKey('× 10⁹/L')).toBe('109/l');
+    expect(unitKey('lakhs/cumm')).toBe('lakh/ul');
+    expect(unitKey('Lakh/mm3')).toBe('lakh/ul');
+  });
+
+  it('folds case, spacing and the spelling of litre', () => {
+    expect(unitKey('mEq/L')).toBe('meq/l');
+    expect(unitKey('mmol / litre')).toBe('mmol/l');
+    expect(unitKey('µmol/L')).toBe('umol/l');
+  });
+});
+
+describe('criticalFinding', () => {
+  it('flags values at or beyond the limits and leaves the rest', () => {
+    expect(criticalFinding(marker('Potassium', 6.2, 'mmol/L'), 0)).toEqual({ name: 'Potassium', value: 6.2, unit: 'mmol/L', direction: 'high', threshold: 6.2, index: 0 });
+    expect(criticalFinding(marker('Sodium', 118, 'mmol/L'), 0)).toMatchObject({ direction: 'low', threshold: 120 });
+    expect(criticalFinding(marker('Potassium', 6.1, 'mmol/L'), 0)).toBeNull();
+    expect(criticalFinding(marker('LDL', 400, 'mg/dL'), 0)).toBeNull();
+  });
+
+  it('converts printed units and gives the limit back in them', () => {
+    expect(criticalFinding(marker('Potassium', 2.5, 'mEq/L'), 0)).toMatchObject({ direction: 'low', threshold: 2.8 });
+    expect(criticalFinding(marker('Glucose', 2.1, 'mmol/L'), 0)).toMatchObject({ direction: 'low', threshold: 2.22 });
+    expect(criticalFinding(marker('Platelet Count', 0.15, 'lakhs/cumm'), 0)).toMatchObject({ direction: 'low', threshold: 0.2 });
+    expect(criticalFinding(marker('Platelet Count', 15000, '/cumm'), 0)).toMatchObject({ direction: 'low', threshold: 20000 });
+    expect(criticalFinding(marker('WBC', 35, 'x10^3/uL'), 0)).toMatchObject({ direction: 'high', threshold: 30 });
+    expect(criticalFinding(marker('Hemoglobin', 65, 'g/L'), 0)).toMatchObject({ direction: 'low', threshold: 70 });
+  });
+
+  it('skips units it cannot compare', () => {
+    expect(criticalFinding(marker('Potassium', 9, 'mg/dL'), 0)).toBeNull();
+  });
+
+  it('only checks blood, whatever catalog id the marker carries', () => {
+    expect(criticalFinding(marker('Urine Potassium', 80, 'mmol/L'), 0)).toBeNull();
+    expect(criticalFinding(marker('Glucose (Urine)', 500, 'mg/dL', 'glucose'), 0)).toBeNull();
+    expect(criticalFinding(marker('CSF Glucose', 30, 'mg/dL', 'glucose'), 0)).toBeNull();
+    expect(criticalFinding(marker('Serum Potassium', 7, 'mmol/L'), 0)).toMatchObject({ direction: 'high' });
+  });
+});
+
+describe('findCriticalValues', () => {
+  it('lists the curated markers beyond their limits', () => {
+    const analysis = { biomarkers: [marker('Potassium', 4.2, 'mmol/L'), marker('Glucose', 450, 'mg/dL')] } as AnalysisResult;
+    expect(findCriticalValues(analysis).map(f => [f.name, f.index])).toEqual([['Glucose', 1]]);
+  });
+
+  it('tells apart markers printed with the same name by position', () => {
+    const analysis = { biomarkers: [marker('LDL Cholesterol', 90, 'mg/dL'), marker('Potassium', 4.2, 'mmol/L'), marker('Potassium', 7, 'mmol/L')] } as AnalysisResult;
+    expect(findCriticalValues(analysis).map(f => f.index)).toEqual([2]);
+  });
+});
@@ -0,0 +1,88 @@
+import { AnalysisResult, Biomarker } from "./types";
+import { catalogEntryFor, isNonBloodSpecimen } from "./biomarkerCatalog";
+
+// Critical (panic) limits: values at or beyond these warrant prompt contact with a clinician,
+// whatever the model wrote. Limits follow common adult hospital lab policies and are kept
+// conservative; each lab sets its own, so this is a safety net rather than a diagnosis.
+interface CriticalThreshold {
+  low?: number;
+  high?: number;
+  unit: string;
+  // Other units labs print this analyte in, with the factor that converts them to `unit`
+  units?: Record<string, number>;
+}
+
+const MEQ = { 'meq/l': 1 };
+const COUNT = { 'k/ul': 1, '109/l': 1, '/ul': 0.001, 'lakh/ul': 100 };
+
+// Keyed by biomarkerCatalog id
+export const CRITICAL_THRESHOLDS: Record<string, CriticalThreshold> = {
+  potassium: { low: 2.8, high: 6.2, unit: 'mmol/L', units: MEQ },
+  sodium: { low: 120, high: 160, unit: 'mmol/L', units: MEQ },
+  chloride: { low: 80, high: 120, unit: 'mmol/L', units: MEQ },
+  bicarbonate: { low: 10, high: 40, unit: 'mmol/L', units: MEQ },
+  calcium: { low: 6, high: 13, unit: 'mg/dL', units: { 'mmol/l': 4.008 } },
+  magnesium: { low: 1, high: 4.7, unit: 'mg/dL', units: { 'mmol/l': 2.431, 'meq/l': 1.215 } },
+  phosphorus: { low: 1, unit: 'mg/dL', units: { 'mmol/l': 3.097 } },
+  glucose: { low: 40, high: 400, unit: 'mg/dL', units: { 'mmol/l': 18.016 } },
+  'glucose-fasting': { low: 40, high: 400, unit: 'mg/dL', units: { 'mmol/l': 18.016 } },
+  'bilirubin-total': { high: 15, unit: 'mg/dL', units: { 'umol/l': 1 / 17.1 } },
+  hemoglobin: { low: 7, high: 20, unit: 'g/dL', units: { 'g/l': 0.1, 'mmol/l': 1.611 } },
+  hematocrit: { low: 20, high: 60, unit: '%', units: { 'l/l': 100 } },
+  platelets: { low: 20, high: 1000, unit: '10³/µL', units: COUNT },
+  wbc: { low: 2, high: 30, unit: '10³/µL', units: COUNT }
+};
+
+export interface CriticalFinding {
+  name: string;
+  value: number;
+  unit: string; // As printed on the report
+  direction: 'high' | 'low';
+  threshold: number; // In the printed unit
+  index: number; // Position in analysis.biomarkers, since two markers can be printed with the same name
+}
+
+// Folds the many ways labs write units ("x10^3/uL", "10³/cumm", "mEq/L") into one key.
+export const unitKey = (unit: string) => unit
+  .toLowerCase()
+  .replace(/[µμ]/g, 'u')
+  .replace(/[³]/g, '3')
+  .replace(/[⁹]/g, '9')
+  .replace(/\s+/g, '')
+  .replace(/^(?:x|×|\*)/, '')
+  .replace(/\^/g, '')
+  .replace(/cells\//g, '/')
+  .replace(/(?:cumm|cu\.?mm|mm3)$/, 'ul')
+  .replace(/lakhs?/, 'lakh')
+  .replace(/lit(?:re|er)$/, 'l');
+
+// Factor from the printed unit to the threshold unit, or null when we can't be sure they compare.
+const unitFactor = (threshold: CriticalThreshold, unit: string): number | null => {
+  const key = unitKey(unit);
+  if (key === unitKey(threshold.unit)) return 1;
+  return threshold.units?.[key] ?? null;
+};
+
+// The limits are for serum, plasma or whole blood. Urine, CSF and other specimens have their own
+// (or none), so those markers are never checked, whatever catalog id they carry.
+export const criticalFinding = (bio: Biomarker, index: number): CriticalFinding | null => {
+  if (isNonBloodSpecimen(bio.name)) return null;
+  const id = catalogEntryFor(bio)?.id;
+  const threshold = id ? CRITICAL_THRESHOLDS[id] : undefined;
+  if (!threshold || !Number.isFinite(bio.currentValue)) return null;
+  const factor = unitFactor(threshold, bio.unit);
+  if (factor === null) return null;
+
+  const value = bio.currentValue * factor;
+  const printed = (limit: number) => Number((limit / factor).toPrecision(3));
+  if (threshold.high !== undefined && value >= threshold.high) {
+    return { name: bio.name, value: bio.currentValue, unit: bio.unit, direction: 'high', threshold: printed(threshold.high), index };
+  }
+  if (threshold.low !== undefined && value <= threshold.low) {
+    return { name: bio.name, value: bio.currentValue, unit: bio.unit, direction: 'low', threshold: printed(threshold.low), index };
+  }
+  return null;
+};
+
+export const findCriticalValues = (analysis: AnalysisResult): CriticalFinding[] =>
+  analysis.biomarkers.map(criticalFinding).filter((f): f is CriticalFinding => f !== null);
@@ -0,0 +1,174 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in clockwise order starting top-left
+export type Quad = [Point, Point, Point, Point];
+
+const DETECT_DIM = 256;
+const MAX_OUTPUT_DIM = 2400;
+const MIN_PAGE_AREA = 0.2; // Share of the frame a detected page must cover
+
+const otsuThreshold = (gray: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0, weightBackground = 0, best = 0, threshold = 127;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (!weightBackground) continue;
+    const weightForeground = gray.length - weightBackground;
+    if (!weightForeground) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+// Keeps only the largest 4-connected bright region, which is assumed to be the paper.
+const largestComponent = (mask: Uint8Array, width: number, height: number): number[] => {
+  const seen = new Uint8Array(mask.length);
+  let largest: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const component: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length) {
+      const idx = stack.pop()!;
+      component.push(idx);
+      const x = idx % width, y = (idx - x) / width;
+      for (const [nx, ny] of [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]]) {
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (mask[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    if (component.length > largest.length) largest = component;
+  }
+  return largest;
+};
+
+const quadArea = (q: Quad) => Math.abs(q.reduce((acc, p, i) => {
+  const next = q[(i + 1) % 4];
+  return acc + p.x * next.y - next.x * p.y;
+}, 0)) / 2;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Finds the page outline in a photo. Returns null when no convincing page is found.
+export const detectPageCorners = (source: HTMLCanvasElement): Quad | null => {
+  const scale = Math.min(1, DETECT_DIM / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  const small = document.createElement('canvas');
+  small.width = width;
+  small.height = height;
+  const ctx = small.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  const threshold = otsuThreshold(gray);
+  const mask = gray.map(v => (v > threshold ? 1 : 0));
+  const page = largestComponent(mask, width, height);
+  if (!page.length) return null;
+
+  // Extremes of x+y and x-y give the four corners of a roughly rectangular blob.
+  let tl = page[0], br = page[0], tr = page[0], bl = page[0];
+  const sumOf = (i: number) => (i % width) + Math.floor(i / width);
+  const diffOf = (i: number) => (i % width) - Math.floor(i / width);
+  for (const i of page) {
+    if (sumOf(i) < sumOf(tl)) tl = i;
+    if (sumOf(i) > sumOf(br)) br = i;
+    if (diffOf(i) > diffOf(tr)) tr = i;
+    if (diffOf(i) < diffOf(bl)) bl = i;
+  }
+  const toPoint = (i: number): Point => ({ x: (i % width) / scale, y: Math.floor(i / width) / scale });
+  const quad: Quad = [toPoint(tl), toPoint(tr), toPoint(br), toPoint(bl)];
+
+  return quadArea(quad) >= MIN_PAGE_AREA * source.width * source.height ? quad : null;
+};
+
+// Solves the 8 unknowns of the homography that maps the output rectangle onto the quad.
+const homography = (width: number, height: number, quad: Quad): number[] => {
+  const from: Point[] = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const rows: number[][] = [];
+  from.forEach((p, i) => {
+    const q = quad[i];
+    rows.push([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x, q.x]);
+    rows.push([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y, q.y]);
+  });
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+  return rows.map((row, i) => row[8] / row[i]);
+};
+
+// Straightens the page inside the quad into an upright rectangle.
+export const cropToQuad = (source: HTMLCanvasElement, quad: Quad): HTMLCanvasElement => {
+  let width = Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2]));
+  let height = Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2]));
+  const shrink = Math.min(1, MAX_OUTPUT_DIM / Math.max(width, height));
+  width = Math.round(width * shrink);
+  height = Math.round(height * shrink);
+
+  const srcCtx = source.getContext('2d');
+  const out = document.createElement('canvas');
+  out.width = width;
+  out.height = height;
+  const outCtx = out.getContext('2d');
+  if (!srcCtx || !outCtx) return source;
+
+  const src = srcCtx.getImageData(0, 0, source.width, source.height).data;
+  const dst = outCtx.createImageData(width, height);
+  const [a, b, c, d, e, f, g, h] = homography(width, height, quad);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = g * x + h * y + 1;
+      const sx = Math.min(source.width - 1, Math.max(0, Math.round((a * x + b * y + c) / w)));
+      const sy = Math.min(source.height - 1, Math.max(0, Math.round((d * x + e * y + f) / w)));
+      const s = (sy * source.width + sx) * 4;
+      const o = (y * width + x) * 4;
+      dst.data[o] = src[s];
+      dst.data[o + 1] = src[s + 1];
+      dst.data[o + 2] = src[s + 2];
+      dst.data[o + 3] = 255;
+    }
+  }
+  outCtx.putImageData(dst, 0, 0);
+  return out;
+};
+
+// Detects, deskews and crops the page; falls back to the full frame when detection fails.
+export const scanDocument = (frame: HTMLCanvasElement): { canvas: HTMLCanvasElement, cropped: boolean } => {
+  const quad = detectPageCorners(frame);
+  return quad ? { canvas: cropToQuad(frame, quad), cropped: true } : { canvas: frame, cropped: false };
+};
@@ -0,0 +1,12 @@
+// Saves generated content as a file through a temporary object URL.
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const datedFilename = (prefix: string, extension: string) =>
+  `${prefix}_${new Date().toISOString().split('T')[0]}.${extension}`;
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { toFhirBundle } from "./fhirExport";
+import { AnalysisResult, HealthStatus } from "./types";
+
+const analysis = (extra: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  patientName: 'Ramesh Kumar',
+  gender: 'Male',
+  collectionDate: '14 Mar 2025',
+  hospitalName: 'City Lab',
+  summary: 'Steady',
+  bottomLine: { main: 'Mostly steady', good: [], watch: [] },
+  executiveSummary: 'Most results are in range. One is a little high.',
+  biomarkers: [{
+    name: 'HbA1c', currentValue: 6.1, unit: '%', status: HealthStatus.HIGH, range: '4.0-5.6',
+    catalogId: 'hba1c', analogy: '', explanation: ''
+  }],
+  lifestyle: { diet: '', sleep: '', exercise: '' },
+  doctorQuestions: [],
+  ...extra
+});
+
+const observations = (bundle: ReturnType<typeof toFhirBundle>) =>
+  bundle.entry.map(e => e.resource).filter(r => r.resourceType === 'Observation');
+
+describe('toFhirBundle', () => {
+  it('holds a report, the patient, the organization and one observation per marker', () => {
+    const bundle = toFhirBundle(analysis());
+    expect(bundle.entry.map(e => e.resource.resourceType)).toEqual(['DiagnosticReport', 'Patient', 'Organization', 'Observation']);
+    const [report] = bundle.entry.map(e => e.resource);
+    expect(report.result).toEqual([{ reference: bundle.entry[3].fullUrl }]);
+    expect(report.effectiveDateTime).toBe('2025-03-14');
+  });
+
+  it('codes a catalog marker with LOINC and its value and range with UCUM', () => {
+    const [observation] = observations(toFhirBundle(analysis()));
+    expect(observation.code).toEqual({ coding: [{ system: 'http://loinc.org', code: '4548-4', display: 'HbA1c' }], text: 'HbA1c' });
+    expect(observation.valueQuantity).toEqual({ value: 6.1, unit: '%', system: 'http://unitsofmeasure.org', code: '%' });
+    expect(observation.referenceRange).toEqual([{
+      low: { value: 4, unit: '%', system: 'http://unitsofmeasure.org', code: '%' },
+      high: { value: 5.6, unit: '%', system: 'http://unitsofmeasure.org', code: '%' },
+      text: '4.0-5.6'
+    }]);
+  });
+
+  it('skips line items that repeat a curated marker under another printed name', () => {
+    const bundle = toFhirBundle(analysis({
+      allMarkers: [
+        { name: 'Glycated Hemoglobin', value: '6.1', unit: '%', catalogId: 'hba1c' },
+        { name: 'hba1c', value: '6.1', unit: '%' },
+        { name: 'MCV', value: '88', unit: 'fL', range: '80-100', status: HealthStatus.NORMAL, catalogId: 'mcv' }
+      ]
+    }));
+    expect(observations(bundle).map(o => (o.code as { text: string }).text)).toEqual(['HbA1c', 'MCV']);
+  });
+
+  it('exports numeric line items as quantities and the rest as text', () => {
+    const bundle = toFhirBundle(analysis({
+      allMarkers: [
+        { name: 'MCV', value: '88', unit: 'fL', range: '80-100' },
+        { name: 'Potassium', value: '4,2', unit: 'mmol/L' },
+        { name: 'Urine Protein', value: 'Negative' },
+        { name: 'CRP', value: '< 0.5', unit: 'mg/L' }
+      ]
+    }));
+    const [, mcv, potassium, protein, crp] = observations(bundle);
+    expect(mcv.valueQuantity).toEqual({ value: 88, unit: 'fL', system: 'http://unitsofmeasure.org', code: 'fL' });
+    expect(mcv.referenceRange).toEqual([{
+      low: { value: 80, unit: 'fL', system: 'http://unitsofmeasure.org', code: 'fL' },
+      high: { value: 100, unit: 'fL', system: 'http://unitsofmeasure.org', code: 'fL' },
+      text: '80-100'
+    }]);
+    expect(potassium.valueQuantity).toEqual({ value: 4.2, unit: 'mmol/L', system: 'http://unitsofmeasure.org', code: 'mmol/L' });
+    expect(protein).toMatchObject({ valueString: 'Negative' });
+    expect(protein).not.toHaveProperty('valueQuantity');
+    expect(crp).toMatchObject({ valueString: '< 0.5 mg/L' });
+  });
+
+  it('keeps a unit without a UCUM code as text only', () => {
+    const bundle = toFhirBundle(analysis({ allMarkers: [{ name: 'Platelets', value: '2.5', unit: 'lakhs/cumm' }] }));
+    expect(observations(bundle)[1].valueQuantity).toEqual({ value: 2.5, unit: 'lakhs/cumm' });
+  });
+
+  it('exports the patient sex from the printed word in any interface language', () => {
+    const gender = (printed?: string) => toFhirBundle(analysis({ gender: printed })).entry[1].resource.gender;
+    expect(gender('Mujer')).toBe('female');
+    expect(gender('Männlich')).toBe('male');
+    expect(gender('Male')).toBe('male');
+    expect(gender('Mixed')).toBe('unknown');
+    expect(gender(undefined)).toBe('unknown');
+  });
+
+  it('leaves out a collection date that could be read either way', () => {
+    const [report] = toFhirBundle(analysis({ collectionDate: '03/04/2025' })).entry.map(e => e.resource);
+    expect(report).not.toHaveProperty('effectiveDateTime');
+  });
+});
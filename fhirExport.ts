@@ -0,0 +1,210 @@
+import { AnalysisResult, Biomarker, HealthStatus, SimpleMarker } from "./types";
+import { normalizeDecimal, parseReferenceRange } from "./referenceRange";
+import { datedFilename, downloadFile } from "./download";
+import { catalogEntryFor } from "./biomarkerCatalog";
+import { sexOf } from "./reportChecks";
+
+// Just enough of the FHIR R4 resource shapes for a lab report bundle
+type FhirResource = { resourceType: string; id: string; [key: string]: unknown };
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+const INTERPRETATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+const INTERPRETATION: Record<HealthStatus, { code: string, display: string }> = {
+  [HealthStatus.HIGH]: { code: 'H', display: 'High' },
+  [HealthStatus.LOW]: { code: 'L', display: 'Low' },
+  [HealthStatus.NORMAL]: { code: 'N', display: 'Normal' }
+};
+
+const LAB_CATEGORY = [{
+  coding: [{ system: 'http://terminology.hl7.org/CodeSystem/observation-category', code: 'laboratory', display: 'Laboratory' }]
+}];
+
+const UCUM = 'http://unitsofmeasure.org';
+
+// UCUM codes for the units labs commonly print, keyed by the printed unit in lower case without spaces.
+// A unit not listed here is exported as printed text only, never as a made-up code.
+const UCUM_CODES: Record<string, string> = {
+  '%': '%',
+  'g/dl': 'g/dL', 'g/l': 'g/L', 'mg/dl': 'mg/dL', 'mg/l': 'mg/L', 'ug/dl': 'ug/dL', 'ug/l': 'ug/L',
+  'ng/ml': 'ng/mL', 'ng/dl': 'ng/dL', 'pg/ml': 'pg/mL', 'pg': 'pg', 'fl': 'fL',
+  'mmol/l': 'mmol/L', 'umol/l': 'umol/L', 'nmol/l': 'nmol/L', 'pmol/l': 'pmol/L', 'mmol/mol': 'mmol/mol', 'meq/l': 'meq/L',
+  'u/l': 'U/L', 'iu/l': '[IU]/L', 'miu/l': 'm[IU]/L', 'miu/ml': 'm[IU]/mL', 'uiu/ml': 'u[IU]/mL',
+  'mm/h': 'mm/h', 'mm/hr': 'mm/h', 's': 's', 'sec': 's', 'ml/min/1.73m2': 'mL/min/{1.73_m2}',
+  '10^3/ul': '10*3/uL', 'x10^3/ul': '10*3/uL', '10^6/ul': '10*6/uL', 'x10^6/ul': '10*6/uL',
+  '10^9/l': '10*9/L', 'x10^9/l': '10*9/L', '10^12/l': '10*12/L', 'x10^12/l': '10*12/L'
+};
+
+const ucumCode = (unit: string): string | undefined =>
+  UCUM_CODES[unit.toLowerCase().replace(/[µμ]/g, 'u').replace(/\s+/g, '')];
+
+const urn = (id: string) => `urn:uuid:${id}`;
+
+// LOINC-coded when the marker matched the catalog, with the printed name kept as text
+const observationCode = (marker: { name: string, catalogId?: string }) => {
+  const catalog = catalogEntryFor(marker);
+  return {
+    ...(catalog ? { coding: [{ system: 'http://loinc.org', code: catalog.loinc, display: catalog.name }] } : {}),
+    text: marker.name
+  };
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const isoDate = (year: number, month: number, day: number): string | undefined => {
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// FHIR dates are plain calendar dates, so they are built from the printed parts with no time zone involved.
+// Anything unrecognised is left out rather than guessed, and so is 03/04/2025, which could be March or April.
+const toFhirDate = (date?: string): string | undefined => {
+  const text = date?.trim().toLowerCase();
+  if (!text) return undefined;
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (iso) return isoDate(+iso[1], +iso[2], +iso[3]);
+
+  const numeric = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})\b/);
+  if (numeric) {
+    const [a, b, year] = [+numeric[1], +numeric[2], +numeric[3]];
+    if (a > 12) return isoDate(year, b, a);
+    if (b > 12) return isoDate(year, a, b);
+    return a === b ? isoDate(year, a, b) : undefined;
+  }
+
+  // "March 14, 2025", "14 Mar 2025", "14-Mar-2025"
+  const month = MONTHS.findIndex(m => new RegExp(`\\b${m}`).test(text)) + 1;
+  const year = text.match(/\b(\d{4})\b/)?.[1];
+  const day = text.replace(/\b\d{4}\b/, '').match(/\b(\d{1,2})(?:st|nd|rd|th)?\b/)?.[1];
+  return month && year && day ? isoDate(+year, month, +day) : undefined;
+};
+
+// A printed sex that isn't male or female could be anything, so it is exported as unknown rather than other.
+const toFhirGender = (gender?: string) => sexOf(gender) ?? 'unknown';
+
+const quantity = (value: number, unit: string) => {
+  const code = unit ? ucumCode(unit) : undefined;
+  return {
+    value,
+    ...(unit ? { unit } : {}),
+    ...(code ? { system: UCUM, code } : {})
+  };
+};
+
+const referenceRange = (text: string | undefined, unit: string, gender?: string) => {
+  if (!text) return {};
+  const range = parseReferenceRange(text, gender);
+  return {
+    referenceRange: [{
+      ...(range?.low !== undefined ? { low: quantity(range.low, unit) } : {}),
+      ...(range?.high !== undefined ? { high: quantity(range.high, unit) } : {}),
+      text
+    }]
+  };
+};
+
+const interpretation = (status?: HealthStatus) =>
+  status ? { interpretation: [{ coding: [{ system: INTERPRETATION_SYSTEM, ...INTERPRETATION[status] }] }] } : {};
+
+const biomarkerObservation = (bio: Biomarker, base: Record<string, unknown>, gender?: string): FhirResource => ({
+  ...base,
+  resourceType: 'Observation',
+  id: crypto.randomUUID(),
+  code: observationCode(bio),
+  valueQuantity: quantity(bio.currentValue, bio.unit),
+  ...interpretation(bio.status),
+  ...referenceRange(bio.range, bio.unit, gender),
+  ...(bio.explanation ? { note: [{ text: bio.explanation }] } : {})
+});
+
+// A printed value that is just a number; "< 0.5", "Negative" or "1+" stay text.
+const numericValue = (value: string): number | null =>
+  /^-?\d+(?:,\d+)*(?:\.\d+)?$/.test(value.trim()) ? parseFloat(normalizeDecimal(value.trim())) : null;
+
+const simpleObservation = (marker: SimpleMarker, base: Record<string, unknown>, gender?: string): FhirResource => {
+  const value = numericValue(marker.value);
+  return {
+    ...base,
+    resourceType: 'Observation',
+    id: crypto.randomUUID(),
+    code: observationCode(marker),
+    ...(value !== null
+      ? { valueQuantity: quantity(value, marker.unit || '') }
+      : { valueString: marker.unit ? `${marker.value} ${marker.unit}` : marker.value }),
+    ...interpretation(marker.status),
+    ...referenceRange(marker.range, marker.unit || '', gender)
+  };
+};
+
+// Builds a FHIR R4 collection Bundle: Patient, performing Organization, one Observation per
+// marker, and a DiagnosticReport that ties the results together.
+export const toFhirBundle = (analysis: AnalysisResult): FhirBundle => {
+  const effective = toFhirDate(analysis.collectionDate);
+
+  const patient: FhirResource = {
+    resourceType: 'Patient',
+    id: crypto.randomUUID(),
+    ...(analysis.patientName ? { name: [{ text: analysis.patientName }] } : {}),
+    gender: toFhirGender(analysis.gender),
+    ...(analysis.labId ? { identifier: [{ type: { text: 'Lab ID' }, value: analysis.labId }] } : {})
+  };
+
+  const organization: FhirResource | null = analysis.hospitalName
+    ? { resourceType: 'Organization', id: crypto.randomUUID(), name: analysis.hospitalName }
+    : null;
+
+  const base = {
+    status: 'final',
+    category: LAB_CATEGORY,
+    subject: { reference: urn(patient.id) },
+    ...(effective ? { effectiveDateTime: effective } : {}),
+    ...(organization ? { performer: [{ reference: urn(organization.id) }] } : {})
+  };
+
+  // allMarkers repeats the curated biomarkers, sometimes under another printed name; keep only the extra line items.
+  const curatedIds = new Set(analysis.biomarkers.map(b => catalogEntryFor(b)?.id).filter(Boolean));
+  const curatedNames = new Set(analysis.biomarkers.map(b => b.name.trim().toLowerCase()));
+  const isCurated = (m: SimpleMarker) =>
+    curatedIds.has(catalogEntryFor(m)?.id) || curatedNames.has(m.name.trim().toLowerCase());
+  const observations = [
+    ...analysis.biomarkers.map(b => biomarkerObservation(b, base, analysis.gender)),
+    ...(analysis.allMarkers || [])
+      .filter(m => !isCurated(m))
+      .map(m => simpleObservation(m, base, analysis.gender))
+  ];
+
+  const report: FhirResource = {
+    resourceType: 'DiagnosticReport',
+    id: crypto.randomUUID(),
+    status: 'final',
+    category: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0074', code: 'LAB', display: 'Laboratory' }] }],
+    code: { coding: [{ system: 'http://loinc.org', code: '11502-2', display: 'Laboratory report' }] },
+    subject: { reference: urn(patient.id) },
+    ...(effective ? { effectiveDateTime: effective } : {}),
+    issued: new Date().toISOString(),
+    ...(organization ? { performer: [{ reference: urn(organization.id) }] } : {}),
+    ...(analysis.doctorName ? { resultsInterpreter: [{ display: analysis.doctorName }] } : {}),
+    result: observations.map(o => ({ reference: urn(o.id) })),
+    ...(analysis.executiveSummary ? { conclusion: analysis.executiveSummary } : {})
+  };
+
+  const resources = [report, patient, ...(organization ? [organization] : []), ...observations];
+  return {
+    resourceType: 'Bundle',
+    id: crypto.randomUUID(),
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: resources.map(resource => ({ fullUrl: urn(resource.id), resource }))
+  };
+};
+
+export const downloadFhirBundle = (analysis: AnalysisResult) =>
+  downloadFile(JSON.stringify(toFhirBundle(analysis), null, 2), datedFilename('LabLens_FHIR', 'json'), 'application/fhir+json');
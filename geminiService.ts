@@ -1,159 +1,122 @@
+import { AnalysisResult, AnalyzeOptions, ChatDelta, FileData, ReportClassification } from "./types";
+import type { ChatTurn } from "./providers/types";
+import type { Language } from "./i18n/languages";
+import { AnalysisError, backoff, delay, isAnalysisErrorCode } from "./analysisErrors";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, FileData } from "./types";
+// Model calls go through the LabLens API server so that no API key ships in the bundle.
+const API_BASE = '/api';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Generous on purpose: the server already times out and retries each model call, so this only
+// catches a connection that hangs.
+const ANALYZE_TIMEOUT_MS = 10 * 60 * 1000;
+const ANALYZE_RETRIES = 2;
+// A rate limit that lifts within this long is waited out; a longer one is reported.
+const MAX_QUOTA_WAIT_S = 30;
 
-const ANALYSIS_SYSTEM_INSTRUCTION = `You are the "Lab Interpreter" specialized document analyst for "LabLens".
-Your goal is to perform a 100% data grounding scan of clinical reports and provide a high-end, humanized summary.
+export interface RequestOptions {
+  signal?: AbortSignal; // Abort to cancel; the promise then rejects with code 'cancelled'
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Extra attempts after the connection fails or a short rate limit
+}
 
-STRICT TONE & JARGON RULES:
-- NEVER use technical jargon like "metabolic markers", "clinical profile", "optimized", "indexing", "grounding", or "data objects".
-- Use friendly, conversational language (e.g., "Reading your labs..." or "Your blood sugar is a bit higher than we'd like").
-- PREFERRED PHRASES: Above the target range, A focus area for your next checkup, Developing trend, Room for optimization.
-- PROHIBITED WORDS: critical, urgent, immediate attention, notably high, dangerously, alarming, abnormal, bad.
-- FORMATTING: NEVER use bolding (**), hash symbols (#), or quotation marks (", ') inside any text field.
-- Output ONLY plain text sentences.
-
-INTELLIGENCE VERDICT (Executive Summary):
-- Must be EXACTLY TWO sentences.
-- Sentence 1: A big win (e.g., "Your heart health results look fantastic and show great progress").
-- Sentence 2: A big focus (e.g., "For your next goal, let’s focus on bringing your blood sugar levels down into a more comfortable range").
-
-PREP FOR MY VISIT (QUESTIONS FOR MY DOCTOR):
-- Generate 3-4 simple questions written in the FIRST PERSON ("I", "My").
-- Tone: Natural, conversational patient seeking advice.
-- Question field: E.g., "Since my sugar is a bit high, what are the first few food changes you'd like me to try?"
-- Why field: Rename this logically to "Why this helps". E.g., "To help me make the most effective changes to my diet right away."
+const readError = async (response: Response) => {
+  const body = await response.json().catch(() => null);
+  const code = isAnalysisErrorCode(body?.code) ? body.code
+    : response.status === 413 ? 'too-large'
+    : response.status === 429 ? 'quota'
+    : response.status >= 500 ? 'network'
+    : 'unknown';
+  return new AnalysisError(code, body?.error || `Request failed with status ${response.status}`, Number(response.headers.get('Retry-After')) || undefined);
+};
 
-Output MUST be strictly valid JSON.`;
+const cancelled = () => new AnalysisError('cancelled', 'The analysis was cancelled.');
 
-export const analyzeReports = async (latest: FileData, previous?: FileData): Promise<AnalysisResult> => {
-  const model = 'gemini-3-flash-preview';
-  
-  const contents: any[] = [
-    { text: `Analyze the medical report. ${previous ? "Compare with the past record for trends." : "Single report analysis."} 
-    Focus on extracting patient metadata and clinical results accurately without using technical jargon.` },
-    {
-      inlineData: {
-        data: latest.base64,
-        mimeType: latest.mimeType
-      }
+// Fetches with a per-attempt timeout. Every failure rejects with an AnalysisError.
+// Only a failed connection is retried, with exponential backoff: an error the server answered with has
+// already been through its own model retries, and sending the request again would repeat all of them.
+// A rate limit is retried once it lifts, if that is soon.
+const fetchWithRetries = async (url: string, init: RequestInit, { signal, timeoutMs = ANALYZE_TIMEOUT_MS, retries = ANALYZE_RETRIES }: RequestOptions = {}): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+    } catch (error) {
+      if (signal?.aborted) throw cancelled();
+      if (timeout.aborted) throw new AnalysisError('timeout', `No answer within ${timeoutMs / 1000} seconds.`);
+      if (attempt >= retries) throw new AnalysisError('network', error instanceof Error ? error.message : String(error));
+      console.warn(`Request failed to connect; retry ${attempt + 1} of ${retries}`);
+      await backoff(attempt, signal).catch(() => { throw cancelled(); });
+      continue;
     }
-  ];
+    if (response.ok) return response;
 
-  if (previous) {
-    contents.push({ text: "PREVIOUS REPORT:" });
-    contents.push({
-      inlineData: {
-        data: previous.base64,
-        mimeType: previous.mimeType
-      }
-    });
+    const failure = await readError(response);
+    const wait = failure.code === 'quota' ? failure.retryAfter : undefined;
+    if (!wait || wait > MAX_QUOTA_WAIT_S || attempt >= retries) throw failure;
+    console.warn(`Rate limited; retrying in ${wait} seconds`);
+    await delay(wait * 1000, signal).catch(() => { throw cancelled(); });
   }
+};
 
-  const response = await ai.models.generateContent({
-    model,
-    contents: { parts: contents },
-    config: {
-      systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          patientName: { type: Type.STRING },
-          age: { type: Type.STRING },
-          gender: { type: Type.STRING },
-          collectionDate: { type: Type.STRING },
-          labId: { type: Type.STRING },
-          hospitalName: { type: Type.STRING },
-          doctorName: { type: Type.STRING },
-          summary: { type: Type.STRING },
-          bottomLine: {
-            type: Type.OBJECT,
-            properties: {
-              main: { type: Type.STRING },
-              good: { type: Type.ARRAY, items: { type: Type.STRING } },
-              watch: { type: Type.ARRAY, items: { type: Type.STRING } }
-            },
-            required: ["main", "good", "watch"]
-          },
-          executiveSummary: { type: Type.STRING },
-          biomarkers: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                currentValue: { type: Type.NUMBER },
-                previousValue: { type: Type.NUMBER },
-                unit: { type: Type.STRING },
-                status: { type: Type.STRING, enum: ['high', 'low', 'normal'] },
-                range: { type: Type.STRING },
-                analogy: { type: Type.STRING },
-                explanation: { type: Type.STRING }
-              },
-              required: ["name", "currentValue", "unit", "status", "range", "analogy", "explanation"]
-            }
-          },
-          lifestyle: {
-            type: Type.OBJECT,
-            properties: {
-              diet: { type: Type.STRING },
-              sleep: { type: Type.STRING },
-              exercise: { type: Type.STRING }
-            }
-          },
-          doctorQuestions: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                question: { type: Type.STRING },
-                why: { type: Type.STRING }
-              },
-              required: ["question", "why"]
-            }
-          }
-        },
-        required: ["summary", "bottomLine", "executiveSummary", "biomarkers", "lifestyle", "doctorQuestions"]
-      }
-    }
+// Reports are ordered newest first: reports[0] is the latest, the rest are past checkups.
+export const analyzeReports = async (reports: FileData[], options: AnalyzeOptions = {}, request: RequestOptions = {}): Promise<AnalysisResult> => {
+  const response = await fetchWithRetries(`${API_BASE}/analyze`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reports, options })
+  }, request);
+  return response.json().catch(() => {
+    throw request.signal?.aborted
+      ? cancelled()
+      : new AnalysisError('network', 'The analysis response was cut off.');
   });
+};
 
-  return JSON.parse(response.text || '{}');
+// Only the first page of each report is sent: that is where the document type, patient and date are printed.
+export const classifyReports = async (reports: FileData[], language?: Language, request: RequestOptions = {}): Promise<ReportClassification[]> => {
+  const response = await fetchWithRetries(`${API_BASE}/classify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reports: reports.map(r => ({ name: r.name, pages: r.pages.slice(0, 1) })), language })
+  }, { ...request, timeoutMs: 60_000 });
+  return (await response.json()).reports;
 };
 
-export const chatWithContext = async (
+// Prompt version, provider and model on the server; part of every analysis cache key.
+export const fetchAnalysisVersion = async (request: RequestOptions = {}): Promise<string> => {
+  const response = await fetchWithRetries(`${API_BASE}/analysis-version`, {}, { ...request, timeoutMs: 10_000 });
+  return (await response.json()).version;
+};
+
+export const chatWithContext = async function* (
   message: string, 
-  history: {role: string, content: string}[], 
-  context: AnalysisResult
-) => {
-  const model = 'gemini-3-flash-preview';
-  
-  const chatSystemInstruction = `You are the LabLens expert nurse. 
-You have FULL ACCESS to the patient's analyzed report data:
-- Patient: ${context.patientName || 'Unknown'} (${context.gender || 'N/A'}, Age: ${context.age || 'N/A'})
-- Clinic: ${context.hospitalName || 'N/A'}
-- Report Date: ${context.collectionDate || 'N/A'}
-- Biomarkers: ${context.biomarkers.map(b => `${b.name}: ${b.currentValue} ${b.unit} (Ref: ${b.range})`).join(', ')}
+  history: ChatTurn[], 
+  context: AnalysisResult,
+  language?: Language
+): AsyncIterable<ChatDelta> {
+  const response = await fetch(`${API_BASE}/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify({ message, history, context, language })
+  });
+  if (!response.ok || !response.body) throw await readError(response);
 
-STRICT BEHAVIOR RULES:
-1. DATA AWARENESS: Never say "I do not have your report" or "I can't see your data". You can see everything listed above.
-2. WHICH LAB?: If asked "Which lab?", reply with the clinic name (${context.hospitalName}) and date (${context.collectionDate}), and mention you've analyzed the specific markers found (e.g. ${context.biomarkers.slice(0, 3).map(b => b.name).join(', ')}).
-3. ANXIETY HANDLING (Am I in trouble?): Do not give a simple "Yes/No". Be empathetic. Balance focus areas with wins. Example: "I can see why those numbers might look high, but let’s look at the full picture. Your heart health markers are actually in a great place, which is a big win. Your blood sugar is the main area we should talk about with your doctor to get it back on track."
-4. TONE: Friendly, clear, conversational. No jargon. No bolding. No quotes.
-5. GROUNDING: Strictly use the provided results. Do not speculate on conditions not supported by the data.`;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += value;
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
 
-  const chat = ai.chats.create({
-    model,
-    history: history.map(m => ({
-      role: m.role === 'assistant' || m.role === 'model' ? 'model' : 'user',
-      parts: [{ text: String(m.content) }]
-    })),
-    config: {
-      systemInstruction: chatSystemInstruction,
+    for (const raw of events) {
+      const event = raw.match(/^event: (.*)$/m)?.[1] || 'message';
+      const data = JSON.parse(raw.match(/^data: (.*)$/m)?.[1] || '{}');
+      if (event === 'done') return;
+      if (event === 'error') throw new Error(data.error);
+      if (data.text) yield { text: data.text, replace: !!data.replace };
     }
-  });
-  return await chat.sendMessageStream({ message });
+  }
 };
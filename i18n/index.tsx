@@ -0,0 +1,59 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { DEFAULT_LANGUAGE, isLanguage, Language, LANGUAGES } from './languages';
+import { MESSAGES, Messages } from './messages';
+
+export * from './languages';
+export type { Messages } from './messages';
+
+const STORAGE_KEY = 'lablens.language';
+
+interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  t: Messages;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: () => {},
+  t: MESSAGES[DEFAULT_LANGUAGE]
+});
+
+// A saved choice wins; otherwise use the browser language when we support it.
+const initialLanguage = (): Language => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (isLanguage(saved)) return saved;
+  const browser = navigator.language.split('-')[0];
+  return isLanguage(browser) ? browser : DEFAULT_LANGUAGE;
+};
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguage] = useState<Language>(initialLanguage);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  return (
+    <I18nContext.Provider value={{ language, setLanguage, t: MESSAGES[language] }}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = () => useContext(I18nContext);
+
+export const LanguagePicker: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { language, setLanguage, t } = useI18n();
+  return (
+    <select
+      aria-label={t.app.language}
+      value={language}
+      onChange={(e) => setLanguage(e.target.value as Language)}
+      className={`px-3 py-2 rounded-xl bg-white/60 text-[#1A237E] font-black text-[10px] uppercase tracking-widest border border-[#1A237E]/10 outline-none cursor-pointer ${className}`}
+    >
+      {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+    </select>
+  );
+};
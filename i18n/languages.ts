@@ -0,0 +1,22 @@
+export type Language = 'en' | 'es' | 'hi' | 'de';
+
+export interface LanguageOption {
+  code: Language;
+  label: string; // The language's own name, as shown in the picker
+  englishName: string; // How prompts refer to it
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', label: 'English', englishName: 'English' },
+  { code: 'es', label: 'Español', englishName: 'Spanish' },
+  { code: 'hi', label: 'हिन्दी', englishName: 'Hindi' },
+  { code: 'de', label: 'Deutsch', englishName: 'German' }
+];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some(l => l.code === value);
+
+export const languageName = (code: Language) =>
+  LANGUAGES.find(l => l.code === code)?.englishName ?? 'English';
@@ -0,0 +1,939 @@
+import { Language } from "./languages";
+
+const en = {
+  app: {
+    newCheck: 'New Check',
+    reanalyze: 'Re-analyze',
+    reanalyzeTitle: 'Read the files again with the model instead of reusing the saved reading',
+    reanalyzeConfirm: 'Reading the files again replaces the values you corrected on this report. Continue?',
+    saveReport: 'Save Report',
+    fhirTitle: 'Download as a FHIR R4 Bundle',
+    language: 'Language',
+    dropToRead: 'Drop to read your labs',
+    badge: 'Personal Health Assistant',
+    heroTitle: 'Your Health, Decoded.',
+    heroSubtitle: 'Upload your results to see the human story behind your numbers.',
+    uploadLatest: 'Upload Latest Report',
+    pastCheckup: (n: number) => `Past Checkup ${n}`,
+    addAnotherPast: 'Add Another Past Checkup',
+    addPastOptional: 'Add a Past Checkup (Optional)',
+    privacyMode: (on: boolean) => `Privacy Mode: ${on ? 'On - names and IDs are hidden before upload' : 'Off'}`,
+    privacyEnglishOnly: 'Names and IDs are found only next to English labels such as Name, Patient or DOB. Hindi script is not read.',
+    seeProgress: 'See My Progress',
+    readResults: 'Read My Results',
+    cancel: 'Cancel',
+    explainRequest: (term: string) => `Can you explain what "${term}" means for my health?`,
+    features: [
+      { title: 'Plain English', desc: "Jargon-free translations into analogies you'll actually understand." },
+      { title: 'Progress Checks', desc: 'See how your health is changing over time.' },
+      { title: 'Clear Answers', desc: 'Simple breakdowns of what your lab numbers mean for you.' }
+    ]
+  },
+  checks: {
+    title: 'Please check your files',
+    latest: 'Your latest report',
+    notLabReport: (label: string, type: string) => `${label} does not look like a lab report (it looks like a ${type}).`,
+    patientMismatch: (label: string, name?: string, latestName?: string) => name && latestName
+      ? `${label} is for ${name}, but your latest report is for ${latestName}.`
+      : `${label} seems to belong to a different person than your latest report.`,
+    pastNewer: (label: string, date: string, latestDate: string) => `${label} is dated ${date}, which is after your latest report (${latestDate}).`,
+    blockedHint: 'Replace or remove that file, then try again.',
+    warningHint: 'If these are the right files, you can continue anyway.',
+    continueAnyway: 'Continue Anyway'
+  },
+  errors: {
+    dismiss: 'Dismiss',
+    retryIn: (minutes: number) => minutes <= 1 ? 'You can try again in about a minute.' : `You can try again in about ${minutes} minutes.`,
+    quota: { title: 'Too many requests right now', guidance: 'The reading service has hit its usage limit. Wait a few minutes, then press the button again.' },
+    'too-large': { title: 'This report is too large', guidance: 'Try fewer pages or a smaller scan, or leave out past checkups and add them one at a time.' },
+    unreadable: { title: 'We could not read this report', guidance: 'Make sure the photo is sharp, well lit and shows the whole page, or upload the PDF from your lab instead.' },
+    safety: { title: 'This file was declined', guidance: 'The reading service would not process this file. Check that it is a lab report and crop out anything else on the page.' },
+    network: { title: 'Could not reach the service', guidance: 'Check your internet connection and try again. If it keeps happening, the service may be down for a moment.' },
+    timeout: { title: 'This is taking too long', guidance: 'The service did not answer in time. Try again, or upload fewer pages at once.' },
+    unknown: { title: 'Something went wrong', guidance: 'Please try again. If it keeps happening, try a different file.' }
+  },
+  uploader: {
+    readingLabs: 'Reading your labs...',
+    comparingRecords: 'Comparing records...',
+    readingSubtext: 'Turning medical numbers into clear insights.',
+    comparingSubtext: 'Finding patterns in your health story.',
+    tooLarge: (name: string) => `${name} is too large. Please try a smaller scan.`,
+    unsupportedType: 'Please upload a PDF or an Image.',
+    processFailed: (name: string) => `Failed to process ${name}.`,
+    pageCount: (n: number) => `${n} pages`,
+    page: 'Page',
+    scan: 'Scan',
+    pagesReady: (n: number) => `${n} Pages Ready`,
+    readyToView: 'Ready to View',
+    dropToView: 'Drop to View',
+    releaseToSee: 'Release to see your results',
+    addPastHint: 'Add a past record to see your progress',
+    dragDrop: 'Drag and drop report here',
+    scanWithCamera: 'Scan with Camera'
+  },
+  camera: {
+    title: 'Scan Your Report',
+    hint: 'Lay the page flat on a dark surface',
+    unavailable: "We couldn't open your camera. Check the browser permission, or upload a photo instead.",
+    captureFailed: 'Failed to capture the page. Please try again.',
+    straightened: 'Page edges detected and straightened',
+    usePages: (n: number) => n === 0 ? 'Use Pages' : n === 1 ? 'Use 1 Page' : `Use ${n} Pages`
+  },
+  profiles: {
+    switcherTitle: 'Whose reports?',
+    everyone: 'Everyone',
+    add: 'Add a person',
+    edit: 'Edit this person',
+    name: 'Name',
+    birthDate: 'Birth date',
+    sex: 'Sex',
+    female: 'Female',
+    male: 'Male',
+    other: 'Other',
+    save: 'Save',
+    cancel: 'Cancel',
+    delete: 'Delete this person',
+    deleteConfirm: (name: string) => `Delete ${name}? Their reports stay on this device without a profile.`,
+    age: (n: number) => ` · ${n}`,
+    belongsTo: 'Belongs to',
+    unassigned: 'No one yet',
+    suggestion: (printed: string, profile: string) => `Printed for ${printed}: move to ${profile}`,
+    createFrom: (name: string) => `Add ${name} as a person`
+  },
+  myReports: {
+    title: 'My Reports',
+    savedOnDevice: 'Saved on this device',
+    reportCount: (n: number) => `${n} reports`,
+    deleteConfirm: (title: string) => `Delete "${title}" from this device?`,
+    compare: 'Compare with the upload in progress'
+  },
+  dashboard: {
+    noticeTitle: 'MEDICAL INTERPRETATION NOTICE',
+    notice: ['LabLens is a translation tool to help you understand your reports. This is ', 'not', ' medical advice or a diagnosis. Always talk to your doctor about these results.'],
+    healthEvolution: 'Health Evolution: ',
+    clinicalSummary: 'Clinical Summary: ',
+    patientRecord: 'Patient Record',
+    reportDate: 'Report Date',
+    source: 'Source',
+    verdict: 'Intelligence Verdict',
+    clinicalOverview: 'Clinical Overview',
+    vitalInsights: 'Vital Insights',
+    successAreas: 'Success Areas',
+    nextGoals: 'Next Goals',
+    markerEvolution: 'Marker Evolution',
+    vitalMetrics: 'Vital Metrics',
+    markerCount: (n: number) => `${n} Markers`,
+    correctedNotice: (n: number) => n === 1
+      ? 'We double-checked every result against its printed range. 1 status was adjusted to match the numbers and is marked below.'
+      : `We double-checked every result against its printed range. ${n} statuses were adjusted to match the numbers and are marked below.`,
+    unmappedNotice: (n: number, names: string) => n === 1
+      ? `1 result is not in our marker catalog yet, so it may not line up with other reports: ${names}.`
+      : `${n} results are not in our marker catalog yet, so they may not line up with other reports: ${names}.`,
+    latest: 'Latest',
+    dailyHabits: 'Daily Habits',
+    foodDiet: 'Food & Diet',
+    restRecovery: 'Rest & Recovery',
+    bodyMovement: 'Body Movement',
+    prepVisit: 'Prep for my Visit',
+    whyHelps: 'Why this helps',
+    pdfFailed: 'Failed to generate PDF.',
+    pdfPrintInstead: 'Hindi text cannot be laid out correctly in the downloaded PDF yet. The print dialog will open instead: choose Save as PDF there.',
+    userCorrectedNotice: 'You corrected values on this report. Statuses were recalculated from your numbers and their printed ranges.',
+    cachedNotice: 'These files were read before, so the saved reading is shown again to keep your numbers consistent.',
+    criticalTitle: 'Contact your clinician promptly',
+    criticalBody: 'These results are beyond the limits labs treat as needing prompt follow-up. Please call your doctor or clinic today, or get urgent care if you feel unwell. This check uses the numbers alone, not the AI summary.',
+    criticalItem: (name: string, value: number, unit: string, direction: 'high' | 'low', threshold: number) =>
+      `${name}: ${value} ${unit} (${direction === 'high' ? 'at or above' : 'at or below'} ${threshold} ${unit})`,
+    units: { reported: 'As Printed', conventional: 'US', si: 'SI' }
+  },
+  pdf: {
+    documentTitle: (patient: string) => `LabLens report for ${patient}`,
+    doctor: 'Doctor',
+    age: 'Age',
+    sex: 'Sex',
+    verdict: 'Verdict',
+    bottomLine: 'The Bottom Line',
+    goingWell: 'Going well',
+    keepAnEye: 'Keep an eye on',
+    range: 'Range',
+    notPrinted: 'not printed',
+    earlier: 'Earlier',
+    doctorQuestions: 'Questions for My Doctor'
+  },
+  card: {
+    optimal: 'Optimal',
+    aboveRange: 'Above Range',
+    belowRange: 'Below Range',
+    notChecked: 'Not Checked',
+    rangeChecked: 'Range Checked',
+    critical: 'Contact Clinician',
+    viewSource: 'View in original report',
+    userCorrected: 'Corrected by You',
+    rangeCheckedTitle: (status: string) => `Originally reported as ${status}; adjusted to match the reference range`,
+    ref: 'Ref',
+    increase: 'Increase',
+    decrease: 'Decrease',
+    analogy: 'Simple Analogy',
+    closeDetail: 'Close Detail',
+    readMore: 'Read More',
+    explainMechanism: 'Explain Mechanism'
+  },
+  results: {
+    title: 'All Results',
+    search: 'Search tests',
+    test: 'Test',
+    result: 'Result',
+    unit: 'Unit',
+    referenceRange: 'Reference Range',
+    status: 'Status',
+    noMatches: 'No results match your filters.',
+    filters: { all: 'All', high: 'High', low: 'Low', normal: 'Normal' }
+  },
+  editor: {
+    edit: 'Edit Values',
+    title: 'Correct Values',
+    intro: 'Fix anything that was misread. Statuses, trends, charts and the assistant update as soon as you save.',
+    name: 'Marker',
+    value: 'Value',
+    unit: 'Unit',
+    range: 'Reference Range',
+    newMarker: 'Add a missing marker',
+    save: 'Save',
+    add: 'Add',
+    remove: 'Remove',
+    removeConfirm: (name: string) => `Remove ${name} from this report?`,
+    done: 'Done'
+  },
+  source: {
+    title: 'Original Report',
+    pageOf: (page: number, total: number) => `Page ${page} of ${total}`,
+    previousPage: 'Previous page',
+    nextPage: 'Next page',
+    close: 'Close',
+    printedAs: (page: number) => `Printed on page ${page} as`,
+    noRegion: 'The exact spot on the page was not recorded.',
+    noLocation: 'This analysis did not record where the value was printed.',
+    unavailable: 'The original file could not be displayed.'
+  },
+  chat: {
+    title: 'Lab Assistant',
+    subtitle: 'Friendly Nurse AI',
+    placeholder: 'Ask about your results...',
+    fallbackName: 'there',
+    finishedReading: "I've finished reading your results.",
+    criticalGreeting: (names: string[]) => names.length === 1
+      ? `Before anything else: your ${names[0]} result is beyond the limit labs flag for prompt follow-up. Please contact your clinician promptly, today if you can.`
+      : `Before anything else: your ${names.join(' and ')} results are beyond the limits labs flag for prompt follow-up. Please contact your clinician promptly, today if you can.`,
+    greeting: (name: string, verdict: string) => `Hi ${name}, I've finished reading your results. ${verdict} What would you like to dive into first?`,
+    connectionError: 'I am having trouble connecting. Please try again.',
+    you: 'You',
+    transcriptTitle: 'Chat Transcript',
+    exportMarkdown: 'Download chat as Markdown',
+    exportText: 'Download chat as text',
+    includeInPdf: 'Add chat to PDF report',
+    showOnReport: 'Show on the report'
+  }
+};
+
+export type Messages = typeof en;
+
+const es: Messages = {
+  app: {
+    newCheck: 'Nuevo Análisis',
+    reanalyze: 'Reanalizar',
+    reanalyzeTitle: 'Volver a leer los archivos con el modelo en lugar de reutilizar la lectura guardada',
+    reanalyzeConfirm: 'Volver a leer los archivos reemplaza los valores que corregiste en este informe. ¿Continuar?',
+    saveReport: 'Guardar Informe',
+    fhirTitle: 'Descargar como paquete FHIR R4',
+    language: 'Idioma',
+    dropToRead: 'Suelta para leer tus análisis',
+    badge: 'Asistente Personal de Salud',
+    heroTitle: 'Tu Salud, Descifrada.',
+    heroSubtitle: 'Sube tus resultados para ver la historia humana detrás de tus números.',
+    uploadLatest: 'Subir Informe Más Reciente',
+    pastCheckup: (n: number) => `Chequeo Anterior ${n}`,
+    addAnotherPast: 'Añadir Otro Chequeo Anterior',
+    addPastOptional: 'Añadir un Chequeo Anterior (Opcional)',
+    privacyMode: (on: boolean) => `Modo Privado: ${on ? 'Activado - nombres e identificadores se ocultan antes de subir' : 'Desactivado'}`,
+    privacyEnglishOnly: 'Los nombres e identificadores solo se detectan junto a etiquetas en inglés como Name, Patient o DOB. La escritura hindi no se lee.',
+    seeProgress: 'Ver Mi Progreso',
+    readResults: 'Leer Mis Resultados',
+    cancel: 'Cancelar',
+    explainRequest: (term: string) => `¿Puedes explicarme qué significa "${term}" para mi salud?`,
+    features: [
+      { title: 'Lenguaje Sencillo', desc: 'Explicaciones sin tecnicismos, con analogías que de verdad entenderás.' },
+      { title: 'Seguimiento', desc: 'Mira cómo cambia tu salud con el tiempo.' },
+      { title: 'Respuestas Claras', desc: 'Explicaciones simples de lo que tus números significan para ti.' }
+    ]
+  },
+  checks: {
+    title: 'Revisa tus archivos',
+    latest: 'Tu informe más reciente',
+    notLabReport: (label: string, type: string) => `${label} no parece un informe de laboratorio (parece un ${type}).`,
+    patientMismatch: (label: string, name?: string, latestName?: string) => name && latestName
+      ? `${label} es de ${name}, pero tu informe más reciente es de ${latestName}.`
+      : `${label} parece ser de otra persona distinta a la de tu informe más reciente.`,
+    pastNewer: (label: string, date: string, latestDate: string) => `${label} tiene fecha ${date}, posterior a tu informe más reciente (${latestDate}).`,
+    blockedHint: 'Cambia o quita ese archivo y vuelve a intentarlo.',
+    warningHint: 'Si son los archivos correctos, puedes continuar de todos modos.',
+    continueAnyway: 'Continuar de Todos Modos'
+  },
+  errors: {
+    dismiss: 'Cerrar',
+    retryIn: (minutes: number) => minutes <= 1 ? 'Podrás volver a intentarlo en un minuto aproximadamente.' : `Podrás volver a intentarlo en unos ${minutes} minutos.`,
+    quota: { title: 'Demasiadas solicitudes ahora mismo', guidance: 'El servicio de lectura alcanzó su límite de uso. Espera unos minutos y vuelve a pulsar el botón.' },
+    'too-large': { title: 'Este informe es demasiado grande', guidance: 'Prueba con menos páginas o un escaneo más pequeño, o deja fuera los chequeos anteriores y añádelos de uno en uno.' },
+    unreadable: { title: 'No pudimos leer este informe', guidance: 'Asegúrate de que la foto sea nítida, con buena luz y muestre la página entera, o sube el PDF de tu laboratorio.' },
+    safety: { title: 'Este archivo fue rechazado', guidance: 'El servicio de lectura no quiso procesar este archivo. Comprueba que sea un informe de laboratorio y recorta todo lo demás de la página.' },
+    network: { title: 'No se pudo conectar con el servicio', guidance: 'Revisa tu conexión a internet e inténtalo de nuevo. Si sigue pasando, puede que el servicio no esté disponible por un momento.' },
+    timeout: { title: 'Está tardando demasiado', guidance: 'El servicio no respondió a tiempo. Inténtalo de nuevo o sube menos páginas a la vez.' },
+    unknown: { title: 'Algo salió mal', guidance: 'Inténtalo de nuevo. Si sigue pasando, prueba con otro archivo.' }
+  },
+  uploader: {
+    readingLabs: 'Leyendo tus análisis...',
+    comparingRecords: 'Comparando registros...',
+    readingSubtext: 'Convirtiendo números médicos en ideas claras.',
+    comparingSubtext: 'Buscando patrones en tu historia de salud.',
+    tooLarge: (name: string) => `${name} es demasiado grande. Prueba con un escaneo más pequeño.`,
+    unsupportedType: 'Sube un PDF o una imagen.',
+    processFailed: (name: string) => `No se pudo procesar ${name}.`,
+    pageCount: (n: number) => `${n} páginas`,
+    page: 'Página',
+    scan: 'Escanear',
+    pagesReady: (n: number) => `${n} Páginas Listas`,
+    readyToView: 'Listo para Ver',
+    dropToView: 'Suelta para Ver',
+    releaseToSee: 'Suelta para ver tus resultados',
+    addPastHint: 'Añade un registro anterior para ver tu progreso',
+    dragDrop: 'Arrastra y suelta el informe aquí',
+    scanWithCamera: 'Escanear con la Cámara'
+  },
+  camera: {
+    title: 'Escanea tu Informe',
+    hint: 'Coloca la hoja plana sobre una superficie oscura',
+    unavailable: 'No pudimos abrir tu cámara. Revisa el permiso del navegador o sube una foto.',
+    captureFailed: 'No se pudo capturar la página. Inténtalo de nuevo.',
+    straightened: 'Bordes de la página detectados y enderezados',
+    usePages: (n: number) => n === 0 ? 'Usar Páginas' : n === 1 ? 'Usar 1 Página' : `Usar ${n} Páginas`
+  },
+  profiles: {
+    switcherTitle: '¿De quién son los informes?',
+    everyone: 'Todos',
+    add: 'Añadir una persona',
+    edit: 'Editar esta persona',
+    name: 'Nombre',
+    birthDate: 'Fecha de nacimiento',
+    sex: 'Sexo',
+    female: 'Femenino',
+    male: 'Masculino',
+    other: 'Otro',
+    save: 'Guardar',
+    cancel: 'Cancelar',
+    delete: 'Eliminar esta persona',
+    deleteConfirm: (name: string) => `¿Eliminar a ${name}? Sus informes se quedan en este dispositivo sin perfil.`,
+    age: (n: number) => ` · ${n}`,
+    belongsTo: 'Pertenece a',
+    unassigned: 'Nadie todavía',
+    suggestion: (printed: string, profile: string) => `Impreso para ${printed}: mover a ${profile}`,
+    createFrom: (name: string) => `Añadir a ${name} como persona`
+  },
+  myReports: {
+    title: 'Mis Informes',
+    savedOnDevice: 'Guardados en este dispositivo',
+    reportCount: (n: number) => `${n} informes`,
+    deleteConfirm: (title: string) => `¿Eliminar "${title}" de este dispositivo?`,
+    compare: 'Comparar con el archivo que estás subiendo'
+  },
+  dashboard: {
+    noticeTitle: 'AVISO DE INTERPRETACIÓN MÉDICA',
+    notice: ['LabLens es una herramienta de traducción para ayudarte a entender tus informes. ', 'No', ' es consejo médico ni un diagnóstico. Habla siempre con tu médico sobre estos resultados.'],
+    healthEvolution: 'Evolución de Salud: ',
+    clinicalSummary: 'Resumen Clínico: ',
+    patientRecord: 'Registro del Paciente',
+    reportDate: 'Fecha del Informe',
+    source: 'Origen',
+    verdict: 'Veredicto',
+    clinicalOverview: 'Panorama Clínico',
+    vitalInsights: 'Puntos Clave',
+    successAreas: 'Lo Que Va Bien',
+    nextGoals: 'Próximas Metas',
+    markerEvolution: 'Evolución de Marcadores',
+    vitalMetrics: 'Métricas Vitales',
+    markerCount: (n: number) => `${n} Marcadores`,
+    correctedNotice: (n: number) => n === 1
+      ? 'Revisamos cada resultado contra su rango impreso. 1 estado se ajustó para coincidir con los números y está marcado abajo.'
+      : `Revisamos cada resultado contra su rango impreso. ${n} estados se ajustaron para coincidir con los números y están marcados abajo.`,
+    unmappedNotice: (n: number, names: string) => n === 1
+      ? `1 resultado aún no está en nuestro catálogo de marcadores, así que puede no coincidir con otros informes: ${names}.`
+      : `${n} resultados aún no están en nuestro catálogo de marcadores, así que pueden no coincidir con otros informes: ${names}.`,
+    latest: 'Actual',
+    dailyHabits: 'Hábitos Diarios',
+    foodDiet: 'Comida y Dieta',
+    restRecovery: 'Descanso',
+    bodyMovement: 'Movimiento',
+    prepVisit: 'Preparar mi Consulta',
+    whyHelps: 'Por qué ayuda',
+    pdfFailed: 'No se pudo generar el PDF.',
+    pdfPrintInstead: 'El texto en hindi aún no se puede componer bien en el PDF descargado. Se abrirá el cuadro de impresión: elija Guardar como PDF.',
+    userCorrectedNotice: 'Corregiste valores de este informe. Los estados se recalcularon con tus números y sus rangos impresos.',
+    cachedNotice: 'Estos archivos ya se leyeron antes, así que se muestra la lectura guardada para que tus números sean coherentes.',
+    criticalTitle: 'Contacta a tu médico cuanto antes',
+    criticalBody: 'Estos resultados superan los límites que los laboratorios consideran de seguimiento inmediato. Llama hoy a tu médico o clínica, o busca atención urgente si te sientes mal. Esta comprobación usa solo los números, no el resumen de la IA.',
+    criticalItem: (name: string, value: number, unit: string, direction: 'high' | 'low', threshold: number) =>
+      `${name}: ${value} ${unit} (${direction === 'high' ? 'igual o superior a' : 'igual o inferior a'} ${threshold} ${unit})`,
+    units: { reported: 'Como Impreso', conventional: 'EE. UU.', si: 'SI' }
+  },
+  pdf: {
+    documentTitle: (patient: string) => `Informe de LabLens de ${patient}`,
+    doctor: 'Médico',
+    age: 'Edad',
+    sex: 'Sexo',
+    verdict: 'Veredicto',
+    bottomLine: 'En Resumen',
+    goingWell: 'Va bien',
+    keepAnEye: 'Para vigilar',
+    range: 'Rango',
+    notPrinted: 'no impreso',
+    earlier: 'Antes',
+    doctorQuestions: 'Preguntas para mi Médico'
+  },
+  card: {
+    optimal: 'Óptimo',
+    aboveRange: 'Sobre el Rango',
+    belowRange: 'Bajo el Rango',
+    notChecked: 'Sin Verificar',
+    rangeChecked: 'Rango Verificado',
+    critical: 'Contacta a tu Médico',
+    viewSource: 'Ver en el informe original',
+    userCorrected: 'Corregido por Ti',
+    rangeCheckedTitle: (status: string) => `Reportado originalmente como ${status}; ajustado según el rango de referencia`,
+    ref: 'Ref',
+    increase: 'Aumento',
+    decrease: 'Descenso',
+    analogy: 'Analogía Sencilla',
+    closeDetail: 'Cerrar Detalle',
+    readMore: 'Leer Más',
+    explainMechanism: 'Explicar Mecanismo'
+  },
+  results: {
+    title: 'Todos los Resultados',
+    search: 'Buscar pruebas',
+    test: 'Prueba',
+    result: 'Resultado',
+    unit: 'Unidad',
+    referenceRange: 'Rango de Referencia',
+    status: 'Estado',
+    noMatches: 'Ningún resultado coincide con tus filtros.',
+    filters: { all: 'Todos', high: 'Alto', low: 'Bajo', normal: 'Normal' }
+  },
+  editor: {
+    edit: 'Editar Valores',
+    title: 'Corregir Valores',
+    intro: 'Corrige lo que se haya leído mal. Estados, tendencias, gráficos y el asistente se actualizan al guardar.',
+    name: 'Marcador',
+    value: 'Valor',
+    unit: 'Unidad',
+    range: 'Rango de Referencia',
+    newMarker: 'Añadir un marcador que falta',
+    save: 'Guardar',
+    add: 'Añadir',
+    remove: 'Eliminar',
+    removeConfirm: (name: string) => `¿Eliminar ${name} de este informe?`,
+    done: 'Listo'
+  },
+  source: {
+    title: 'Informe Original',
+    pageOf: (page: number, total: number) => `Página ${page} de ${total}`,
+    previousPage: 'Página anterior',
+    nextPage: 'Página siguiente',
+    close: 'Cerrar',
+    printedAs: (page: number) => `Impreso en la página ${page} como`,
+    noRegion: 'No se registró el lugar exacto en la página.',
+    noLocation: 'Este análisis no registró dónde estaba impreso el valor.',
+    unavailable: 'No se pudo mostrar el archivo original.'
+  },
+  chat: {
+    title: 'Asistente de Laboratorio',
+    subtitle: 'Enfermera Virtual',
+    placeholder: 'Pregunta sobre tus resultados...',
+    fallbackName: '',
+    finishedReading: 'Terminé de leer tus resultados.',
+    criticalGreeting: (names: string[]) => names.length === 1
+      ? `Antes que nada: tu resultado de ${names[0]} supera el límite que los laboratorios marcan para seguimiento inmediato. Contacta a tu médico cuanto antes, hoy si es posible.`
+      : `Antes que nada: tus resultados de ${names.join(' y ')} superan los límites que los laboratorios marcan para seguimiento inmediato. Contacta a tu médico cuanto antes, hoy si es posible.`,
+    greeting: (name: string, verdict: string) => `Hola${name ? ` ${name}` : ''}, terminé de leer tus resultados. ${verdict} ¿Por dónde te gustaría empezar?`,
+    connectionError: 'Tengo problemas para conectarme. Inténtalo de nuevo.',
+    you: 'Tú',
+    transcriptTitle: 'Transcripción del Chat',
+    exportMarkdown: 'Descargar chat como Markdown',
+    exportText: 'Descargar chat como texto',
+    includeInPdf: 'Añadir chat al informe PDF',
+    showOnReport: 'Ver en el informe'
+  }
+};
+
+const hi: Messages = {
+  app: {
+    newCheck: 'नई जाँच',
+    reanalyze: 'फिर से पढ़ें',
+    reanalyzeTitle: 'सहेजी गई रीडिंग दोबारा इस्तेमाल करने के बजाय फ़ाइलें मॉडल से फिर से पढ़वाएँ',
+    reanalyzeConfirm: 'फ़ाइलें दोबारा पढ़ने से इस रिपोर्ट में आपके सुधारे हुए मान बदल जाएँगे। जारी रखें?',
+    saveReport: 'रिपोर्ट सहेजें',
+    fhirTitle: 'FHIR R4 बंडल के रूप में डाउनलोड करें',
+    language: 'भाषा',
+    dropToRead: 'अपनी रिपोर्ट पढ़ने के लिए यहाँ छोड़ें',
+    badge: 'व्यक्तिगत स्वास्थ्य सहायक',
+    heroTitle: 'आपकी सेहत, आसान भाषा में।',
+    heroSubtitle: 'अपने नतीजे अपलोड करें और अपने आँकड़ों के पीछे की कहानी समझें।',
+    uploadLatest: 'नवीनतम रिपोर्ट अपलोड करें',
+    pastCheckup: (n: number) => `पिछली जाँच ${n}`,
+    addAnotherPast: 'एक और पिछली जाँच जोड़ें',
+    addPastOptional: 'पिछली जाँच जोड़ें (वैकल्पिक)',
+    privacyMode: (on: boolean) => `प्राइवेसी मोड: ${on ? 'चालू - अपलोड से पहले नाम और आईडी छिपाए जाते हैं' : 'बंद'}`,
+    privacyEnglishOnly: 'नाम और आईडी केवल Name, Patient या DOB जैसे अंग्रेज़ी लेबल के पास ही पहचाने जाते हैं। हिंदी लिपि नहीं पढ़ी जाती।',
+    seeProgress: 'मेरी प्रगति देखें',
+    readResults: 'मेरे नतीजे पढ़ें',
+    cancel: 'रद्द करें',
+    explainRequest: (term: string) => `क्या आप समझा सकते हैं कि "${term}" का मेरी सेहत के लिए क्या मतलब है?`,
+    features: [
+      { title: 'आसान भाषा', desc: 'बिना कठिन शब्दों के, ऐसी मिसालों के साथ जो सच में समझ आएँ।' },
+      { title: 'प्रगति जाँच', desc: 'देखें कि समय के साथ आपकी सेहत कैसे बदल रही है।' },
+      { title: 'साफ़ जवाब', desc: 'आपके लैब नंबरों का आपके लिए क्या मतलब है, सरल शब्दों में।' }
+    ]
+  },
+  checks: {
+    title: 'कृपया अपनी फ़ाइलें जाँचें',
+    latest: 'आपकी नवीनतम रिपोर्ट',
+    notLabReport: (label: string, type: string) => `${label} लैब रिपोर्ट नहीं लगती (यह ${type} जैसी लगती है)।`,
+    patientMismatch: (label: string, name?: string, latestName?: string) => name && latestName
+      ? `${label} ${name} की है, लेकिन आपकी नवीनतम रिपोर्ट ${latestName} की है।`
+      : `${label} आपकी नवीनतम रिपोर्ट वाले व्यक्ति से अलग किसी की लगती है।`,
+    pastNewer: (label: string, date: string, latestDate: string) => `${label} की तारीख ${date} है, जो आपकी नवीनतम रिपोर्ट (${latestDate}) के बाद की है।`,
+    blockedHint: 'वह फ़ाइल बदलें या हटाएँ, फिर से कोशिश करें।',
+    warningHint: 'अगर ये सही फ़ाइलें हैं, तो आप फिर भी आगे बढ़ सकते हैं।',
+    continueAnyway: 'फिर भी जारी रखें'
+  },
+  errors: {
+    dismiss: 'बंद करें',
+    retryIn: (minutes: number) => minutes <= 1 ? 'लगभग एक मिनट में फिर से कोशिश कर सकते हैं।' : `लगभग ${minutes} मिनट में फिर से कोशिश कर सकते हैं।`,
+    quota: { title: 'अभी बहुत सारे अनुरोध हैं', guidance: 'पढ़ने वाली सेवा अपनी उपयोग सीमा तक पहुँच गई है। कुछ मिनट रुकें, फिर बटन दोबारा दबाएँ।' },
+    'too-large': { title: 'यह रिपोर्ट बहुत बड़ी है', guidance: 'कम पन्ने या छोटा स्कैन आज़माएँ, या पुरानी जाँचें हटाकर उन्हें एक-एक करके जोड़ें।' },
+    unreadable: { title: 'हम यह रिपोर्ट नहीं पढ़ सके', guidance: 'पक्का करें कि फ़ोटो साफ़ हो, रोशनी अच्छी हो और पूरा पन्ना दिखे, या अपनी लैब की PDF अपलोड करें।' },
+    safety: { title: 'यह फ़ाइल अस्वीकार कर दी गई', guidance: 'पढ़ने वाली सेवा ने यह फ़ाइल प्रोसेस नहीं की। जाँचें कि यह लैब रिपोर्ट ही है और पन्ने पर बाकी सब काट दें।' },
+    network: { title: 'सेवा से जुड़ नहीं सके', guidance: 'अपना इंटरनेट कनेक्शन जाँचें और फिर से कोशिश करें। अगर ऐसा होता रहे, तो सेवा कुछ देर के लिए बंद हो सकती है।' },
+    timeout: { title: 'इसमें बहुत समय लग रहा है', guidance: 'सेवा ने समय पर जवाब नहीं दिया। फिर से कोशिश करें, या एक बार में कम पन्ने अपलोड करें।' },
+    unknown: { title: 'कुछ गड़बड़ हो गई', guidance: 'कृपया फिर से कोशिश करें। अगर ऐसा होता रहे, तो कोई दूसरी फ़ाइल आज़माएँ।' }
+  },
+  uploader: {
+    readingLabs: 'आपकी रिपोर्ट पढ़ी जा रही है...',
+    comparingRecords: 'रिकॉर्ड की तुलना हो रही है...',
+    readingSubtext: 'मेडिकल आँकड़ों को साफ़ जानकारी में बदला जा रहा है।',
+    comparingSubtext: 'आपकी सेहत की कहानी में पैटर्न खोजे जा रहे हैं।',
+    tooLarge: (name: string) => `${name} बहुत बड़ी है। कृपया छोटा स्कैन आज़माएँ।`,
+    unsupportedType: 'कृपया PDF या इमेज अपलोड करें।',
+    processFailed: (name: string) => `${name} को प्रोसेस नहीं किया जा सका।`,
+    pageCount: (n: number) => `${n} पेज`,
+    page: 'पेज',
+    scan: 'स्कैन',
+    pagesReady: (n: number) => `${n} पेज तैयार`,
+    readyToView: 'देखने के लिए तैयार',
+    dropToView: 'देखने के लिए छोड़ें',
+    releaseToSee: 'अपने नतीजे देखने के लिए छोड़ें',
+    addPastHint: 'अपनी प्रगति देखने के लिए पिछला रिकॉर्ड जोड़ें',
+    dragDrop: 'रिपोर्ट यहाँ खींचकर छोड़ें',
+    scanWithCamera: 'कैमरे से स्कैन करें'
+  },
+  camera: {
+    title: 'अपनी रिपोर्ट स्कैन करें',
+    hint: 'पेज को गहरे रंग की सतह पर सीधा रखें',
+    unavailable: 'हम आपका कैमरा नहीं खोल सके। ब्राउज़र की अनुमति जाँचें, या फ़ोटो अपलोड करें।',
+    captureFailed: 'पेज कैप्चर नहीं हो सका। कृपया फिर से कोशिश करें।',
+    straightened: 'पेज के किनारे पहचाने गए और सीधे किए गए',
+    usePages: (n: number) => n === 0 ? 'पेज इस्तेमाल करें' : `${n} पेज इस्तेमाल करें`
+  },
+  profiles: {
+    switcherTitle: 'किसकी रिपोर्ट?',
+    everyone: 'सभी',
+    add: 'व्यक्ति जोड़ें',
+    edit: 'इस व्यक्ति को बदलें',
+    name: 'नाम',
+    birthDate: 'जन्म तिथि',
+    sex: 'लिंग',
+    female: 'महिला',
+    male: 'पुरुष',
+    other: 'अन्य',
+    save: 'सहेजें',
+    cancel: 'रद्द करें',
+    delete: 'इस व्यक्ति को हटाएँ',
+    deleteConfirm: (name: string) => `${name} को हटाएँ? उनकी रिपोर्ट बिना प्रोफ़ाइल के इस डिवाइस पर रहेंगी।`,
+    age: (n: number) => ` · ${n}`,
+    belongsTo: 'किसकी है',
+    unassigned: 'अभी किसी की नहीं',
+    suggestion: (printed: string, profile: string) => `${printed} के नाम पर छपी है: ${profile} में ले जाएँ`,
+    createFrom: (name: string) => `${name} को व्यक्ति के रूप में जोड़ें`
+  },
+  myReports: {
+    title: 'मेरी रिपोर्टें',
+    savedOnDevice: 'इस डिवाइस पर सहेजी गईं',
+    reportCount: (n: number) => `${n} रिपोर्टें`,
+    deleteConfirm: (title: string) => `"${title}" को इस डिवाइस से हटाएँ?`,
+    compare: 'अपलोड हो रही रिपोर्ट से तुलना करें'
+  },
+  dashboard: {
+    noticeTitle: 'चिकित्सा व्याख्या सूचना',
+    notice: ['LabLens आपकी रिपोर्ट समझने में मदद करने वाला एक अनुवाद टूल है। यह चिकित्सा सलाह या निदान ', 'नहीं', ' है। इन नतीजों के बारे में हमेशा अपने डॉक्टर से बात करें।'],
+    healthEvolution: 'सेहत में बदलाव: ',
+    clinicalSummary: 'क्लिनिकल सारांश: ',
+    patientRecord: 'मरीज़ का रिकॉर्ड',
+    reportDate: 'रिपोर्ट की तारीख',
+    source: 'स्रोत',
+    verdict: 'निष्कर्ष',
+    clinicalOverview: 'क्लिनिकल झलक',
+    vitalInsights: 'मुख्य बातें',
+    successAreas: 'जो अच्छा चल रहा है',
+    nextGoals: 'अगले लक्ष्य',
+    markerEvolution: 'मार्करों में बदलाव',
+    vitalMetrics: 'मुख्य माप',
+    markerCount: (n: number) => `${n} मार्कर`,
+    correctedNotice: (n: number) => `हमने हर नतीजे को उसकी छपी हुई रेंज से मिलाकर देखा। ${n} स्थिति आँकड़ों के अनुसार बदली गई और नीचे चिह्नित है।`,
+    unmappedNotice: (n: number, names: string) => `${n} नतीजे अभी हमारी मार्कर सूची में नहीं हैं, इसलिए दूसरी रिपोर्टों से मेल न खाएँ: ${names}।`,
+    latest: 'नवीनतम',
+    dailyHabits: 'रोज़ की आदतें',
+    foodDiet: 'खान-पान',
+    restRecovery: 'आराम और नींद',
+    bodyMovement: 'शारीरिक गतिविधि',
+    prepVisit: 'डॉक्टर से मिलने की तैयारी',
+    whyHelps: 'यह क्यों मदद करता है',
+    pdfFailed: 'PDF नहीं बन सका।',
+    pdfPrintInstead: 'हिंदी पाठ अभी डाउनलोड की गई PDF में सही ढंग से नहीं बन पाता। इसके बजाय प्रिंट विंडो खुलेगी: वहाँ "PDF के रूप में सहेजें" चुनें।',
+    userCorrectedNotice: 'आपने इस रिपोर्ट के मान सुधारे हैं। स्थिति आपके अंकों और छपी सीमाओं से फिर से निकाली गई है।',
+    cachedNotice: 'ये फ़ाइलें पहले पढ़ी जा चुकी हैं, इसलिए आपके अंक एक जैसे रखने के लिए सहेजी गई रीडिंग फिर से दिखाई गई है।',
+    criticalTitle: 'जल्द से जल्द अपने डॉक्टर से संपर्क करें',
+    criticalBody: 'ये नतीजे उन सीमाओं से बाहर हैं जिन पर लैब तुरंत ध्यान देने को कहती हैं। कृपया आज ही अपने डॉक्टर या क्लिनिक को फ़ोन करें, या तबीयत ठीक न लगे तो तुरंत इलाज लें। यह जाँच सिर्फ़ संख्याओं पर आधारित है, AI सारांश पर नहीं।',
+    criticalItem: (name: string, value: number, unit: string, direction: 'high' | 'low', threshold: number) =>
+      `${name}: ${value} ${unit} (${threshold} ${unit} ${direction === 'high' ? 'या उससे ज़्यादा' : 'या उससे कम'})`,
+    units: { reported: 'जैसा छपा', conventional: 'US', si: 'SI' }
+  },
+  pdf: {
+    documentTitle: (patient: string) => `${patient} के लिए LabLens रिपोर्ट`,
+    doctor: 'डॉक्टर',
+    age: 'उम्र',
+    sex: 'लिंग',
+    verdict: 'निष्कर्ष',
+    bottomLine: 'मुख्य बात',
+    goingWell: 'जो ठीक चल रहा है',
+    keepAnEye: 'जिन पर ध्यान दें',
+    range: 'रेंज',
+    notPrinted: 'छपी नहीं',
+    earlier: 'पहले',
+    doctorQuestions: 'मेरे डॉक्टर से सवाल'
+  },
+  card: {
+    optimal: 'सही स्तर',
+    aboveRange: 'रेंज से ऊपर',
+    belowRange: 'रेंज से नीचे',
+    notChecked: 'जाँच नहीं हुई',
+    rangeChecked: 'रेंज जाँची गई',
+    critical: 'डॉक्टर से संपर्क करें',
+    viewSource: 'मूल रिपोर्ट में देखें',
+    userCorrected: 'आपने सुधारा',
+    rangeCheckedTitle: (status: string) => `मूल रूप से ${status} बताया गया था; रेफ़रेंस रेंज के अनुसार बदला गया`,
+    ref: 'रेंज',
+    increase: 'बढ़ोतरी',
+    decrease: 'कमी',
+    analogy: 'आसान मिसाल',
+    closeDetail: 'विवरण बंद करें',
+    readMore: 'और पढ़ें',
+    explainMechanism: 'विस्तार से समझाएँ'
+  },
+  results: {
+    title: 'सभी नतीजे',
+    search: 'जाँच खोजें',
+    test: 'जाँच',
+    result: 'नतीजा',
+    unit: 'इकाई',
+    referenceRange: 'रेफ़रेंस रेंज',
+    status: 'स्थिति',
+    noMatches: 'आपके फ़िल्टर से कोई नतीजा मेल नहीं खाता।',
+    filters: { all: 'सभी', high: 'ऊँचा', low: 'कम', normal: 'सामान्य' }
+  },
+  editor: {
+    edit: 'मान बदलें',
+    title: 'मान सुधारें',
+    intro: 'जो गलत पढ़ा गया हो उसे ठीक करें। सहेजते ही स्थिति, रुझान, चार्ट और सहायक अपडेट हो जाते हैं।',
+    name: 'मार्कर',
+    value: 'मान',
+    unit: 'इकाई',
+    range: 'संदर्भ सीमा',
+    newMarker: 'छूटा हुआ मार्कर जोड़ें',
+    save: 'सहेजें',
+    add: 'जोड़ें',
+    remove: 'हटाएँ',
+    removeConfirm: (name: string) => `इस रिपोर्ट से ${name} हटाएँ?`,
+    done: 'हो गया'
+  },
+  source: {
+    title: 'मूल रिपोर्ट',
+    pageOf: (page: number, total: number) => `पेज ${page} / ${total}`,
+    previousPage: 'पिछला पेज',
+    nextPage: 'अगला पेज',
+    close: 'बंद करें',
+    printedAs: (page: number) => `पेज ${page} पर ऐसे छपा है`,
+    noRegion: 'पेज पर सही जगह दर्ज नहीं हुई।',
+    noLocation: 'इस विश्लेषण में यह दर्ज नहीं है कि मान कहाँ छपा था।',
+    unavailable: 'मूल फ़ाइल नहीं दिखाई जा सकी।'
+  },
+  chat: {
+    title: 'लैब सहायक',
+    subtitle: 'दोस्ताना नर्स AI',
+    placeholder: 'अपने नतीजों के बारे में पूछें...',
+    fallbackName: '',
+    finishedReading: 'मैंने आपके नतीजे पढ़ लिए हैं।',
+    criticalGreeting: (names: string[]) => `सबसे पहले: आपका ${names.join(' और ')} नतीजा उस सीमा से बाहर है जिस पर लैब तुरंत ध्यान देने को कहती हैं। कृपया जल्द से जल्द, हो सके तो आज ही, अपने डॉक्टर से संपर्क करें।`,
+    greeting: (name: string, verdict: string) => `नमस्ते${name ? ` ${name}` : ''}, मैंने आपके नतीजे पढ़ लिए हैं। ${verdict} आप सबसे पहले किस बारे में जानना चाहेंगे?`,
+    connectionError: 'कनेक्ट करने में परेशानी हो रही है। कृपया फिर से कोशिश करें।',
+    you: 'आप',
+    transcriptTitle: 'चैट ट्रांसक्रिप्ट',
+    exportMarkdown: 'चैट को Markdown में डाउनलोड करें',
+    exportText: 'चैट को टेक्स्ट में डाउनलोड करें',
+    includeInPdf: 'चैट को PDF रिपोर्ट में जोड़ें',
+    showOnReport: 'रिपोर्ट में दिखाएँ'
+  }
+};
+
+const de: Messages = {
+  app: {
+    newCheck: 'Neue Prüfung',
+    reanalyze: 'Neu analysieren',
+    reanalyzeTitle: 'Die Dateien erneut vom Modell lesen lassen, statt das gespeicherte Ergebnis zu verwenden',
+    reanalyzeConfirm: 'Beim erneuten Lesen der Dateien werden Ihre Korrekturen an diesem Befund ersetzt. Fortfahren?',
+    saveReport: 'Bericht Speichern',
+    fhirTitle: 'Als FHIR-R4-Bundle herunterladen',
+    language: 'Sprache',
+    dropToRead: 'Ablegen, um Ihre Werte zu lesen',
+    badge: 'Persönlicher Gesundheitsassistent',
+    heroTitle: 'Ihre Gesundheit, Entschlüsselt.',
+    heroSubtitle: 'Laden Sie Ihre Ergebnisse hoch und sehen Sie die Geschichte hinter Ihren Zahlen.',
+    uploadLatest: 'Neuesten Befund Hochladen',
+    pastCheckup: (n: number) => `Früherer Befund ${n}`,
+    addAnotherPast: 'Weiteren Früheren Befund Hinzufügen',
+    addPastOptional: 'Früheren Befund Hinzufügen (Optional)',
+    privacyMode: (on: boolean) => `Privatsphäre-Modus: ${on ? 'An - Namen und IDs werden vor dem Hochladen verborgen' : 'Aus'}`,
+    privacyEnglishOnly: 'Namen und IDs werden nur neben englischen Bezeichnungen wie Name, Patient oder DOB erkannt. Hindi-Schrift wird nicht gelesen.',
+    seeProgress: 'Meinen Verlauf Sehen',
+    readResults: 'Meine Ergebnisse Lesen',
+    cancel: 'Abbrechen',
+    explainRequest: (term: string) => `Können Sie erklären, was "${term}" für meine Gesundheit bedeutet?`,
+    features: [
+      { title: 'Einfache Sprache', desc: 'Ohne Fachjargon, mit Vergleichen, die Sie wirklich verstehen.' },
+      { title: 'Verlauf', desc: 'Sehen Sie, wie sich Ihre Gesundheit mit der Zeit verändert.' },
+      { title: 'Klare Antworten', desc: 'Einfache Erklärungen, was Ihre Laborwerte für Sie bedeuten.' }
+    ]
+  },
+  checks: {
+    title: 'Bitte prüfen Sie Ihre Dateien',
+    latest: 'Ihr neuester Bericht',
+    notLabReport: (label: string, type: string) => `${label} sieht nicht wie ein Laborbericht aus (eher wie: ${type}).`,
+    patientMismatch: (label: string, name?: string, latestName?: string) => name && latestName
+      ? `${label} gehört zu ${name}, Ihr neuester Bericht aber zu ${latestName}.`
+      : `${label} scheint zu einer anderen Person zu gehören als Ihr neuester Bericht.`,
+    pastNewer: (label: string, date: string, latestDate: string) => `${label} ist vom ${date} und damit neuer als Ihr neuester Bericht (${latestDate}).`,
+    blockedHint: 'Ersetzen oder entfernen Sie diese Datei und versuchen Sie es erneut.',
+    warningHint: 'Wenn es die richtigen Dateien sind, können Sie trotzdem fortfahren.',
+    continueAnyway: 'Trotzdem Fortfahren'
+  },
+  errors: {
+    dismiss: 'Schließen',
+    retryIn: (minutes: number) => minutes <= 1 ? 'Sie können es in etwa einer Minute erneut versuchen.' : `Sie können es in etwa ${minutes} Minuten erneut versuchen.`,
+    quota: { title: 'Gerade zu viele Anfragen', guidance: 'Der Lesedienst hat sein Nutzungslimit erreicht. Warten Sie ein paar Minuten und drücken Sie dann erneut auf den Knopf.' },
+    'too-large': { title: 'Dieser Bericht ist zu groß', guidance: 'Versuchen Sie weniger Seiten oder einen kleineren Scan, oder lassen Sie frühere Untersuchungen weg und fügen Sie sie einzeln hinzu.' },
+    unreadable: { title: 'Wir konnten diesen Bericht nicht lesen', guidance: 'Achten Sie auf ein scharfes, gut beleuchtetes Foto der ganzen Seite, oder laden Sie stattdessen das PDF Ihres Labors hoch.' },
+    safety: { title: 'Diese Datei wurde abgelehnt', guidance: 'Der Lesedienst wollte diese Datei nicht verarbeiten. Prüfen Sie, ob es ein Laborbericht ist, und schneiden Sie alles andere auf der Seite weg.' },
+    network: { title: 'Dienst nicht erreichbar', guidance: 'Prüfen Sie Ihre Internetverbindung und versuchen Sie es erneut. Wenn es öfter passiert, ist der Dienst vielleicht kurz nicht verfügbar.' },
+    timeout: { title: 'Das dauert zu lange', guidance: 'Der Dienst hat nicht rechtzeitig geantwortet. Versuchen Sie es erneut oder laden Sie weniger Seiten auf einmal hoch.' },
+    unknown: { title: 'Etwas ist schiefgelaufen', guidance: 'Bitte versuchen Sie es erneut. Wenn es öfter passiert, versuchen Sie eine andere Datei.' }
+  },
+  uploader: {
+    readingLabs: 'Ihre Werte werden gelesen...',
+    comparingRecords: 'Befunde werden verglichen...',
+    readingSubtext: 'Medizinische Zahlen werden zu klaren Erkenntnissen.',
+    comparingSubtext: 'Muster in Ihrer Gesundheitsgeschichte werden gesucht.',
+    tooLarge: (name: string) => `${name} ist zu groß. Bitte versuchen Sie einen kleineren Scan.`,
+    unsupportedType: 'Bitte laden Sie ein PDF oder ein Bild hoch.',
+    processFailed: (name: string) => `${name} konnte nicht verarbeitet werden.`,
+    pageCount: (n: number) => `${n} Seiten`,
+    page: 'Seite',
+    scan: 'Scannen',
+    pagesReady: (n: number) => `${n} Seiten Bereit`,
+    readyToView: 'Bereit',
+    dropToView: 'Zum Anzeigen Ablegen',
+    releaseToSee: 'Loslassen, um Ihre Ergebnisse zu sehen',
+    addPastHint: 'Fügen Sie einen früheren Befund hinzu, um Ihren Verlauf zu sehen',
+    dragDrop: 'Befund hierher ziehen und ablegen',
+    scanWithCamera: 'Mit Kamera Scannen'
+  },
+  camera: {
+    title: 'Befund Scannen',
+    hint: 'Legen Sie die Seite flach auf eine dunkle Fläche',
+    unavailable: 'Wir konnten Ihre Kamera nicht öffnen. Prüfen Sie die Browser-Berechtigung oder laden Sie ein Foto hoch.',
+    captureFailed: 'Die Seite konnte nicht aufgenommen werden. Bitte versuchen Sie es erneut.',
+    straightened: 'Seitenränder erkannt und begradigt',
+    usePages: (n: number) => n === 0 ? 'Seiten Verwenden' : n === 1 ? '1 Seite Verwenden' : `${n} Seiten Verwenden`
+  },
+  profiles: {
+    switcherTitle: 'Wessen Berichte?',
+    everyone: 'Alle',
+    add: 'Person hinzufügen',
+    edit: 'Diese Person bearbeiten',
+    name: 'Name',
+    birthDate: 'Geburtsdatum',
+    sex: 'Geschlecht',
+    female: 'Weiblich',
+    male: 'Männlich',
+    other: 'Divers',
+    save: 'Speichern',
+    cancel: 'Abbrechen',
+    delete: 'Diese Person löschen',
+    deleteConfirm: (name: string) => `${name} löschen? Die Berichte bleiben ohne Profil auf diesem Gerät.`,
+    age: (n: number) => ` · ${n}`,
+    belongsTo: 'Gehört zu',
+    unassigned: 'Noch niemand',
+    suggestion: (printed: string, profile: string) => `Ausgestellt für ${printed}: zu ${profile} verschieben`,
+    createFrom: (name: string) => `${name} als Person hinzufügen`
+  },
+  myReports: {
+    title: 'Meine Befunde',
+    savedOnDevice: 'Auf diesem Gerät gespeichert',
+    reportCount: (n: number) => `${n} Befunde`,
+    deleteConfirm: (title: string) => `"${title}" von diesem Gerät löschen?`,
+    compare: 'Mit dem aktuellen Upload vergleichen'
+  },
+  dashboard: {
+    noticeTitle: 'HINWEIS ZUR MEDIZINISCHEN INTERPRETATION',
+    notice: ['LabLens ist ein Übersetzungswerkzeug, das Ihnen hilft, Ihre Befunde zu verstehen. Dies ist ', 'keine', ' medizinische Beratung oder Diagnose. Sprechen Sie immer mit Ihrer Ärztin oder Ihrem Arzt über diese Ergebnisse.'],
+    healthEvolution: 'Gesundheitsverlauf: ',
+    clinicalSummary: 'Klinische Zusammenfassung: ',
+    patientRecord: 'Patientenakte',
+    reportDate: 'Befunddatum',
+    source: 'Quelle',
+    verdict: 'Fazit',
+    clinicalOverview: 'Klinischer Überblick',
+    vitalInsights: 'Wichtige Erkenntnisse',
+    successAreas: 'Was Gut Läuft',
+    nextGoals: 'Nächste Ziele',
+    markerEvolution: 'Verlauf der Werte',
+    vitalMetrics: 'Wichtige Werte',
+    markerCount: (n: number) => `${n} Werte`,
+    correctedNotice: (n: number) => n === 1
+      ? 'Wir haben jedes Ergebnis mit seinem gedruckten Referenzbereich abgeglichen. 1 Status wurde an die Zahlen angepasst und ist unten markiert.'
+      : `Wir haben jedes Ergebnis mit seinem gedruckten Referenzbereich abgeglichen. ${n} Status wurden an die Zahlen angepasst und sind unten markiert.`,
+    unmappedNotice: (n: number, names: string) => n === 1
+      ? `1 Ergebnis ist noch nicht in unserem Werte-Katalog und passt daher eventuell nicht zu anderen Befunden: ${names}.`
+      : `${n} Ergebnisse sind noch nicht in unserem Werte-Katalog und passen daher eventuell nicht zu anderen Befunden: ${names}.`,
+    latest: 'Aktuell',
+    dailyHabits: 'Tägliche Gewohnheiten',
+    foodDiet: 'Essen & Ernährung',
+    restRecovery: 'Ruhe & Erholung',
+    bodyMovement: 'Bewegung',
+    prepVisit: 'Arztbesuch Vorbereiten',
+    whyHelps: 'Warum das hilft',
+    pdfFailed: 'PDF konnte nicht erstellt werden.',
+    pdfPrintInstead: 'Hindi-Text kann im heruntergeladenen PDF noch nicht richtig gesetzt werden. Stattdessen öffnet sich der Druckdialog: Wählen Sie dort „Als PDF speichern“.',
+    userCorrectedNotice: 'Sie haben Werte in diesem Bericht korrigiert. Die Status wurden aus Ihren Zahlen und den gedruckten Bereichen neu berechnet.',
+    cachedNotice: 'Diese Dateien wurden schon einmal gelesen. Damit Ihre Zahlen gleich bleiben, wird das gespeicherte Ergebnis angezeigt.',
+    criticalTitle: 'Kontaktieren Sie umgehend Ihre Ärztin oder Ihren Arzt',
+    criticalBody: 'Diese Werte liegen jenseits der Grenzen, die Labore als dringend abklärungsbedürftig ansehen. Bitte rufen Sie noch heute Ihre Praxis an oder suchen Sie sofort Hilfe, wenn Sie sich unwohl fühlen. Diese Prüfung beruht nur auf den Zahlen, nicht auf der KI-Zusammenfassung.',
+    criticalItem: (name: string, value: number, unit: string, direction: 'high' | 'low', threshold: number) =>
+      `${name}: ${value} ${unit} (${direction === 'high' ? 'mindestens' : 'höchstens'} ${threshold} ${unit})`,
+    units: { reported: 'Wie Gedruckt', conventional: 'US', si: 'SI' }
+  },
+  pdf: {
+    documentTitle: (patient: string) => `LabLens-Befund für ${patient}`,
+    doctor: 'Arzt',
+    age: 'Alter',
+    sex: 'Geschlecht',
+    verdict: 'Fazit',
+    bottomLine: 'Das Wichtigste',
+    goingWell: 'Läuft gut',
+    keepAnEye: 'Im Blick behalten',
+    range: 'Bereich',
+    notPrinted: 'nicht angegeben',
+    earlier: 'Früher',
+    doctorQuestions: 'Fragen an meine Ärztin oder meinen Arzt'
+  },
+  card: {
+    optimal: 'Optimal',
+    aboveRange: 'Über dem Bereich',
+    belowRange: 'Unter dem Bereich',
+    notChecked: 'Nicht Geprüft',
+    rangeChecked: 'Bereich Geprüft',
+    critical: 'Arzt Kontaktieren',
+    viewSource: 'Im Originalbericht zeigen',
+    userCorrected: 'Von Ihnen Korrigiert',
+    rangeCheckedTitle: (status: string) => `Ursprünglich als ${status} angegeben; an den Referenzbereich angepasst`,
+    ref: 'Ref',
+    increase: 'Anstieg',
+    decrease: 'Rückgang',
+    analogy: 'Einfacher Vergleich',
+    closeDetail: 'Details Schließen',
+    readMore: 'Mehr Lesen',
+    explainMechanism: 'Genauer Erklären'
+  },
+  results: {
+    title: 'Alle Ergebnisse',
+    search: 'Tests suchen',
+    test: 'Test',
+    result: 'Ergebnis',
+    unit: 'Einheit',
+    referenceRange: 'Referenzbereich',
+    status: 'Status',
+    noMatches: 'Keine Ergebnisse passen zu Ihren Filtern.',
+    filters: { all: 'Alle', high: 'Hoch', low: 'Niedrig', normal: 'Normal' }
+  },
+  editor: {
+    edit: 'Werte Bearbeiten',
+    title: 'Werte Korrigieren',
+    intro: 'Korrigieren Sie falsch gelesene Werte. Status, Trends, Diagramme und der Assistent aktualisieren sich beim Speichern.',
+    name: 'Marker',
+    value: 'Wert',
+    unit: 'Einheit',
+    range: 'Referenzbereich',
+    newMarker: 'Fehlenden Marker hinzufügen',
+    save: 'Speichern',
+    add: 'Hinzufügen',
+    remove: 'Entfernen',
+    removeConfirm: (name: string) => `${name} aus diesem Bericht entfernen?`,
+    done: 'Fertig'
+  },
+  source: {
+    title: 'Originalbericht',
+    pageOf: (page: number, total: number) => `Seite ${page} von ${total}`,
+    previousPage: 'Vorherige Seite',
+    nextPage: 'Nächste Seite',
+    close: 'Schließen',
+    printedAs: (page: number) => `Auf Seite ${page} gedruckt als`,
+    noRegion: 'Die genaue Stelle auf der Seite wurde nicht erfasst.',
+    noLocation: 'Diese Analyse hat nicht erfasst, wo der Wert gedruckt war.',
+    unavailable: 'Die Originaldatei konnte nicht angezeigt werden.'
+  },
+  chat: {
+    title: 'Labor-Assistent',
+    subtitle: 'Freundliche Pflege-KI',
+    placeholder: 'Fragen Sie zu Ihren Ergebnissen...',
+    fallbackName: '',
+    finishedReading: 'Ich habe Ihre Ergebnisse gelesen.',
+    criticalGreeting: (names: string[]) => names.length === 1
+      ? `Vorab das Wichtigste: Ihr Wert für ${names[0]} liegt jenseits der Grenze, bei der Labore eine rasche Abklärung empfehlen. Bitte kontaktieren Sie umgehend, am besten noch heute, Ihre Ärztin oder Ihren Arzt.`
+      : `Vorab das Wichtigste: Ihre Werte für ${names.join(' und ')} liegen jenseits der Grenzen, bei denen Labore eine rasche Abklärung empfehlen. Bitte kontaktieren Sie umgehend, am besten noch heute, Ihre Ärztin oder Ihren Arzt.`,
+    greeting: (name: string, verdict: string) => `Hallo${name ? ` ${name}` : ''}, ich habe Ihre Ergebnisse gelesen. ${verdict} Womit möchten Sie anfangen?`,
+    connectionError: 'Ich habe Verbindungsprobleme. Bitte versuchen Sie es erneut.',
+    you: 'Sie',
+    transcriptTitle: 'Chat-Verlauf',
+    exportMarkdown: 'Chat als Markdown herunterladen',
+    exportText: 'Chat als Text herunterladen',
+    includeInPdf: 'Chat zum PDF-Bericht hinzufügen',
+    showOnReport: 'Im Bericht zeigen'
+  }
+};
+
+export const MESSAGES: Record<Language, Messages> = { en, es, hi, de };
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { buildPrivacyMap, detectIdentifiers, maskText, restoreIdentifiers, restoreText, withIdentifierPlaceholders } from "./privacy";
+import { AnalysisResult } from "./types";
+
+const values = (line: string) => detectIdentifiers(line).map(({ kind, value }) => [kind, value]);
+
+describe('detectIdentifiers', () => {
+  it('finds the patient name after a bare Name label', () => {
+    expect(values('Name: Ramesh Kumar')).toEqual([['PATIENT_NAME', 'Ramesh Kumar']]);
+  });
+
+  it('finds the patient name after patient-specific labels', () => {
+    expect(values('Patient Name : Anita Sharma')).toEqual([['PATIENT_NAME', 'Anita Sharma']]);
+    expect(values("Patient's Name- Anita Sharma")).toEqual([['PATIENT_NAME', 'Anita Sharma']]);
+    expect(values('Pt. Name: Anita Sharma')).toEqual([['PATIENT_NAME', 'Anita Sharma']]);
+  });
+
+  it('does not treat a test column heading as the patient name', () => {
+    expect(values('Test Name: Hemoglobin A1c')).toEqual([]);
+    expect(values('Investigation Name: Lipid Profile')).toEqual([]);
+  });
+
+  it('stops the value at the next field on the line', () => {
+    expect(values('Name: Ramesh Kumar   Age: 52 Y   Sex: M')).toEqual([['PATIENT_NAME', 'Ramesh Kumar']]);
+    expect(values('Name: Ramesh Kumar Age: 52')).toEqual([['PATIENT_NAME', 'Ramesh Kumar']]);
+  });
+
+  it('finds IDs, dates of birth, phone numbers, emails and doctors', () => {
+    expect(values('Lab ID: LAB-20931   DOB: 12/04/1972')).toEqual([['LAB_ID', 'LAB-20931'], ['DATE_OF_BIRTH', '12/04/1972']]);
+    expect(values('Mobile No: +91 98765 43210')).toEqual([['PHONE', '+91 98765 43210']]);
+    expect(values('Report sent to ramesh.k@example.com')).toEqual([['EMAIL', 'ramesh.k@example.com']]);
+    expect(values('Ref. By: Dr. Meera Iyer')).toEqual([['DOCTOR_NAME', 'Dr. Meera Iyer']]);
+    expect(values('Verified by Dr. Meera Iyer')).toEqual([['DOCTOR_NAME', 'Dr. Meera Iyer']]);
+  });
+
+  it('gives character offsets within the line', () => {
+    const [found] = detectIdentifiers('Name: Ramesh Kumar');
+    expect('Name: Ramesh Kumar'.slice(found.start, found.end)).toBe('Ramesh Kumar');
+  });
+});
+
+describe('buildPrivacyMap', () => {
+  it('gives each distinct value its own placeholder', () => {
+    const map = buildPrivacyMap([
+      ...detectIdentifiers('Name: Ramesh Kumar'),
+      ...detectIdentifiers('Patient: RAMESH KUMAR'),
+      ...detectIdentifiers('Ref. By: Dr. Meera Iyer'),
+      ...detectIdentifiers('Consultant: Dr. Arjun Rao')
+    ]);
+    expect(map).toEqual({
+      '[PATIENT_NAME]': 'Ramesh Kumar',
+      '[DOCTOR_NAME]': 'Dr. Meera Iyer',
+      '[DOCTOR_NAME_2]': 'Dr. Arjun Rao'
+    });
+  });
+
+  it('keeps the placeholders already given out', () => {
+    const map = buildPrivacyMap(detectIdentifiers('Name: Sunita Rao'), { '[PATIENT_NAME]': 'Ramesh Kumar' });
+    expect(map).toEqual({ '[PATIENT_NAME]': 'Ramesh Kumar', '[PATIENT_NAME_2]': 'Sunita Rao' });
+  });
+});
+
+describe('maskText', () => {
+  const map = { '[PATIENT_NAME]': 'Ramesh Kumar', '[LAB_ID]': 'LAB-20931' };
+
+  it('replaces whole values and the parts of names, whatever the case', () => {
+    expect(maskText('Is ramesh kumar OK? Ramesh asked about LAB-20931.', map))
+      .toBe('Is [PATIENT_NAME] OK? [PATIENT_NAME] asked about [LAB_ID].');
+  });
+
+  it('leaves words that only contain a name part alone', () => {
+    expect(maskText('Kumaran has no results', map)).toBe('Kumaran has no results');
+  });
+});
+
+describe('restoring identifiers', () => {
+  const map = { '[PATIENT_NAME]': 'Ramesh "Ram" Kumar', '[DOCTOR_NAME]': 'Dr. Meera Iyer' };
+
+  it('puts real values back into text', () => {
+    expect(restoreText('Hello [PATIENT_NAME]', map)).toBe('Hello Ramesh "Ram" Kumar');
+  });
+
+  it('puts real values back into every field of an analysis, even with quotes in them', () => {
+    const masked = withIdentifierPlaceholders({
+      patientName: '', summary: 'Results for [PATIENT_NAME]', biomarkers: []
+    } as unknown as AnalysisResult, map);
+    expect(restoreIdentifiers(masked, map)).toMatchObject({
+      patientName: 'Ramesh "Ram" Kumar',
+      doctorName: 'Dr. Meera Iyer',
+      summary: 'Results for Ramesh "Ram" Kumar'
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { AnalysisResult, PrivacyMap } from "./types";
+
+export type IdentifierKind = 'PATIENT_NAME' | 'DOCTOR_NAME' | 'LAB_ID' | 'DATE_OF_BIRTH' | 'PHONE' | 'EMAIL';
+
+export interface DetectedIdentifier {
+  kind: IdentifierKind;
+  value: string;
+  start: number; // Character offsets within the scanned line
+  end: number;
+}
+
+// Labels whose value runs to the next field on the same line
+const LABELLED: { kind: IdentifierKind, label: RegExp }[] = [
+  { kind: 'LAB_ID', label: /\b(?:lab\s*(?:id|no)|sample\s*(?:id|no)|patient\s*id|mrn|uhid|reg(?:istration)?\.?\s*(?:no|id)|accession\s*(?:no|#)?|barcode)\.?\s*[:#-]\s*/gi },
+  { kind: 'DOCTOR_NAME', label: /\b(?:ref(?:erred)?\.?\s*by|referring\s+(?:doctor|physician)|consultant|(?:doctor|physician)(?:'s)?(?:\s*name)?)\s*[:-]\s*/gi },
+  // "Name:" also heads test columns ("Test Name: Hemoglobin A1c"), so it is skipped after those words
+  { kind: 'PATIENT_NAME', label: /(?<!\b(?:test|investigation|parameter)\s*)\b(?:patient(?:'s)?\s*name|name\s+of\s+(?:the\s+)?patient|pt\.?\s*name|patient|name)\s*[:-]\s*/gi },
+  { kind: 'DATE_OF_BIRTH', label: /\b(?:dob|d\.o\.b\.?|date\s+of\s+birth)\s*[:-]\s*/gi },
+  { kind: 'PHONE', label: /\b(?:phone|mobile|tel|contact)\s*(?:no)?\.?\s*[:-]\s*/gi }
+];
+
+const NEXT_FIELD = /\s{2,}|\s\|\s|\b(?:age|sex|gender|dob|date|ref|collected|received|reported|sample|reg|lab|mrn|uhid|phone|mobile|tel)\b\s*[.:#-]/i;
+const UNLABELLED: { kind: IdentifierKind, pattern: RegExp }[] = [
+  { kind: 'EMAIL', pattern: /[\w.+-]+@[\w-]+\.[\w.]+/g },
+  { kind: 'DOCTOR_NAME', pattern: /\bDr\.?\s+[A-Z][A-Za-z'-]+(?:\s+[A-Z][A-Za-z.'-]*){0,3}/g }
+];
+
+// Finds personal identifiers in one line of report text.
+export const detectIdentifiers = (line: string): DetectedIdentifier[] => {
+  const found: DetectedIdentifier[] = [];
+  const overlaps = (start: number, end: number) => found.some(f => start < f.end && end > f.start);
+
+  for (const { kind, label } of LABELLED) {
+    for (const match of line.matchAll(label)) {
+      const start = match.index! + match[0].length;
+      const rest = line.slice(start);
+      // Searched from the second character: a value can itself start like a label ("LAB-20931")
+      const stop = rest.slice(1).search(NEXT_FIELD) + 1;
+      const value = rest.slice(0, stop > 0 ? stop : rest.length).trim().replace(/[,;]$/, '');
+      if (value.length < 2 || overlaps(start, start + value.length)) continue;
+      found.push({ kind, value, start, end: start + value.length });
+    }
+  }
+  for (const { kind, pattern } of UNLABELLED) {
+    for (const match of line.matchAll(pattern)) {
+      const start = match.index!;
+      if (overlaps(start, start + match[0].length)) continue;
+      found.push({ kind, value: match[0], start, end: start + match[0].length });
+    }
+  }
+  return found;
+};
+
+// Assigns a stable placeholder such as [PATIENT_NAME] or [PHONE_2] to each distinct value.
+export const buildPrivacyMap = (identifiers: DetectedIdentifier[], existing: PrivacyMap = {}): PrivacyMap => {
+  const map = { ...existing };
+  for (const { kind, value } of identifiers) {
+    const normalized = value.toLowerCase();
+    if (Object.values(map).some(v => v.toLowerCase() === normalized)) continue;
+    let placeholder = `[${kind}]`;
+    for (let n = 2; map[placeholder]; n++) placeholder = `[${kind}_${n}]`;
+    map[placeholder] = value;
+  }
+  return map;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Puts the real values back in place of placeholders, for display on this device only.
+export const restoreText = (text: string, map: PrivacyMap): string =>
+  Object.entries(map).reduce((acc, [placeholder, value]) => acc.split(placeholder).join(value), text);
+
+export const restoreIdentifiers = <T>(data: T, map: PrivacyMap): T =>
+  JSON.parse(Object.entries(map).reduce(
+    (acc, [placeholder, value]) => acc.split(placeholder).join(JSON.stringify(value).slice(1, -1)),
+    JSON.stringify(data)
+  ));
+
+// Replaces known identifiers (and the individual parts of names) with placeholders before text leaves the browser.
+export const maskText = (text: string, map: PrivacyMap): string => {
+  const replacements = Object.entries(map).flatMap(([placeholder, value]) => {
+    const parts = placeholder.includes('NAME') ? value.split(/\s+/).filter(p => p.replace(/\W/g, '').length > 2) : [];
+    return [[value, placeholder], ...parts.map(p => [p, placeholder])];
+  }).sort((a, b) => b[0].length - a[0].length);
+
+  return replacements.reduce(
+    (acc, [value, placeholder]) => acc.replace(new RegExp(`(?<!\\w)${escapeRegExp(value)}(?!\\w)`, 'gi'), placeholder),
+    text
+  );
+};
+
+// The first placeholder of a kind, if that identifier was found
+export const placeholderFor = (map: PrivacyMap, kind: IdentifierKind): string | undefined =>
+  map[`[${kind}]`] ? `[${kind}]` : undefined;
+
+// Fills the report's identity fields with placeholders so the chat can refer to them without seeing them.
+export const withIdentifierPlaceholders = (analysis: AnalysisResult, map: PrivacyMap): AnalysisResult => ({
+  ...analysis,
+  patientName: placeholderFor(map, 'PATIENT_NAME') ?? analysis.patientName,
+  doctorName: placeholderFor(map, 'DOCTOR_NAME') ?? analysis.doctorName,
+  labId: placeholderFor(map, 'LAB_ID') ?? analysis.labId
+});
@@ -0,0 +1,36 @@
+import { AnalysisResult, Profile } from "./types";
+import { namesMatch, sexOf } from "./reportChecks";
+
+// Whole years on the given day, or undefined without a usable birth date.
+export const profileAge = (profile: Profile, on = new Date()): number | undefined => {
+  const birth = profile.birthDate && /^\d{4}-\d{2}-\d{2}$/.test(profile.birthDate) ? new Date(`${profile.birthDate}T00:00:00`) : null;
+  if (!birth || Number.isNaN(birth.getTime())) return undefined;
+  const hadBirthday = on.getMonth() > birth.getMonth() || (on.getMonth() === birth.getMonth() && on.getDate() >= birth.getDate());
+  const age = on.getFullYear() - birth.getFullYear() - (hadBirthday ? 0 : 1);
+  return age >= 0 ? age : undefined;
+};
+
+// The profile a report's printed patient most likely is. Needs a printed name; a printed sex that
+// contradicts the profile rules it out. An exact name beats a looser match such as initials.
+export const suggestProfile = (profiles: Profile[], patientName?: string, gender?: string): Profile | null => {
+  const name = patientName?.trim();
+  if (!name) return null;
+  const sex = sexOf(gender);
+  const candidates = profiles.filter(p =>
+    p.name.trim() && namesMatch(p.name, name) && !(sex && p.sex && p.sex !== 'other' && p.sex !== sex)
+  );
+  const exact = candidates.find(p => p.name.trim().toLowerCase() === name.toLowerCase());
+  return exact ?? (candidates.length === 1 ? candidates[0] : null);
+};
+
+// Fills in age and sex the report didn't print, so the assistant knows whose results it is discussing
+// (a child's and an adult's ranges differ). The profile's name is never added.
+export const withProfileDetails = (analysis: AnalysisResult, profile: Profile | null | undefined): AnalysisResult => {
+  if (!profile) return analysis;
+  const age = profileAge(profile);
+  return {
+    ...analysis,
+    ...(!analysis.age && age !== undefined ? { age: String(age) } : {}),
+    ...(!analysis.gender && profile.sex && profile.sex !== 'other' ? { gender: profile.sex === 'female' ? 'Female' : 'Male' } : {})
+  };
+};
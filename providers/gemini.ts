@@ -0,0 +1,58 @@
+import { FunctionCall, GoogleGenAI, Part } from "@google/genai";
+import { MAX_TOOL_ROUNDS, ModelProvider } from "./types";
+import { AnalysisError } from "../analysisErrors";
+
+const BLOCKED = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
+
+export const createGeminiProvider = (apiKey: string | undefined, model: string): ModelProvider => {
+  let client: GoogleGenAI | null = null;
+  const ai = () => (client ??= new GoogleGenAI({ apiKey }));
+
+  return {
+    id: 'gemini',
+    model,
+    generateJson: async ({ systemInstruction, parts, responseSchema, signal }) => {
+      const response = await ai().models.generateContent({
+        model,
+        contents: { parts },
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema,
+          ...(signal ? { abortSignal: signal } : {})
+        }
+      });
+      const blockReason = response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason;
+      if (blockReason && BLOCKED.has(blockReason)) {
+        throw new AnalysisError('safety', `The model declined to read this report (${blockReason}).`);
+      }
+      return response.text || '{}';
+    },
+    streamChat: async function* ({ systemInstruction, history, message, tools, callTool, signal }) {
+      const chat = ai().chats.create({
+        model,
+        history: history.map(m => ({ role: m.role, parts: [{ text: m.content }] })),
+        config: {
+          systemInstruction,
+          ...(tools?.length ? { tools: [{ functionDeclarations: tools }] } : {}),
+          ...(signal ? { abortSignal: signal } : {})
+        }
+      });
+      let next: string | Part[] = message;
+      for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        const stream = await chat.sendMessageStream({ message: next });
+        const calls: FunctionCall[] = [];
+        for await (const chunk of stream) {
+          calls.push(...(chunk.functionCalls || []));
+          // chunk.text logs a warning whenever a chunk also carries a function call
+          const text = chunk.candidates?.[0]?.content?.parts?.filter(part => !part.thought).map(part => part.text || '').join('');
+          if (text) yield text;
+        }
+        if (!calls.length || !callTool) return;
+        next = calls.map(call => ({
+          functionResponse: { id: call.id, name: call.name, response: { result: callTool(call.name || '', call.args || {}) } }
+        }));
+      }
+    }
+  };
+};
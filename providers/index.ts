@@ -0,0 +1,31 @@
+import { ModelProvider } from "./types";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { createMockProvider } from "./mock";
+
+export type { ModelProvider, ContentPart, ChatTurn, AnalysisRequest, ChatRequest, ChatTool } from "./types";
+export { ProviderError } from "./types";
+
+const createProvider = (): ModelProvider => {
+  switch (process.env.LLM_PROVIDER) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAICompatibleProvider(
+        process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        process.env.LLM_MODEL || 'llava',
+        process.env.LLM_API_KEY
+      );
+    default:
+      return createGeminiProvider(process.env.GEMINI_API_KEY, process.env.LLM_MODEL || 'gemini-3-flash-preview');
+  }
+};
+
+let activeProvider: ModelProvider | null = null;
+
+export const getProvider = (): ModelProvider => (activeProvider ??= createProvider());
+
+// Lets tests and demos swap the provider at runtime
+export const setProvider = (provider: ModelProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,41 @@
+import { ModelProvider } from "./types";
+import { MOCK_ANALYSIS } from "./mockFixtures";
+
+// Deterministic, offline provider for development, demos and tests.
+export const createMockProvider = (): ModelProvider => ({
+  id: 'mock',
+  model: 'mock-fixture',
+  generateJson: async ({ parts, responseSchema, signal }) => {
+    signal?.throwIfAborted();
+    // The pre-analysis check: every upload is the demo patient's lab report, each a year older than the one before.
+    if (responseSchema.properties?.documents) {
+      const reports = parts.filter(p => 'text' in p && p.text.startsWith('REPORT ')).length;
+      return JSON.stringify({
+        documents: Array.from({ length: reports }, (_, idx) => ({
+          index: idx + 1,
+          isLabReport: true,
+          documentType: 'blood test report',
+          patientName: MOCK_ANALYSIS.patientName,
+          gender: MOCK_ANALYSIS.gender,
+          collectionDate: `${2025 - idx}-03-14`
+        }))
+      });
+    }
+    const hasPastReports = parts.some(p => 'text' in p && p.text.startsWith('PREVIOUS REPORT'));
+    const analysis = hasPastReports
+      ? MOCK_ANALYSIS
+      : { ...MOCK_ANALYSIS, biomarkers: MOCK_ANALYSIS.biomarkers.map(({ history, ...b }) => b) };
+    return JSON.stringify(analysis);
+  },
+  // Calls the out-of-range tool when the server offers it, so citations can be tried offline.
+  streamChat: async function* ({ message, callTool, signal }) {
+    const found = callTool?.('list_out_of_range_markers', {}) as { markers?: { name: string, cite?: string }[] } | undefined;
+    const cited = (found?.markers || []).filter(m => m.cite).map(m => `[${m.name}](#${m.cite})`);
+    const focus = cited.length ? `${cited.join(', ')} ${cited.length === 1 ? 'is' : 'are'} the main area` : 'blood sugar is the main area';
+    const reply = `This is a demo reply to: ${message.trim()} In the demo report, most results are in range and ${focus} to talk about with your doctor.`;
+    for (const word of reply.split(/(?<= )/)) {
+      signal?.throwIfAborted();
+      yield word;
+    }
+  }
+});
@@ -0,0 +1,76 @@
+import { AnalysisResult, HealthStatus } from "../types";
+
+export const MOCK_ANALYSIS: AnalysisResult = {
+  patientName: 'Alex Rivera',
+  age: '46',
+  gender: 'Male',
+  collectionDate: '2025-03-14',
+  labId: 'LL-000123',
+  hospitalName: 'Demo Community Lab',
+  doctorName: 'Dr. Sam Patel',
+  summary: 'Steady Heart, Sugar to Watch',
+  bottomLine: {
+    main: 'Most of your results sit comfortably in range, with blood sugar as the one area to keep an eye on.',
+    good: ['Your good cholesterol is in a great place', 'Your kidney numbers look healthy and steady'],
+    watch: ['Your average blood sugar is a little above the target range']
+  },
+  allMarkers: [
+    { name: 'HbA1c', value: '6.1', unit: '%', range: '4.0 - 5.6' },
+    { name: 'Fasting Glucose', value: '108', unit: 'mg/dL', range: '70 - 99' },
+    { name: 'Total Cholesterol', value: '182', unit: 'mg/dL', range: '< 200' },
+    { name: 'HDL Cholesterol', value: '58', unit: 'mg/dL', range: '> 40' },
+    { name: 'LDL Cholesterol', value: '104', unit: 'mg/dL', range: '< 100' },
+    { name: 'Triglycerides', value: '98', unit: 'mg/dL', range: '< 150' },
+    { name: 'Creatinine', value: '0.9', unit: 'mg/dL', range: '0.7 - 1.3' },
+    { name: 'eGFR', value: '> 90', unit: 'mL/min/1.73m²', range: '> 60' },
+    { name: 'Hemoglobin', value: '14.6', unit: 'g/dL', range: 'M: 13.5 - 17.5; F: 12.0 - 15.5' },
+    { name: 'Urine Glucose', value: 'Negative', range: 'Negative' }
+  ],
+  executiveSummary: 'Your heart health results look fantastic and show great progress. For your next goal, let us focus on bringing your blood sugar into a more comfortable range.',
+  biomarkers: [
+    {
+      name: 'HbA1c',
+      currentValue: 6.1,
+      history: [{ date: '2024-03-10', value: 5.8 }, { date: '2024-09-12', value: 6.0 }],
+      unit: '%',
+      status: HealthStatus.HIGH,
+      range: '4.0 - 5.6',
+      analogy: 'Think of this as a three month average of how much sugar has been riding around in your blood.',
+      explanation: 'This number shows your average blood sugar over the last few months. Yours is a little above the target range.',
+      // No box: the demo can't know where values sit on whatever file was uploaded
+      source: { page: 1, text: 'HbA1c (Glycated Hemoglobin)   6.1   %   4.0 - 5.6' }
+    },
+    {
+      name: 'HDL Cholesterol',
+      currentValue: 58,
+      history: [{ date: '2024-03-10', value: 49 }, { date: '2024-09-12', value: 54 }],
+      unit: 'mg/dL',
+      status: HealthStatus.NORMAL,
+      range: '> 40',
+      analogy: 'HDL is like a cleanup crew that carries extra fat away from your blood vessels.',
+      explanation: 'Higher is better here, and your number keeps climbing in the right direction.',
+      source: { page: 1, text: 'HDL Cholesterol   58   mg/dL   > 40' }
+    },
+    {
+      name: 'Creatinine',
+      currentValue: 0.9,
+      history: [{ date: '2024-03-10', value: 0.9 }, { date: '2024-09-12', value: 1.0 }],
+      unit: 'mg/dL',
+      status: HealthStatus.NORMAL,
+      range: '0.7 - 1.3',
+      analogy: 'This is like checking how well the filters in your body are keeping the water clean.',
+      explanation: 'Your kidneys are filtering well and this number is right where it should be.',
+      source: { page: 1, text: 'Creatinine, Serum   0.9   mg/dL   0.7 - 1.3' }
+    }
+  ],
+  lifestyle: {
+    diet: 'Try swapping sugary drinks for water and adding a vegetable to lunch and dinner.',
+    sleep: 'Aim for seven to eight hours so your body can keep blood sugar steady.',
+    exercise: 'A brisk twenty minute walk after meals helps your body use sugar.'
+  },
+  doctorQuestions: [
+    { question: 'Since my sugar is a bit high, what food changes would you like me to try first?', why: 'To help me make the most effective changes right away.' },
+    { question: 'When should I recheck my blood sugar average?', why: 'So I know when to expect to see progress.' },
+    { question: 'Is my good cholesterol high enough that I can keep my current routine?', why: 'To know what is already working for me.' }
+  ]
+};
@@ -0,0 +1,173 @@
+import { Schema } from "@google/genai";
+import { ChatTool, ContentPart, MAX_TOOL_ROUNDS, ModelProvider, ProviderError } from "./types";
+import { AnalysisError } from "../analysisErrors";
+
+// Gemini schemas use upper-case type names; OpenAI-style endpoints expect plain JSON Schema.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = String(schema.type).toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.required) out.required = schema.required;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return out;
+};
+
+const toMessageContent = (parts: ContentPart[]) => parts.map(part => {
+  if ('text' in part) return { type: 'text', text: part.text };
+  if (!part.inlineData.mimeType.startsWith('image/')) {
+    throw new AnalysisError('unreadable', `The local model endpoint cannot read ${part.inlineData.mimeType} files. Upload an image instead.`);
+  }
+  return { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+});
+
+const toToolDefinition = (tool: ChatTool) => ({
+  type: 'function',
+  function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool.parameters) }
+});
+
+interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+// A piece of one tool call; name and arguments are split across events and joined by index
+interface ToolCallFragment {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const optionalText = (v: unknown) => typeof v === 'string' ? v : undefined;
+
+// Reads the first choice's delta out of a stream event; anything malformed counts as empty.
+const streamDelta = (event: unknown): { content?: string, toolCalls: ToolCallFragment[] } => {
+  const choice = isRecord(event) && Array.isArray(event.choices) ? event.choices[0] : undefined;
+  const delta = isRecord(choice) && isRecord(choice.delta) ? choice.delta : {};
+  const fragments = Array.isArray(delta.tool_calls) ? delta.tool_calls.filter(isRecord) : [];
+  return {
+    content: optionalText(delta.content),
+    toolCalls: fragments.map(fragment => {
+      const fn = isRecord(fragment.function) ? fragment.function : {};
+      return {
+        index: typeof fragment.index === 'number' ? fragment.index : 0,
+        id: optionalText(fragment.id),
+        name: optionalText(fn.name),
+        arguments: optionalText(fn.arguments)
+      };
+    })
+  };
+};
+
+// Yields each parsed server-sent event from a streaming chat completion
+async function* readStream(body: ReadableStream<Uint8Array>): AsyncIterable<unknown> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data) continue;
+      if (data === '[DONE]') return;
+      yield JSON.parse(data);
+    }
+  }
+}
+
+const parseArguments = (text: string): Record<string, unknown> => {
+  try {
+    return JSON.parse(text || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const createOpenAICompatibleProvider = (baseUrl: string, model: string, apiKey?: string): ModelProvider => {
+  const endpoint = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({ model, ...body })
+    });
+    if (!response.ok) {
+      throw new ProviderError(`Model endpoint returned ${response.status}: ${await response.text()}`, response.status);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai',
+    model,
+    generateJson: async ({ systemInstruction, parts, responseSchema, signal }) => {
+      const response = await post({
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: toMessageContent(parts) }
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'analysis', schema: toJsonSchema(responseSchema) }
+        }
+      }, signal);
+      const data = await response.json();
+      if (data.choices?.[0]?.finish_reason === 'content_filter') {
+        throw new AnalysisError('safety', 'The model endpoint filtered its answer.');
+      }
+      return data.choices?.[0]?.message?.content || '{}';
+    },
+    streamChat: async function* ({ systemInstruction, history, message, tools, callTool, signal }) {
+      const messages: Record<string, unknown>[] = [
+        { role: 'system', content: systemInstruction },
+        ...history.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.content })),
+        { role: 'user', content: message }
+      ];
+      for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        const response = await post({
+          stream: true,
+          messages,
+          ...(tools?.length ? { tools: tools.map(toToolDefinition) } : {})
+        }, signal);
+        if (!response.body) return;
+
+        // Tool calls arrive in fragments keyed by index; the arguments string is split across chunks.
+        const calls: ToolCall[] = [];
+        for await (const event of readStream(response.body)) {
+          const delta = streamDelta(event);
+          if (delta.content) yield delta.content;
+          for (const fragment of delta.toolCalls) {
+            const call = calls[fragment.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.name) call.function.name += fragment.name;
+            if (fragment.arguments) call.function.arguments += fragment.arguments;
+          }
+        }
+        if (!calls.length || !callTool) return;
+
+        messages.push({ role: 'assistant', content: null, tool_calls: calls });
+        calls.forEach(call => messages.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          content: JSON.stringify(callTool(call.function.name, parseArguments(call.function.arguments)) ?? null)
+        }));
+      }
+    }
+  };
+};
@@ -0,0 +1,57 @@
+import { Schema } from "@google/genai";
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  content: string;
+}
+
+export interface AnalysisRequest {
+  systemInstruction: string;
+  parts: ContentPart[];
+  responseSchema: Schema;
+  signal?: AbortSignal; // Aborts the model call on cancel or timeout
+}
+
+// A function the chat model may call; parameters use the same Schema as structured output.
+export interface ChatTool {
+  name: string;
+  description: string;
+  parameters: Schema;
+}
+
+export interface ChatRequest {
+  systemInstruction: string;
+  history: ChatTurn[];
+  message: string;
+  tools?: ChatTool[];
+  // Runs a tool call from the model; the result is sent back as JSON before the reply continues
+  callTool?: (name: string, args: Record<string, unknown>) => unknown;
+  signal?: AbortSignal; // Stops the reply when the browser disconnects
+}
+
+// Stops a model that keeps calling tools from looping forever
+export const MAX_TOOL_ROUNDS = 4;
+
+// Limits on what the browser may send as chat history; it sends only the most recent turns.
+export const MAX_CHAT_TURNS = 40;
+export const MAX_CHAT_TURN_CHARS = 8000;
+
+export interface ModelProvider {
+  id: string;
+  model: string;
+  // Resolves to the raw JSON text of the structured response
+  generateJson: (request: AnalysisRequest) => Promise<string>;
+  streamChat: (request: ChatRequest) => AsyncIterable<string>;
+}
+
+// An HTTP failure from a model endpoint, kept with its status so the server can tell a quota error from an outage.
+export class ProviderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
@@ -0,0 +1,144 @@
+import { createWorker, Worker } from 'tesseract.js';
+import { Util } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { loadPdf, renderPdfPage } from './pdfDocument';
+import { detectIdentifiers, DetectedIdentifier } from './privacy';
+import { FileData, FilePage } from './types';
+
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface TextToken {
+  text: string;
+  box: Box;
+}
+
+const PDF_SCALE = 2;
+const MASK_PADDING = 4;
+
+// English only: detectIdentifiers looks for English labels, and the landing page says so.
+let ocrWorker: Promise<Worker> | null = null;
+const getOcrWorker = () => (ocrWorker ??= createWorker('eng'));
+
+const loadImage = (page: FilePage): Promise<HTMLCanvasElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      canvas.getContext('2d')?.drawImage(img, 0, 0);
+      resolve(canvas);
+    };
+    img.onerror = () => reject(new Error(`Could not read ${page.name}`));
+    img.src = `data:${page.mimeType};base64,${page.base64}`;
+  });
+
+const ocrLines = async (canvas: HTMLCanvasElement): Promise<TextToken[][]> => {
+  const worker = await getOcrWorker();
+  const { data } = await worker.recognize(canvas, {}, { blocks: true });
+  return (data.blocks || []).flatMap(block => block.paragraphs.flatMap(p => p.lines.map(line =>
+    line.words.map(({ text, bbox }) => ({ text, box: { x: bbox.x0, y: bbox.y0, w: bbox.x1 - bbox.x0, h: bbox.y1 - bbox.y0 } }))
+  )));
+};
+
+// Splits each PDF text run into words with proportional boxes and groups runs that share a baseline.
+const pdfLines = (items: TextItem[], viewportTransform: number[]): TextToken[][] => {
+  const tokens = items.flatMap(item => {
+    const [, , c, d, e, f] = Util.transform(viewportTransform, item.transform);
+    const height = Math.hypot(c, d);
+    const charWidth = (item.width * PDF_SCALE) / Math.max(1, item.str.length);
+    return [...item.str.matchAll(/\S+/g)].map(m => ({
+      text: m[0],
+      box: { x: e + m.index! * charWidth, y: f - height, w: m[0].length * charWidth, h: height }
+    }));
+  });
+
+  const lines: TextToken[][] = [];
+  tokens.sort((a, b) => a.box.y - b.box.y || a.box.x - b.box.x).forEach(token => {
+    const line = lines.find(l => Math.abs(l[0].box.y - token.box.y) < token.box.h / 2);
+    if (line) line.push(token);
+    else lines.push([token]);
+  });
+  return lines.map(line => line.sort((a, b) => a.box.x - b.box.x));
+};
+
+// Joins a line into text, marking wide gaps (separate columns or fields) with extra spaces.
+const joinLine = (line: TextToken[]) => {
+  let text = '';
+  const spans = line.map((token, i) => {
+    if (i > 0) {
+      const prev = line[i - 1].box;
+      text += token.box.x - (prev.x + prev.w) > prev.h * 1.5 ? '   ' : ' ';
+    }
+    const start = text.length;
+    text += token.text;
+    return [start, text.length];
+  });
+  return { text, spans };
+};
+
+const maskLines = (canvas: HTMLCanvasElement, lines: TextToken[][]): DetectedIdentifier[] => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context failed');
+  ctx.fillStyle = '#000';
+
+  return lines.flatMap(line => {
+    const { text, spans } = joinLine(line);
+    const found = detectIdentifiers(text);
+    found.forEach(id => line.forEach(({ box }, i) => {
+      const [start, end] = spans[i];
+      if (start < id.end && end > id.start) {
+        ctx.fillRect(box.x - MASK_PADDING, box.y - MASK_PADDING, box.w + MASK_PADDING * 2, box.h + MASK_PADDING * 2);
+      }
+    }));
+    return found;
+  });
+};
+
+const toPage = (canvas: HTMLCanvasElement, name: string): FilePage => ({
+  base64: canvas.toDataURL('image/jpeg', 0.85).split(',')[1],
+  mimeType: 'image/jpeg',
+  name
+});
+
+const redactPdf = async (page: FilePage) => {
+  const pdf = await loadPdf(page.base64);
+  const pages: FilePage[] = [];
+  const identifiers: DetectedIdentifier[] = [];
+
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const pdfPage = await pdf.getPage(n);
+    const viewport = pdfPage.getViewport({ scale: PDF_SCALE });
+    const canvas = await renderPdfPage(pdfPage, PDF_SCALE);
+    const items = (await pdfPage.getTextContent()).items.filter((i): i is TextItem => 'str' in i && !!i.str.trim());
+    // Scanned PDFs have no text layer, so read the rendered page instead.
+    const lines = items.length ? pdfLines(items, viewport.transform) : await ocrLines(canvas);
+    identifiers.push(...maskLines(canvas, lines));
+    pages.push(toPage(canvas, `${page.name} (page ${n})`));
+  }
+  await pdf.destroy();
+  return { pages, identifiers };
+};
+
+const redactImage = async (page: FilePage) => {
+  const canvas = await loadImage(page);
+  const identifiers = maskLines(canvas, await ocrLines(canvas));
+  return { pages: [toPage(canvas, page.name)], identifiers };
+};
+
+// Masks personal identifiers in every page on this device. PDFs come back as one image per page.
+export const redactReport = async (file: FileData): Promise<{ file: FileData, identifiers: DetectedIdentifier[] }> => {
+  const results = [];
+  for (const page of file.pages) {
+    results.push(page.mimeType === 'application/pdf' ? await redactPdf(page) : await redactImage(page));
+  }
+  return {
+    file: { name: file.name, pages: results.flatMap(r => r.pages) },
+    identifiers: results.flatMap(r => r.identifiers)
+  };
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { crossCheckBiomarker, deriveStatus, normalizeDecimal, parseReferenceRange } from "./referenceRange";
+import { Biomarker, HealthStatus } from "./types";
+
+describe('parseReferenceRange', () => {
+  it('reads a between range', () => {
+    expect(parseReferenceRange('70 - 100')).toEqual({ low: 70, high: 100 });
+    expect(parseReferenceRange('3.5 to 5.1')).toEqual({ low: 3.5, high: 5.1 });
+    expect(parseReferenceRange('4.0–11.0')).toEqual({ low: 4, high: 11 });
+  });
+
+  it('reads decimal commas as European reports print them', () => {
+    expect(parseReferenceRange('6,1-7,2')).toEqual({ low: 6.1, high: 7.2 });
+    expect(parseReferenceRange('0,5 - 1,25')).toEqual({ low: 0.5, high: 1.25 });
+  });
+
+  it('reads grouped digits as one number', () => {
+    expect(parseReferenceRange('150,000 - 410,000')).toEqual({ low: 150000, high: 410000 });
+    expect(parseReferenceRange('1,50,000 - 4,50,000')).toEqual({ low: 150000, high: 450000 });
+  });
+
+  it('reads one-sided bounds and whether they include the limit', () => {
+    expect(parseReferenceRange('<5.7')).toEqual({ high: 5.7, highExclusive: true });
+    expect(parseReferenceRange('Up to 200')).toEqual({ high: 200, highExclusive: false });
+    expect(parseReferenceRange('≥ 40')).toEqual({ low: 40, lowExclusive: false });
+    expect(parseReferenceRange('< 0,5')).toEqual({ high: 0.5, highExclusive: true });
+  });
+
+  it('picks the segment for the patient sex', () => {
+    const range = 'M: 13.5-17.5; F: 12-15.5';
+    expect(parseReferenceRange(range, 'Male')).toEqual({ low: 13.5, high: 17.5 });
+    expect(parseReferenceRange(range, 'F')).toEqual({ low: 12, high: 15.5 });
+    expect(parseReferenceRange(range, 'Mujer')).toEqual({ low: 12, high: 15.5 });
+    expect(parseReferenceRange(range)).toBeNull();
+  });
+
+  it('returns null when there is no range', () => {
+    expect(parseReferenceRange('Negative')).toBeNull();
+    expect(parseReferenceRange(undefined)).toBeNull();
+  });
+});
+
+describe('normalizeDecimal', () => {
+  it('turns only a one or two digit decimal comma into a point', () => {
+    expect(normalizeDecimal('6,1')).toBe('6.1');
+    expect(normalizeDecimal('12,25')).toBe('12.25');
+    expect(normalizeDecimal('1,250')).toBe('1250');
+    expect(normalizeDecimal('5.6')).toBe('5.6');
+  });
+});
+
+describe('deriveStatus', () => {
+  it('compares the value with the bounds', () => {
+    expect(deriveStatus(6.5, { low: 6.1, high: 7.2 })).toBe(HealthStatus.NORMAL);
+    expect(deriveStatus(7.3, { low: 6.1, high: 7.2 })).toBe(HealthStatus.HIGH);
+    expect(deriveStatus(6, { low: 6.1, high: 7.2 })).toBe(HealthStatus.LOW);
+  });
+
+  it('treats an exclusive bound as out of range', () => {
+    expect(deriveStatus(5.7, { high: 5.7, highExclusive: true })).toBe(HealthStatus.HIGH);
+    expect(deriveStatus(200, { high: 200, highExclusive: false })).toBe(HealthStatus.NORMAL);
+  });
+
+  it('returns null without a range', () => {
+    expect(deriveStatus(5, null)).toBeNull();
+  });
+});
+
+describe('crossCheckBiomarker', () => {
+  const bio: Biomarker = {
+    name: 'Hemoglobin', currentValue: 6.5, unit: 'mmol/L', status: HealthStatus.HIGH,
+    range: '6,1-7,2', analogy: '', explanation: ''
+  };
+
+  it('replaces a status the range disagrees with and keeps the model answer', () => {
+    expect(crossCheckBiomarker(bio)).toMatchObject({ status: HealthStatus.NORMAL, modelStatus: HealthStatus.HIGH });
+  });
+
+  it('keeps the model status when the range cannot be read', () => {
+    const result = crossCheckBiomarker({ ...bio, range: 'see note' });
+    expect(result.status).toBe(HealthStatus.HIGH);
+    expect(result).not.toHaveProperty('modelStatus');
+  });
+});
@@ -0,0 +1,100 @@
+import { AnalysisResult, Biomarker, HealthStatus } from "./types";
+import { sexOf } from "./reportChecks";
+
+export interface ReferenceRange {
+  low?: number;
+  high?: number;
+  lowExclusive?: boolean; // ">40" excludes 40 itself
+  highExclusive?: boolean; // "<5.7" excludes 5.7 itself
+}
+
+const NUMBER = String.raw`(\d[\d,]*(?:\.\d+)?|\.\d+)`;
+const UPPER_WORDS = String.raw`<=|<|up to|less than|lower than|below|under|not more than|max(?:imum)?`;
+const LOWER_WORDS = String.raw`>=|>|more than|greater than|higher than|above|over|at least|min(?:imum)?`;
+const EXCLUSIVE_WORDS = new Set(['<', '>', 'less than', 'lower than', 'below', 'under', 'more than', 'greater than', 'higher than', 'above', 'over']);
+
+const FIRST_NUMBER = new RegExp(NUMBER);
+const BETWEEN = new RegExp(`${NUMBER}\\s*(?:-|to)\\s*${NUMBER}`);
+const UPPER = new RegExp(`^(?:${UPPER_WORDS})$`);
+const TRAILING_COMPARATOR = new RegExp(`(${UPPER_WORDS}|${LOWER_WORDS}):?$`);
+const SEX_LABEL = /\b(males?|men|m|females?|women|f)\b\s*[:=]?\s*/g;
+
+// "6,1" is a decimal comma, as European reports print it; "1,250" and "1,50,000" are digit grouping.
+export const normalizeDecimal = (text: string) =>
+  /^-?\d+,\d{1,2}$/.test(text) ? text.replace(',', '.') : text.replace(/,/g, '');
+
+const toNumber = (text: string) => parseFloat(normalizeDecimal(text));
+
+const normalize = (range: string) => range
+  .toLowerCase()
+  .replace(/[–—−]/g, '-')
+  .replace(/≤/g, '<=')
+  .replace(/≥/g, '>=');
+
+const isMale = (label: string) => /^(males?|men|m)$/.test(label);
+
+// Picks the part of a sex-specific range ("M: 13.5-17.5; F: 12-15.5") that applies to the patient.
+const selectSexSegment = (range: string, gender?: string): string | null => {
+  const labels = [...range.matchAll(SEX_LABEL)];
+  if (labels.length < 2) return range;
+
+  const sex = sexOf(gender);
+  if (!sex) return null;
+
+  for (let i = 0; i < labels.length; i++) {
+    if (isMale(labels[i][1]) !== (sex === 'male')) continue;
+    const start = labels[i].index! + labels[i][0].length;
+    const end = labels[i + 1]?.index ?? range.length;
+    return range.slice(start, end).replace(/[\s,;/|]+$/, '');
+  }
+  return null;
+};
+
+const parseSegment = (segment: string): ReferenceRange | null => {
+  const first = segment.match(FIRST_NUMBER);
+  if (!first) return null;
+
+  // A comparator before the first number ("<5.7", "Up to 200") makes it a one-sided bound.
+  const comparator = segment.slice(0, first.index).trim().match(TRAILING_COMPARATOR)?.[1];
+  if (comparator) {
+    const bound = toNumber(first[1]);
+    const exclusive = EXCLUSIVE_WORDS.has(comparator);
+    return UPPER.test(comparator)
+      ? { high: bound, highExclusive: exclusive }
+      : { low: bound, lowExclusive: exclusive };
+  }
+
+  const between = segment.match(BETWEEN);
+  if (!between) return null;
+  const [low, high] = [toNumber(between[1]), toNumber(between[2])].sort((a, b) => a - b);
+  return { low, high };
+};
+
+export const parseReferenceRange = (range: string | undefined, gender?: string): ReferenceRange | null => {
+  if (!range) return null;
+  const segment = selectSexSegment(normalize(range), gender);
+  return segment ? parseSegment(segment) : null;
+};
+
+export const deriveStatus = (value: number, range: ReferenceRange | null): HealthStatus | null => {
+  if (!range || !Number.isFinite(value)) return null;
+  const { low, high, lowExclusive, highExclusive } = range;
+  if (low !== undefined && (value < low || (lowExclusive && value === low))) return HealthStatus.LOW;
+  if (high !== undefined && (value > high || (highExclusive && value === high))) return HealthStatus.HIGH;
+  return HealthStatus.NORMAL;
+};
+
+// Recomputes a biomarker's status from its value and range. When the numbers disagree
+// with the model, the computed status wins and the model's answer is kept in modelStatus.
+export const crossCheckBiomarker = (bio: Biomarker, gender?: string): Biomarker => {
+  const { modelStatus, ...rest } = bio;
+  const originalStatus = modelStatus ?? bio.status;
+  const computed = deriveStatus(bio.currentValue, parseReferenceRange(bio.range, gender));
+  if (!computed || computed === originalStatus) return { ...rest, status: originalStatus };
+  return { ...rest, status: computed, modelStatus: originalStatus };
+};
+
+export const crossCheckStatuses = (analysis: AnalysisResult): AnalysisResult => ({
+  ...analysis,
+  biomarkers: analysis.biomarkers.map(b => crossCheckBiomarker(b, analysis.gender))
+});
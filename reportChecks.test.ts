@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { findReportIssues, isBlocking, namesMatch, sexOf } from "./reportChecks";
+import { ReportClassification } from "./types";
+
+const lab = (extra: Partial<ReportClassification> = {}): ReportClassification =>
+  ({ isLabReport: true, documentType: 'blood test report', ...extra });
+
+describe('namesMatch', () => {
+  it('matches the ways labs print the same person', () => {
+    expect(namesMatch('RIVERA, ALEX', 'Alex Rivera')).toBe(true);
+    expect(namesMatch('Mr. A. Rivera', 'Alex J Rivera')).toBe(true);
+    expect(namesMatch('Smt. Anita Sharma', 'ANITA SHARMA')).toBe(true);
+    expect(namesMatch('José Núñez', 'Jose Nunez')).toBe(true);
+  });
+
+  it('tells different people apart', () => {
+    expect(namesMatch('Alex Rivera', 'Sam Rivera')).toBe(false);
+    expect(namesMatch('A. Rivera', 'Sam Rivera')).toBe(false);
+  });
+
+  it('does not use one part of a name twice', () => {
+    expect(namesMatch('Anita Anita', 'Anita Sharma')).toBe(false);
+  });
+});
+
+describe('sexOf', () => {
+  it('reads the sex in several languages and leaves the rest unknown', () => {
+    expect(['M', 'Male', 'man', 'Hombre', 'masculino', 'Männlich', 'M / 52 Y'].map(sexOf)).toEqual(Array(7).fill('male'));
+    expect(['F', ' Female', 'Woman', 'Mujer', 'Femenino', 'weiblich', 'महिला'].map(sexOf)).toEqual(Array(7).fill('female'));
+    expect(sexOf('other')).toBeUndefined();
+    expect(sexOf(undefined)).toBeUndefined();
+  });
+
+  it('goes by whole words, not first letters', () => {
+    expect(sexOf('Mujer')).toBe('female');
+    expect(sexOf('Frau')).toBeUndefined();
+    expect(sexOf('Mixed')).toBeUndefined();
+  });
+});
+
+describe('findReportIssues', () => {
+  it('finds nothing when the reports agree', () => {
+    expect(findReportIssues([
+      lab({ patientName: 'Alex Rivera', gender: 'M', collectionDate: '2025-03-14' }),
+      lab({ patientName: 'RIVERA, ALEX', gender: 'Male', collectionDate: '2024-09-02' })
+    ])).toEqual([]);
+  });
+
+  it('blocks a document that is not a lab report', () => {
+    const issues = findReportIssues([lab(), { isLabReport: false, documentType: 'pharmacy receipt' }]);
+    expect(issues).toEqual([{ kind: 'not-lab-report', report: 1, documentType: 'pharmacy receipt' }]);
+    expect(isBlocking(issues[0])).toBe(true);
+  });
+
+  it('flags a past report for another patient or dated after the latest', () => {
+    const issues = findReportIssues([
+      lab({ patientName: 'Alex Rivera', gender: 'M', collectionDate: '2025-03-14' }),
+      lab({ patientName: 'Sam Rivera', collectionDate: '2024-01-10' }),
+      lab({ patientName: 'Alex Rivera', gender: 'F' }),
+      lab({ collectionDate: '2025-06-01' })
+    ]);
+    expect(issues).toEqual([
+      { kind: 'patient-mismatch', report: 1, name: 'Sam Rivera', latestName: 'Alex Rivera' },
+      { kind: 'patient-mismatch', report: 2, name: 'Alex Rivera', latestName: 'Alex Rivera' },
+      { kind: 'past-newer', report: 3, date: '2025-06-01', latestDate: '2025-03-14' }
+    ]);
+    expect(issues.some(isBlocking)).toBe(false);
+  });
+
+  it('does not mistake the same sex in another language for a mismatch', () => {
+    expect(findReportIssues([lab({ gender: 'Mujer' }), lab({ gender: 'F' }), lab({ gender: 'Femenino' })])).toEqual([]);
+  });
+
+  it('never holds missing details against a report', () => {
+    expect(findReportIssues([lab({ patientName: 'Alex Rivera', collectionDate: '2025-03-14' }), lab()])).toEqual([]);
+  });
+
+  it('skips comparisons when the latest upload is not a lab report', () => {
+    expect(findReportIssues([
+      { isLabReport: false, documentType: 'X-ray report' },
+      lab({ patientName: 'Sam Rivera' })
+    ])).toEqual([{ kind: 'not-lab-report', report: 0, documentType: 'X-ray report' }]);
+  });
+});
@@ -0,0 +1,80 @@
+import { ReportClassification } from "./types";
+
+// Problems with a set of uploads, found before analysis. Reports are indexed newest first, as uploaded:
+// 0 is the latest, 1 and up are past checkups.
+export type ReportIssue =
+  | { kind: 'not-lab-report', report: number, documentType: string }
+  | { kind: 'patient-mismatch', report: number, name?: string, latestName?: string }
+  | { kind: 'past-newer', report: number, date: string, latestDate: string };
+
+// Only a document that is not a lab report stops the analysis; the rest can be overridden by the user.
+export const isBlocking = (issue: ReportIssue) => issue.kind === 'not-lab-report';
+
+export class ReportCheckError extends Error {
+  constructor(public issues: ReportIssue[]) {
+    super(`Uploads failed the pre-analysis check: ${issues.map(i => i.kind).join(', ')}`);
+    this.name = 'ReportCheckError';
+  }
+}
+
+const TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'mx', 'master', 'baby', 'dr', 'sri', 'shri', 'smt', 'kumari', 'sr', 'sra', 'herr', 'frau']);
+
+const nameTokens = (name: string) => name
+  .normalize('NFKD')
+  .replace(/\p{M}/gu, '')
+  .toLowerCase()
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(token => token && !TITLES.has(token));
+
+// An initial matches any name it starts.
+const tokenMatches = (a: string, b: string) =>
+  a === b || (a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b));
+
+// Labs print the same person differently ("RIVERA, ALEX", "Mr. A. Rivera", "Alex J Rivera"), so names match
+// when every part of the shorter one matches a different part of the longer one, in any order.
+export const namesMatch = (a: string, b: string): boolean => {
+  const [shorter, longer] = [nameTokens(a), nameTokens(b)].sort((x, y) => x.length - y.length);
+  if (!shorter.length) return true;
+  const unused = [...longer];
+  return shorter.every(token => {
+    const idx = unused.findIndex(other => tokenMatches(token, other));
+    if (idx < 0) return false;
+    unused.splice(idx, 1);
+    return true;
+  });
+};
+
+// Whole words in the interface languages, since first letters mislead ("Mujer" is female).
+const MALE = new Set(['m', 'male', 'man', 'hombre', 'masculino', 'männlich', 'पुरुष']);
+const FEMALE = new Set(['f', 'female', 'woman', 'mujer', 'femenino', 'weiblich', 'महिला', 'स्त्री']);
+
+// The first word that names a sex ("Male", "M / 52 Y", "Mujer"); anything else is treated as not printed.
+export const sexOf = (gender?: string): 'male' | 'female' | undefined => {
+  for (const word of (gender || '').toLowerCase().split(/[^\p{L}\p{M}]+/u)) {
+    if (MALE.has(word)) return 'male';
+    if (FEMALE.has(word)) return 'female';
+  }
+  return undefined;
+};
+
+// Unknown fields are never held against a report: a check runs only when both sides were printed.
+export const findReportIssues = (reports: ReportClassification[]): ReportIssue[] => {
+  const [latest] = reports;
+  if (!latest) return [];
+  return reports.flatMap((report, idx): ReportIssue[] => {
+    if (!report.isLabReport) return [{ kind: 'not-lab-report', report: idx, documentType: report.documentType }];
+    if (idx === 0 || !latest.isLabReport) return [];
+
+    const issues: ReportIssue[] = [];
+    const namesDiffer = !!(report.patientName && latest.patientName && !namesMatch(report.patientName, latest.patientName));
+    const gendersDiffer = !!(sexOf(report.gender) && sexOf(latest.gender) && sexOf(report.gender) !== sexOf(latest.gender));
+    if (namesDiffer || gendersDiffer) {
+      issues.push({ kind: 'patient-mismatch', report: idx, name: report.patientName, latestName: latest.patientName });
+    }
+    // ISO dates compare correctly as strings
+    if (report.collectionDate && latest.collectionDate && report.collectionDate > latest.collectionDate) {
+      issues.push({ kind: 'past-newer', report: idx, date: report.collectionDate, latestDate: latest.collectionDate });
+    }
+    return issues;
+  });
+};
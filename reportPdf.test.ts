@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { buildReportPdf, canBuildReportPdf } from "./reportPdf";
+import { MESSAGES } from "./i18n/messages";
+import { AnalysisResult, HealthStatus } from "./types";
+
+const analysis = (extra: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  patientName: 'Ramesh Kumar',
+  summary: 'Steady',
+  bottomLine: { main: 'Mostly steady', good: ['Kidney markers'], watch: [] },
+  executiveSummary: 'Most results are in range.',
+  biomarkers: [{ name: 'Creatinine', currentValue: 0.9, unit: 'mg/dL', status: HealthStatus.NORMAL, range: '0.7–1.3', analogy: '', explanation: 'Within range.' }],
+  lifestyle: { diet: 'More water', sleep: '', exercise: '' },
+  doctorQuestions: [],
+  ...extra
+});
+
+describe('canBuildReportPdf', () => {
+  it('sends Hindi text, which jsPDF cannot shape, to the print dialog', () => {
+    // Conjuncts (क्ष, त्र, प्र) and a short i sign drawn before its consonant
+    expect(canBuildReportPdf(analysis({ executiveSummary: 'क्षत्रिय' }), { t: MESSAGES.en })).toBe(false);
+    expect(canBuildReportPdf(analysis({ biomarkers: [] }), { t: MESSAGES.en, transcript: [{ role: 'assistant', content: '5 प्रतिशत' }] })).toBe(false);
+    expect(canBuildReportPdf(analysis(), { t: MESSAGES.hi })).toBe(false);
+  });
+
+  it('allows Latin-script reports in the other languages', () => {
+    expect(canBuildReportPdf(analysis({ executiveSummary: 'Die meisten Werte sind normal.' }), { t: MESSAGES.de })).toBe(true);
+    expect(canBuildReportPdf(analysis(), { t: MESSAGES.es })).toBe(true);
+  });
+});
+
+describe('buildReportPdf', () => {
+  it('refuses text it cannot shape rather than printing it garbled', () => {
+    expect(() => buildReportPdf(analysis({ summary: 'प्रतिशत' }), { t: MESSAGES.en, pageSize: 'a4' })).toThrow();
+  });
+
+  it('titles the document after the patient', () => {
+    const doc = buildReportPdf(analysis(), { t: MESSAGES.en, pageSize: 'a4' });
+    expect(doc.getNumberOfPages()).toBeGreaterThan(0);
+    expect(doc.output()).toContain('LabLens report for Ramesh Kumar');
+  });
+});
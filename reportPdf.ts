@@ -0,0 +1,357 @@
+import { jsPDF } from 'jspdf';
+import { AnalysisResult, Biomarker, ChatMessage, HealthStatus, SimpleMarker } from './types';
+import { parseReferenceRange } from './referenceRange';
+import { toUnitSystem, UnitSystem } from './unitConversion';
+import { datedFilename } from './download';
+import { stripMarkdown } from './chatTranscript';
+import { Messages } from './i18n';
+
+export type PdfPageSize = 'a4' | 'letter';
+
+type Rgb = [number, number, number];
+
+const MARGIN = 48;
+const HEADER_HEIGHT = 36;
+const FOOTER_HEIGHT = 44;
+const LINE_HEIGHT = 1.4;
+
+const INK: Rgb = [26, 35, 126];
+const TEXT: Rgb = [51, 65, 85];
+const MUTED: Rgb = [148, 163, 184];
+const RULE: Rgb = [226, 232, 240];
+const STATUS_COLORS: Record<HealthStatus, Rgb> = {
+  [HealthStatus.HIGH]: [225, 29, 72],
+  [HealthStatus.LOW]: [217, 119, 6],
+  [HealthStatus.NORMAL]: [5, 150, 105]
+};
+
+// The built-in Helvetica covers Latin-1 only.
+const FONT = 'helvetica';
+// jsPDF draws characters one after another without shaping, so Devanagari conjuncts (क्ष), half forms,
+// the reph (र्) and the short i sign (ि) come out wrong. Reports with Hindi text are printed from the browser instead.
+const NEEDS_SHAPING = /[\u0900-\u097f]/;
+
+export interface ReportPdfOptions {
+  t: Messages; // Headings and labels, in the interface language
+  pageSize?: PdfPageSize;
+  unitSystem?: UnitSystem; // Matches the unit toggle on the dashboard
+  fallbackName?: string; // Shown when the report has no patient name
+  transcript?: ChatMessage[]; // Appended as a final section when the user opts in
+}
+
+interface Layout {
+  doc: jsPDF;
+  t: Messages;
+  y: number;
+  left: number;
+  width: number;
+  top: number;
+  bottom: number;
+}
+
+// Letter for North America, A4 everywhere else
+export const defaultPageSize = (): PdfPageSize =>
+  /^en-(US|CA)$|^es-(US|MX)$|^fr-CA$/.test(navigator.language) ? 'letter' : 'a4';
+
+// Swaps the symbols labs like to use for plain equivalents the font covers, and drops anything else it lacks.
+const pdfText = (text: string | undefined) => {
+  const plain = (text || '')
+    .replace(/[\*#]/g, '')
+    .replace(/≤/g, '<=')
+    .replace(/≥/g, '>=')
+    .replace(/[–—−]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/⁶/g, '^6');
+  return plain.replace(/[^\x00-\xff]/g, '').trim();
+};
+
+const ensureSpace = (layout: Layout, height: number) => {
+  if (layout.y + height <= layout.bottom) return;
+  layout.doc.addPage();
+  layout.y = layout.top;
+};
+
+const setFont = (layout: Layout, size: number, style: 'normal' | 'bold' = 'normal', color: Rgb = TEXT) => {
+  layout.doc.setFont(FONT, style);
+  layout.doc.setFontSize(size);
+  layout.doc.setTextColor(...color);
+};
+
+const wrap = (layout: Layout, text: string, width: number): string[] =>
+  layout.doc.splitTextToSize(pdfText(text), width);
+
+const paragraph = (layout: Layout, text: string, size = 10, style: 'normal' | 'bold' = 'normal', color: Rgb = TEXT, indent = 0) => {
+  setFont(layout, size, style, color);
+  const lineHeight = size * LINE_HEIGHT;
+  wrap(layout, text, layout.width - indent).forEach(line => {
+    ensureSpace(layout, lineHeight);
+    layout.doc.text(line, layout.left + indent, layout.y + size);
+    layout.y += lineHeight;
+  });
+};
+
+const heading = (layout: Layout, text: string) => {
+  ensureSpace(layout, 60); // Never strand a heading at the bottom of a page
+  layout.y += 12;
+  setFont(layout, 14, 'bold', INK);
+  layout.doc.text(pdfText(text).toUpperCase(), layout.left, layout.y + 14);
+  layout.y += 22;
+  layout.doc.setDrawColor(...RULE);
+  layout.doc.line(layout.left, layout.y, layout.left + layout.width, layout.y);
+  layout.y += 10;
+};
+
+const bullets = (layout: Layout, items: string[], color: Rgb) => {
+  items.forEach(text => {
+    ensureSpace(layout, 14);
+    layout.doc.setFillColor(...color);
+    layout.doc.circle(layout.left + 4, layout.y + 6.5, 2, 'F');
+    paragraph(layout, text, 10, 'normal', TEXT, 14);
+    layout.y += 2;
+  });
+};
+
+// A small vector trend line with the reference band shaded behind it
+const sparkline = (layout: Layout, bio: Biomarker, gender: string | undefined, x: number, y: number, w: number, h: number) => {
+  const values = [...(bio.history || []).map(r => r.value), bio.currentValue];
+  const range = parseReferenceRange(bio.range, gender);
+  const bounds = [...values, range?.low, range?.high].filter((v): v is number => v !== undefined);
+  const min = Math.min(...bounds);
+  const max = Math.max(...bounds);
+  const span = max - min || 1;
+  const toY = (v: number) => y + h - ((v - min) / span) * h;
+  const toX = (i: number) => x + (values.length === 1 ? w / 2 : (i / (values.length - 1)) * w);
+  const { doc } = layout;
+
+  if (range && (range.low !== undefined || range.high !== undefined)) {
+    const top = toY(range.high ?? max);
+    doc.setFillColor(236, 253, 245);
+    doc.rect(x, top, w, toY(range.low ?? min) - top, 'F');
+  }
+  doc.setDrawColor(...INK);
+  doc.setLineWidth(1.2);
+  values.slice(1).forEach((v, i) => doc.line(toX(i), toY(values[i]), toX(i + 1), toY(v)));
+  doc.setLineWidth(0.2);
+  values.forEach((v, i) => {
+    doc.setFillColor(...(i === values.length - 1 && bio.status ? STATUS_COLORS[bio.status] : INK));
+    doc.circle(toX(i), toY(v), 2, 'F');
+  });
+};
+
+const biomarkerBlock = (layout: Layout, bio: Biomarker, gender: string | undefined) => {
+  const { doc, t } = layout;
+  const chartWidth = 120;
+  const textWidth = layout.width - chartWidth - 16;
+  setFont(layout, 9);
+  const explanation = wrap(layout, bio.explanation, textWidth);
+  const trend = (bio.history || []).map(r => `${r.date}: ${r.value}${r.unit && r.unit !== bio.unit ? ` ${r.unit}` : ''}`).join('   ');
+  const blockHeight = 50 + explanation.length * 13 + (trend ? 14 : 0);
+
+  ensureSpace(layout, blockHeight);
+  const top = layout.y;
+
+  setFont(layout, 11, 'bold', INK);
+  doc.text(pdfText(bio.name), layout.left, top + 11);
+  const statusLabel = pdfText(bio.status ? t.results.filters[bio.status] : t.card.notChecked).toUpperCase();
+  setFont(layout, 8, 'bold', bio.status ? STATUS_COLORS[bio.status] : MUTED);
+  doc.text(statusLabel, layout.left + textWidth, top + 10, { align: 'right' });
+
+  setFont(layout, 16, 'bold', INK);
+  const value = `${bio.currentValue}`;
+  doc.text(value, layout.left, top + 32);
+  const valueWidth = doc.getTextWidth(value);
+  setFont(layout, 9, 'normal', MUTED);
+  doc.text(pdfText(bio.unit), layout.left + valueWidth + 4, top + 32);
+  doc.text(`${pdfText(t.pdf.range)}: ${pdfText(bio.range) || pdfText(t.pdf.notPrinted)}`, layout.left + textWidth, top + 32, { align: 'right' });
+
+  layout.y = top + 42;
+  if (trend) {
+    setFont(layout, 8, 'normal', MUTED);
+    doc.text(`${pdfText(t.pdf.earlier)}: ${pdfText(trend)}`, layout.left, layout.y + 8, { maxWidth: textWidth });
+    layout.y += 14;
+  }
+  setFont(layout, 9, 'normal', TEXT);
+  explanation.forEach(line => {
+    doc.text(line, layout.left, layout.y + 9);
+    layout.y += 13;
+  });
+
+  sparkline(layout, bio, gender, layout.left + layout.width - chartWidth, top + 6, chartWidth, 36);
+
+  layout.y = Math.max(layout.y, top + 50) + 8;
+  doc.setDrawColor(...RULE);
+  doc.line(layout.left, layout.y, layout.left + layout.width, layout.y);
+  layout.y += 10;
+};
+
+const resultsTable = (layout: Layout, rows: SimpleMarker[]) => {
+  const { doc, t } = layout;
+  const columns = [
+    { label: t.results.test, width: layout.width * 0.36 },
+    { label: t.results.result, width: layout.width * 0.22 },
+    { label: t.results.referenceRange, width: layout.width * 0.28 },
+    { label: t.results.status, width: layout.width * 0.14 }
+  ];
+  const headerRow = () => {
+    setFont(layout, 8, 'bold', MUTED);
+    let x = layout.left;
+    columns.forEach(c => { doc.text(pdfText(c.label).toUpperCase(), x, layout.y + 8); x += c.width; });
+    layout.y += 14;
+  };
+
+  ensureSpace(layout, 40);
+  headerRow();
+  rows.forEach(row => {
+    setFont(layout, 9);
+    const cells = [row.name, `${row.value} ${row.unit || ''}`, row.range || '-', row.status ? t.results.filters[row.status].toUpperCase() : '-']
+      .map((text, i) => wrap(layout, text, columns[i].width - 8));
+    const height = Math.max(...cells.map(c => c.length)) * 12 + 6;
+    if (layout.y + height > layout.bottom) {
+      doc.addPage();
+      layout.y = layout.top;
+      headerRow();
+    }
+    let x = layout.left;
+    cells.forEach((lines, i) => {
+      const color = i === 3 && row.status ? STATUS_COLORS[row.status] : i === 0 ? INK : TEXT;
+      setFont(layout, 9, i === 0 || i === 3 ? 'bold' : 'normal', color);
+      lines.forEach((line, n) => doc.text(line, x, layout.y + 9 + n * 12));
+      x += columns[i].width;
+    });
+    layout.y += height;
+    doc.setDrawColor(...RULE);
+    doc.line(layout.left, layout.y - 3, layout.left + layout.width, layout.y - 3);
+  });
+};
+
+// Running header and footer go on last, once the page count is known.
+const decoratePages = ({ doc, t }: Layout, title: string, pageWidth: number, pageHeight: number) => {
+  const total = doc.getNumberOfPages();
+  const disclaimer = pdfText(t.dashboard.notice.join(''));
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page);
+    doc.setFont(FONT, 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(...INK);
+    doc.text('LabLens', MARGIN, MARGIN - 12);
+    doc.setFont(FONT, 'normal');
+    doc.setTextColor(...MUTED);
+    doc.text(pdfText(title), pageWidth - MARGIN, MARGIN - 12, { align: 'right' });
+    doc.setDrawColor(...RULE);
+    doc.line(MARGIN, MARGIN - 6, pageWidth - MARGIN, MARGIN - 6);
+
+    doc.line(MARGIN, pageHeight - FOOTER_HEIGHT, pageWidth - MARGIN, pageHeight - FOOTER_HEIGHT);
+    doc.setFontSize(7);
+    doc.text(doc.splitTextToSize(disclaimer, pageWidth - MARGIN * 2 - 60), MARGIN, pageHeight - FOOTER_HEIGHT + 12);
+    doc.setFontSize(8);
+    doc.text(pdfText(t.source.pageOf(page, total)), pageWidth - MARGIN, pageHeight - FOOTER_HEIGHT + 12, { align: 'right' });
+  }
+};
+
+// False when any text (the report, the transcript or the interface language) needs shaping jsPDF cannot do.
+export const canBuildReportPdf = (analysis: AnalysisResult, options: ReportPdfOptions) =>
+  !NEEDS_SHAPING.test(JSON.stringify([analysis, options.transcript, options.t]));
+
+// Lays the analysis out as selectable, searchable text on paginated A4 or Letter pages.
+export const buildReportPdf = (analysis: AnalysisResult, options: ReportPdfOptions): jsPDF => {
+  const { t } = options;
+  if (!canBuildReportPdf(analysis, options)) throw new Error('The report has text the PDF fonts cannot shape');
+  const doc = new jsPDF({ unit: 'pt', format: options.pageSize ?? defaultPageSize() });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const layout: Layout = {
+    doc,
+    t,
+    y: MARGIN + HEADER_HEIGHT - 12,
+    left: MARGIN,
+    width: pageWidth - MARGIN * 2,
+    top: MARGIN + HEADER_HEIGHT - 12,
+    bottom: pageHeight - FOOTER_HEIGHT - 12
+  };
+  const patient = analysis.patientName?.trim() || options.fallbackName?.trim() || t.dashboard.patientRecord;
+  const isTrend = analysis.biomarkers.some(b => !!b.history?.length);
+
+  doc.setProperties({ title: pdfText(t.pdf.documentTitle(patient)), subject: pdfText(analysis.summary), creator: 'LabLens' });
+
+  paragraph(layout, `${isTrend ? t.dashboard.healthEvolution : t.dashboard.clinicalSummary}${patient}`, 20, 'bold', INK);
+  const details = [
+    `${t.dashboard.reportDate}: ${analysis.collectionDate || new Date().toLocaleDateString()}`,
+    analysis.hospitalName && `${t.dashboard.source}: ${analysis.hospitalName}`,
+    analysis.doctorName && `${t.pdf.doctor}: ${analysis.doctorName}`,
+    analysis.age && `${t.pdf.age}: ${analysis.age}`,
+    analysis.gender && `${t.pdf.sex}: ${analysis.gender}`
+  ].filter(Boolean).join('   |   ');
+  paragraph(layout, details, 9, 'normal', MUTED);
+  layout.y += 8;
+
+  setFont(layout, 9, 'normal', [27, 94, 32]);
+  const notice = wrap(layout, t.dashboard.notice.join(''), layout.width - 24);
+  const noticeHeight = notice.length * 12.6 + 30;
+  doc.setFillColor(232, 245, 233);
+  doc.rect(layout.left, layout.y, layout.width, noticeHeight, 'F');
+  doc.setFont(FONT, 'bold');
+  doc.text(pdfText(t.dashboard.noticeTitle), layout.left + 12, layout.y + 18);
+  doc.setFont(FONT, 'normal');
+  doc.text(notice, layout.left + 12, layout.y + 32);
+  layout.y += noticeHeight + 8;
+
+  heading(layout, analysis.summary.trim() || t.pdf.verdict);
+  paragraph(layout, analysis.executiveSummary, 11);
+
+  heading(layout, t.pdf.bottomLine);
+  paragraph(layout, analysis.bottomLine.main, 11, 'bold', INK);
+  layout.y += 6;
+  if (analysis.bottomLine.good.length) {
+    paragraph(layout, t.pdf.goingWell, 9, 'bold', STATUS_COLORS[HealthStatus.NORMAL]);
+    bullets(layout, analysis.bottomLine.good, STATUS_COLORS[HealthStatus.NORMAL]);
+  }
+  if (analysis.bottomLine.watch.length) {
+    paragraph(layout, t.pdf.keepAnEye, 9, 'bold', STATUS_COLORS[HealthStatus.LOW]);
+    bullets(layout, analysis.bottomLine.watch, STATUS_COLORS[HealthStatus.LOW]);
+  }
+
+  heading(layout, isTrend ? t.dashboard.markerEvolution : t.dashboard.vitalMetrics);
+  analysis.biomarkers.forEach(bio => biomarkerBlock(layout, toUnitSystem(bio, options.unitSystem ?? 'reported'), analysis.gender));
+
+  if (analysis.allMarkers?.length) {
+    heading(layout, t.results.title);
+    resultsTable(layout, analysis.allMarkers);
+  }
+
+  heading(layout, t.dashboard.dailyHabits);
+  ([[t.dashboard.foodDiet, analysis.lifestyle.diet], [t.dashboard.restRecovery, analysis.lifestyle.sleep], [t.dashboard.bodyMovement, analysis.lifestyle.exercise]] as const)
+    .filter(([, text]) => text)
+    .forEach(([title, text]) => {
+      paragraph(layout, title, 10, 'bold', INK);
+      paragraph(layout, text, 10);
+      layout.y += 6;
+    });
+
+  if (analysis.doctorQuestions.length) {
+    heading(layout, t.pdf.doctorQuestions);
+    analysis.doctorQuestions.forEach((q, i) => {
+      ensureSpace(layout, 40);
+      paragraph(layout, `${i + 1}. ${q.question}`, 10, 'bold', INK);
+      paragraph(layout, `${t.dashboard.whyHelps}: ${q.why}`, 9, 'normal', MUTED, 12);
+      layout.y += 6;
+    });
+  }
+
+  const transcript = (options.transcript || []).filter(m => m.content.trim());
+  if (transcript.length) {
+    heading(layout, t.chat.transcriptTitle);
+    transcript.forEach(m => {
+      ensureSpace(layout, 40);
+      paragraph(layout, m.role === 'user' ? t.chat.you : t.chat.title, 9, 'bold', m.role === 'user' ? INK : STATUS_COLORS[HealthStatus.NORMAL]);
+      paragraph(layout, stripMarkdown(m.content), 10);
+      layout.y += 8;
+    });
+  }
+
+  decoratePages(layout, patient, pageWidth, pageHeight);
+  return doc;
+};
+
+export const downloadReportPdf = (analysis: AnalysisResult, options: ReportPdfOptions) =>
+  buildReportPdf(analysis, options).save(datedFilename('LabLens_Report', 'pdf'));
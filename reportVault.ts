@@ -0,0 +1,223 @@
+import { AnalysisResult, CachedAnalysis, ChatMessage, FileData, PrivacyMap, Profile, StoredReport } from "./types";
+
+const DB_NAME = 'lablens';
+const DB_VERSION = 4;
+const STORE = 'reports';
+const CACHE_STORE = 'analysisCache';
+const PROFILE_STORE = 'profiles';
+
+// Cached readings are dropped after this long, and beyond this many the oldest go first.
+const CACHE_MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 50;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const upgrade = request.transaction!;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(PROFILE_STORE)) {
+          db.createObjectStore(PROFILE_STORE, { keyPath: 'id' });
+        }
+        const reports = upgrade.objectStore(STORE);
+        if (!reports.indexNames.contains('cacheKey')) reports.createIndex('cacheKey', 'cacheKey');
+        const cache = upgrade.objectStore(CACHE_STORE);
+        if (!cache.indexNames.contains('createdAt')) cache.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Settles when the transaction does, so a write is only reported once it is committed.
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = op(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The transaction was aborted'));
+  });
+};
+
+// For work that spans several stores; settles when the transaction commits.
+const transact = async (storeNames: string[], mode: IDBTransactionMode, body: (transaction: IDBTransaction) => void): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    body(transaction);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The transaction was aborted'));
+  });
+};
+
+// Reports saved before multi-page uploads stored a single file per report.
+interface LegacyFile {
+  name: string;
+  base64: string;
+  mimeType: string;
+}
+
+const isCurrentFile = (file: FileData | LegacyFile): file is FileData => Array.isArray((file as Partial<FileData>).pages);
+
+const upgradeFile = (file: FileData | LegacyFile): FileData => isCurrentFile(file)
+  ? file
+  : { name: file.name, pages: [{ base64: file.base64, mimeType: file.mimeType, name: file.name }] };
+
+const upgradeReport = (report: StoredReport): StoredReport => ({ ...report, files: report.files.map(upgradeFile) });
+
+export const saveReport = async (files: FileData[], analysis: AnalysisResult, privacyMap?: PrivacyMap, profileId?: string, cacheKey?: string): Promise<StoredReport> => {
+  const report: StoredReport = {
+    id: crypto.randomUUID(),
+    ...(profileId ? { profileId } : {}),
+    ...(cacheKey ? { cacheKey } : {}),
+    title: (privacyMap && analysis.patientName ? privacyMap[analysis.patientName] : analysis.patientName) || files[0]?.name.split('.')[0] || 'Lab Report',
+    patientName: analysis.patientName,
+    collectionDate: analysis.collectionDate,
+    createdAt: Date.now(),
+    files,
+    analysis,
+    ...(privacyMap ? { privacyMap } : {})
+  };
+  await run('readwrite', store => store.put(report));
+  return report;
+};
+
+export const updateReport = async (report: StoredReport): Promise<void> => {
+  await run('readwrite', store => store.put(report));
+};
+
+// Newest first
+export const listReports = async (): Promise<StoredReport[]> => {
+  const reports = await run<StoredReport[]>('readonly', store => store.getAll());
+  return reports.map(upgradeReport).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// The saved report that was read from these exact files, if any
+export const findReportByCacheKey = async (cacheKey: string): Promise<StoredReport | undefined> => {
+  const report = await run<StoredReport | undefined>('readonly', store => store.index('cacheKey').get(cacheKey));
+  return report && upgradeReport(report);
+};
+
+export const getReport = async (id: string): Promise<StoredReport | undefined> => {
+  const report = await run<StoredReport | undefined>('readonly', store => store.get(id));
+  return report && upgradeReport(report);
+};
+
+// Reads and writes the report in one transaction, so changes to its other fields made meanwhile
+// (a rename during a streaming chat save, say) are not overwritten with a stale copy.
+const modifyReport = async (id: string, change: (report: StoredReport) => StoredReport): Promise<void> => {
+  await run('readwrite', store => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put(change(upgradeReport(request.result)));
+    };
+    return request;
+  });
+};
+
+export const renameReport = (id: string, title: string): Promise<void> =>
+  modifyReport(id, report => ({ ...report, title }));
+
+export const saveAnalysis = (id: string, analysis: AnalysisResult): Promise<void> =>
+  modifyReport(id, report => ({ ...report, analysis }));
+
+export const assignReport = (id: string, profileId: string | null): Promise<void> =>
+  modifyReport(id, report => ({ ...report, profileId: profileId ?? undefined }));
+
+export const saveChat = (id: string, chat: ChatMessage[]): Promise<void> =>
+  modifyReport(id, report => ({ ...report, chat }));
+
+// A fresh reading of a saved report replaces the old one in place. The conversation was about the old reading, so it goes too.
+export const replaceAnalysis = (id: string, analysis: AnalysisResult, privacyMap?: PrivacyMap, cacheKey?: string): Promise<void> =>
+  modifyReport(id, ({ chat, ...report }) => ({ ...report, analysis, privacyMap, cacheKey }));
+
+// The cached reading of the report's files goes with it, unless another saved report was read from them too.
+export const deleteReport = (id: string): Promise<void> =>
+  transact([STORE, CACHE_STORE], 'readwrite', transaction => {
+    const reports = transaction.objectStore(STORE);
+    const request = reports.get(id);
+    request.onsuccess = () => {
+      const cacheKey: string | undefined = request.result?.cacheKey;
+      reports.delete(id);
+      if (!cacheKey) return;
+      const others = reports.index('cacheKey').count(cacheKey);
+      others.onsuccess = () => {
+        if (others.result === 0) transaction.objectStore(CACHE_STORE).delete(cacheKey);
+      };
+    };
+  });
+
+export const getCachedAnalysis = async (key: string): Promise<CachedAnalysis | undefined> => {
+  const entry = await run<CachedAnalysis | undefined>('readonly', store => store.get(key), CACHE_STORE);
+  return entry && Date.now() - entry.createdAt < CACHE_MAX_AGE_MS ? entry : undefined;
+};
+
+// Each write also trims the cache: expired readings first, then the oldest beyond CACHE_MAX_ENTRIES.
+export const cacheAnalysis = (key: string, analysis: AnalysisResult): Promise<void> =>
+  transact([CACHE_STORE], 'readwrite', transaction => {
+    const store = transaction.objectStore(CACHE_STORE);
+    const now = Date.now();
+    store.put({ key, analysis, createdAt: now });
+    const count = store.count();
+    count.onsuccess = () => {
+      let excess = count.result - CACHE_MAX_ENTRIES;
+      const cursor = store.index('createdAt').openCursor();
+      cursor.onsuccess = () => {
+        const entry = cursor.result;
+        if (!entry || (excess <= 0 && now - entry.value.createdAt < CACHE_MAX_AGE_MS)) return;
+        entry.delete();
+        excess--;
+        entry.continue();
+      };
+    };
+  });
+
+// Oldest first, so the switcher keeps the order people were added in
+export const listProfiles = async (): Promise<Profile[]> => {
+  const profiles = await run<Profile[]>('readonly', store => store.getAll(), PROFILE_STORE);
+  return profiles.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveProfile = async (fields: Omit<Profile, 'id' | 'createdAt'>): Promise<Profile> => {
+  const profile: Profile = { ...fields, id: crypto.randomUUID(), createdAt: Date.now() };
+  await run('readwrite', store => store.put(profile), PROFILE_STORE);
+  return profile;
+};
+
+export const updateProfile = async (profile: Profile): Promise<void> => {
+  await run('readwrite', store => store.put(profile), PROFILE_STORE);
+};
+
+// The person's reports are kept, just no longer assigned to anyone. Both happen in one transaction,
+// so a failure partway can't leave reports assigned to a profile that is gone.
+export const deleteProfile = (id: string): Promise<void> =>
+  transact([STORE, PROFILE_STORE], 'readwrite', transaction => {
+    const cursor = transaction.objectStore(STORE).openCursor();
+    cursor.onsuccess = () => {
+      const entry = cursor.result;
+      if (!entry) return;
+      if (entry.value.profileId === id) {
+        const { profileId, ...report }: StoredReport = entry.value;
+        entry.update(report);
+      }
+      entry.continue();
+    };
+    transaction.objectStore(PROFILE_STORE).delete(id);
+  });
@@ -0,0 +1,329 @@
+
+import { Schema, Type } from "@google/genai";
+import { AnalysisResult, AnalyzeOptions, ChatDelta, FileData, FilePage } from "../types";
+import { getProvider, ChatTurn, ContentPart } from "../providers";
+import { crossCheckStatuses } from "../referenceRange";
+import { normalizeAnalysisUnits } from "../unitConversion";
+import { mapToCatalog } from "../biomarkerCatalog";
+import { DEFAULT_LANGUAGE, Language, languageName } from "../i18n/languages";
+import { validateAnalysis, AnalysisValidationError, isObject, ValidationOutcome } from "./validateAnalysis";
+import { CHAT_TOOLS, runChatTool } from "./chatTools";
+import { generateJsonWithRetries } from "./providerErrors";
+import { autoFixChatReply, autoFixStyle, JARGON, lintAnalysis, lintChatReply, logStyleViolations, PROHIBITED, proseFields, setProseField, StyleViolation } from "../styleRules";
+
+// Bump whenever the analysis prompt, schema or post-processing changes, so browsers stop reusing cached results.
+export const ANALYSIS_PROMPT_VERSION = 4;
+
+// Everything besides the uploaded files that decides what an analysis looks like
+export const analysisVersion = () => {
+  const provider = getProvider();
+  return `${ANALYSIS_PROMPT_VERSION}:${provider.id}:${provider.model}`;
+};
+
+const ANALYSIS_SYSTEM_INSTRUCTION = `You are the "Lab Interpreter" specialized document analyst for "LabLens".
+Your goal is to perform a 100% data grounding scan of clinical reports and provide a high-end, humanized summary.
+
+STRICT TONE & JARGON RULES:
+- NEVER use technical jargon like "metabolic markers", "clinical profile", "optimized", "indexing", "grounding", or "data objects".
+- Use friendly, conversational language (e.g., "Reading your labs..." or "Your blood sugar is a bit higher than we'd like").
+- PREFERRED PHRASES: Above the target range, A focus area for your next checkup, Developing trend, Room for optimization.
+- PROHIBITED WORDS: critical, urgent, immediate attention, notably high, dangerously, alarming, abnormal, bad.
+- FORMATTING: NEVER use bolding (**), hash symbols (#), or quotation marks (", ') inside any text field.
+- Output ONLY plain text sentences.
+
+INTELLIGENCE VERDICT (Executive Summary):
+- Must be EXACTLY TWO sentences.
+- Sentence 1: A big win (e.g., "Your heart health results look fantastic and show great progress").
+- Sentence 2: A big focus (e.g., "For your next goal, let’s focus on bringing your blood sugar levels down into a more comfortable range").
+
+ALL RESULTS:
+- List EVERY test line item printed on the latest report in allMarkers, including the ones you explain in biomarkers.
+- Copy name, value, unit and reference range exactly as printed. Leave unit or range empty if the report has none.
+
+LANGUAGE:
+- The report may be printed in a different language than the one requested for your answer. Read it as printed.
+- Copy marker names, values, units and reference ranges exactly as printed. Write every explanation field in the requested language.
+- Keep status values in English (high, low, normal). Use natural equivalents of the preferred phrases above in the requested language.
+
+SOURCE:
+- For every biomarker, fill source with where its current value is printed on the latest report.
+- page: the page number, counting every page of every image and PDF of the latest report in the order given, starting at 1.
+- box: the bounding box of the printed line as [ymin, xmin, ymax, xmax], scaled from 0 to 1000 on that page.
+- text: the whole line exactly as printed, including name, value, unit and range.
+
+PREP FOR MY VISIT (QUESTIONS FOR MY DOCTOR):
+- Generate 3-4 simple questions written in the FIRST PERSON ("I", "My").
+- Tone: Natural, conversational patient seeking advice.
+- Question field: E.g., "Since my sugar is a bit high, what are the first few food changes you'd like me to try?"
+- Why field: Rename this logically to "Why this helps". E.g., "To help me make the most effective changes to my diet right away."
+
+Output MUST be strictly valid JSON.`;
+
+const ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    patientName: { type: Type.STRING },
+    age: { type: Type.STRING },
+    gender: { type: Type.STRING },
+    collectionDate: { type: Type.STRING },
+    labId: { type: Type.STRING },
+    hospitalName: { type: Type.STRING },
+    doctorName: { type: Type.STRING },
+    summary: { type: Type.STRING },
+    bottomLine: {
+      type: Type.OBJECT,
+      properties: {
+        main: { type: Type.STRING },
+        good: { type: Type.ARRAY, items: { type: Type.STRING } },
+        watch: { type: Type.ARRAY, items: { type: Type.STRING } }
+      },
+      required: ["main", "good", "watch"]
+    },
+    executiveSummary: { type: Type.STRING },
+    allMarkers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          value: { type: Type.STRING },
+          unit: { type: Type.STRING },
+          range: { type: Type.STRING }
+        },
+        required: ["name", "value"]
+      }
+    },
+    biomarkers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          currentValue: { type: Type.NUMBER },
+          history: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                date: { type: Type.STRING },
+                value: { type: Type.NUMBER },
+                unit: { type: Type.STRING }
+              },
+              required: ["date", "value"]
+            }
+          },
+          unit: { type: Type.STRING },
+          status: { type: Type.STRING, enum: ['high', 'low', 'normal'] },
+          range: { type: Type.STRING },
+          analogy: { type: Type.STRING },
+          explanation: { type: Type.STRING },
+          source: {
+            type: Type.OBJECT,
+            properties: {
+              page: { type: Type.INTEGER },
+              box: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+              text: { type: Type.STRING }
+            },
+            required: ["page", "text"]
+          }
+        },
+        required: ["name", "currentValue", "unit", "status", "range", "analogy", "explanation"]
+      }
+    },
+    lifestyle: {
+      type: Type.OBJECT,
+      properties: {
+        diet: { type: Type.STRING },
+        sleep: { type: Type.STRING },
+        exercise: { type: Type.STRING }
+      }
+    },
+    doctorQuestions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING },
+          why: { type: Type.STRING }
+        },
+        required: ["question", "why"]
+      }
+    }
+  },
+  required: ["summary", "bottomLine", "executiveSummary", "biomarkers", "lifestyle", "doctorQuestions"]
+};
+
+const STYLE_FIX_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    fixes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          field: { type: Type.STRING },
+          text: { type: Type.STRING }
+        },
+        required: ["field", "text"]
+      }
+    }
+  },
+  required: ["fixes"]
+};
+
+const isStyleFix = (v: unknown): v is { field: string, text: string } =>
+  isObject(v) && typeof v.field === 'string' && typeof v.text === 'string';
+
+const describeViolations = (violations: StyleViolation[]) =>
+  violations.map(v => `- ${v.field}: ${v.detail}`).join('\n');
+
+// Re-asks the model for just the fields that broke the style rules, then strips whatever formatting is still left.
+const enforceAnalysisStyle = async (analysis: AnalysisResult, language: Language, signal?: AbortSignal): Promise<AnalysisResult> => {
+  const violations = lintAnalysis(analysis, language);
+  if (!violations.length) return analysis;
+  logStyleViolations('analysis', violations);
+
+  const fields = new Set(violations.map(v => v.field));
+  const current = proseFields(analysis).filter(f => fields.has(f.field));
+  let fixed = analysis;
+  try {
+    const response = JSON.parse(await generateJsonWithRetries({
+      systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION,
+      parts: [{ text: `These fields of your analysis break the writing rules:
+${describeViolations(violations)}
+
+Rewrite only these fields in ${languageName(language)}, keeping their meaning. Return one fix per field with the same field path.
+${JSON.stringify(current, null, 2)}` }],
+      responseSchema: STYLE_FIX_SCHEMA
+    }, signal));
+    const fixes: unknown[] = Array.isArray(response?.fixes) ? response.fixes : [];
+    fixes.filter(isStyleFix).forEach(fix => {
+      if (fields.has(fix.field) && fix.text.trim()) fixed = setProseField(fixed, fix.field, fix.text.trim());
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('Style fix request failed; falling back to automatic cleanup', error);
+  }
+
+  const remaining = lintAnalysis(fixed, language);
+  if (remaining.length) logStyleViolations('analysis', remaining);
+  return autoFixStyle(fixed, language);
+};
+
+// Chat replies stream straight to the user, so a reply is linted once it is complete and replaced if it needs a rewrite.
+const rewriteChatReply = async (reply: string, violations: StyleViolation[], language: Language, signal?: AbortSignal): Promise<string> => {
+  let rewritten = '';
+  try {
+    for await (const text of getProvider().streamChat({
+      systemInstruction: `You edit replies from the LabLens nurse. Keep the meaning, the facts and every Markdown link exactly. Reply in ${languageName(language)} with the rewritten reply only.`,
+      history: [],
+      message: `Rewrite this reply to fix these problems:
+${describeViolations(violations)}
+Use no jargon, no bold text, no quotation marks${language === 'en' ? `, and none of these words: ${[...JARGON, ...PROHIBITED].join(', ')}` : ''}.
+
+${reply}`,
+      signal
+    })) {
+      rewritten += text;
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('Chat style rewrite failed; falling back to automatic cleanup', error);
+  }
+  return autoFixChatReply(rewritten.trim() && !lintChatReply(rewritten, language).length ? rewritten : reply);
+};
+
+const parseAndValidate = (responseText: string): ValidationOutcome => {
+  try {
+    return validateAnalysis(JSON.parse(responseText));
+  } catch {
+    return { result: null, missing: ['(response was not valid JSON)'], warnings: [] };
+  }
+};
+
+// Reports are ordered newest first: reports[0] is the latest, the rest are past checkups.
+// Model failures reject with an AnalysisError; aborting `signal` stops the pipeline with code 'cancelled'.
+export const analyzeReports = async (reports: FileData[], options: AnalyzeOptions = {}, signal?: AbortSignal): Promise<AnalysisResult> => {
+  const [latest, ...past] = reports;
+  const toParts = (pages: FilePage[]): ContentPart[] =>
+    pages.map(page => ({ inlineData: { data: page.base64, mimeType: page.mimeType } }));
+  
+  const contents: ContentPart[] = [
+    { text: `Analyze the medical report. ${past.length ? `Compare with the ${past.length} past record(s) for trends. For every biomarker, fill history with one dated reading per past report where it appears, oldest first, in the unit printed on that report.` : "Single report analysis."} 
+    Focus on extracting patient metadata and clinical results accurately without using technical jargon.
+    ${latest.pages.length > 1 ? `The latest report spans ${latest.pages.length} pages, given in order.` : ''}
+    Write summary, bottomLine, executiveSummary, every analogy and explanation, lifestyle and doctorQuestions in ${languageName(options.language ?? DEFAULT_LANGUAGE)}.
+    ${options.redacted ? 'Personal details such as names and IDs have been blacked out for privacy. Leave patientName, labId and doctorName empty and do not guess them.' : ''}` },
+    ...toParts(latest.pages)
+  ];
+
+  past.forEach((report, idx) => {
+    contents.push({ text: `PREVIOUS REPORT ${idx + 1}${report.pages.length > 1 ? ` (${report.pages.length} pages, in order)` : ''}:` });
+    contents.push(...toParts(report.pages));
+  });
+
+  const request = { systemInstruction: ANALYSIS_SYSTEM_INSTRUCTION, parts: contents, responseSchema: ANALYSIS_SCHEMA };
+
+  let outcome = parseAndValidate(await generateJsonWithRetries(request, signal));
+  if (!outcome.result) {
+    console.warn(`Analysis response unusable (missing: ${outcome.missing.join(', ')}); retrying with a repair prompt`);
+    outcome = parseAndValidate(await generateJsonWithRetries({
+      ...request,
+      parts: [
+        ...contents,
+        { text: `Your previous answer could not be used because these fields were missing or invalid: ${outcome.missing.join(', ')}. Return the complete analysis again as valid JSON that matches the schema, with every required field filled in.` }
+      ]
+    }, signal));
+  }
+  if (!outcome.result) throw new AnalysisValidationError(outcome.missing);
+  if (outcome.warnings.length) console.warn('Analysis response repaired:', outcome.warnings);
+
+  const analysis = mapToCatalog(crossCheckStatuses(normalizeAnalysisUnits(outcome.result)));
+  if (analysis.unmappedMarkers?.length) console.warn('Markers missing from the catalog:', analysis.unmappedMarkers);
+  return enforceAnalysisStyle(analysis, options.language ?? DEFAULT_LANGUAGE, signal);
+};
+
+export const chatWithContext = async function* (
+  message: string, 
+  history: ChatTurn[], 
+  context: AnalysisResult,
+  language: Language = DEFAULT_LANGUAGE,
+  signal?: AbortSignal
+): AsyncIterable<ChatDelta> {
+  
+  const chatSystemInstruction = `You are the LabLens expert nurse. 
+You have FULL ACCESS to the patient's analyzed report data:
+- Patient: ${context.patientName || 'Unknown'} (${context.gender || 'N/A'}, Age: ${context.age || 'N/A'})
+- Clinic: ${context.hospitalName || 'N/A'}
+- Report Date: ${context.collectionDate || 'N/A'}
+- Biomarkers: ${context.biomarkers.map(b => `${b.name}: ${b.currentValue} ${b.unit} (Ref: ${b.range})`).join(', ')}
+- Tools: look up explanations, earlier readings, every printed result and lifestyle advice with the tools before answering questions about them.
+
+STRICT BEHAVIOR RULES:
+1. DATA AWARENESS: Never say "I do not have your report" or "I can't see your data". You can see everything listed above.
+2. WHICH LAB?: If asked "Which lab?", reply with the clinic name (${context.hospitalName}) and date (${context.collectionDate}), and mention you've analyzed the specific markers found (e.g. ${context.biomarkers.slice(0, 3).map(b => b.name).join(', ')}).
+3. ANXIETY HANDLING (Am I in trouble?): Do not give a simple "Yes/No". Be empathetic. Balance focus areas with wins. Example: "I can see why those numbers might look high, but let’s look at the full picture. Your heart health markers are actually in a great place, which is a big win. Your blood sugar is the main area we should talk about with your doctor to get it back on track."
+4. TONE: Friendly, clear, conversational. No jargon. No bolding. No quotes.
+5. GROUNDING: Strictly use the provided results. Do not speculate on conditions not supported by the data.
+6. LANGUAGE: Always reply in ${languageName(language)}, even if the report or an earlier message is in another language. Keep marker names as printed on the report.
+7. CITATIONS: When a tool result has a cite value, link the marker name to it the first time you mention it, as a Markdown link like [HbA1c](#marker-hba1c). Only use cite values returned by tools, and never invent one.`;
+
+  let reply = '';
+  for await (const text of getProvider().streamChat({
+    systemInstruction: chatSystemInstruction,
+    history,
+    message,
+    tools: CHAT_TOOLS,
+    callTool: (name, args) => runChatTool(context, name, args),
+    signal
+  })) {
+    reply += text;
+    yield { text };
+  }
+
+  const violations = lintChatReply(reply, language);
+  if (!violations.length) return;
+  logStyleViolations('chat', violations);
+  const fixed = await rewriteChatReply(reply, violations, language, signal);
+  if (fixed !== reply) yield { text: fixed, replace: true };
+};
@@ -0,0 +1,152 @@
+import { Schema, Type } from "@google/genai";
+import { AnalysisResult, Biomarker, HealthStatus, SimpleMarker } from "../types";
+import { ChatTool } from "../providers";
+import { catalogEntryFor, findCatalogEntry } from "../biomarkerCatalog";
+import { markerAnchor } from "../citations";
+
+const NAME_PARAMETER: Schema = {
+  type: Type.OBJECT,
+  properties: { name: { type: Type.STRING, description: 'The marker name as the patient or report wrote it, e.g. HbA1c or Vitamin D.' } },
+  required: ['name']
+};
+
+export const CHAT_TOOLS: ChatTool[] = [
+  {
+    name: 'get_biomarker_details',
+    description: 'Full card for one marker: value, unit, reference range, status, the plain-language explanation and analogy, and a cite anchor.',
+    parameters: NAME_PARAMETER
+  },
+  {
+    name: 'compare_with_previous',
+    description: 'Every reading of one marker across the uploaded reports, oldest first, with the change since the previous reading.',
+    parameters: NAME_PARAMETER
+  },
+  {
+    name: 'list_out_of_range_markers',
+    description: 'All results on the latest report that are above or below their reference range.',
+    parameters: { type: Type.OBJECT, properties: {} }
+  },
+  {
+    name: 'search_all_results',
+    description: 'Searches every line item printed on the latest report, including tests without a card, by name.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { query: { type: Type.STRING, description: 'Part of a test name, e.g. cholesterol or urine.' } },
+      required: ['query']
+    }
+  },
+  {
+    name: 'get_lifestyle_advice',
+    description: 'The diet, sleep and exercise advice, the bottom line, and the suggested questions for the doctor.',
+    parameters: { type: Type.OBJECT, properties: {} }
+  }
+];
+
+// Same analyte when the catalog says so, otherwise when the printed names agree.
+const matches = (marker: { name: string, catalogId?: string }, query: string) => {
+  if (!query.trim()) return false;
+  const wanted = findCatalogEntry(query);
+  if (wanted) return catalogEntryFor(marker)?.id === wanted.id;
+  return marker.name.toLowerCase().includes(query.trim().toLowerCase());
+};
+
+const findBiomarker = (context: AnalysisResult, name: string) => context.biomarkers.find(b => matches(b, name));
+
+const cardFor = (context: AnalysisResult, marker: { name: string, catalogId?: string }) =>
+  context.biomarkers.find(b => b.name === marker.name) ?? findBiomarker(context, marker.name);
+
+const resultRows = (context: AnalysisResult): SimpleMarker[] => context.allMarkers?.length
+  ? context.allMarkers
+  : context.biomarkers.map(b => ({ name: b.name, value: String(b.currentValue), unit: b.unit, range: b.range, status: b.status, catalogId: b.catalogId }));
+
+// Only markers with a card on the dashboard can be cited.
+const resultRow = (context: AnalysisResult, row: SimpleMarker) => {
+  const card = cardFor(context, row);
+  return {
+    name: row.name,
+    value: row.value,
+    unit: row.unit,
+    range: row.range,
+    status: row.status ?? card?.status,
+    cite: card ? markerAnchor(card.name) : undefined
+  };
+};
+
+const notFound = (name: unknown) => ({ error: `No marker called ${name} is on this report. Try search_all_results.` });
+
+const biomarkerDetails = (context: AnalysisResult, name: string) => {
+  const bio = findBiomarker(context, name);
+  if (!bio) {
+    const row = resultRows(context).find(r => matches(r, name));
+    return row ? resultRow(context, row) : notFound(name);
+  }
+  return {
+    name: bio.name,
+    value: bio.currentValue,
+    unit: bio.unit,
+    range: bio.range,
+    status: bio.status,
+    explanation: bio.explanation,
+    analogy: bio.analogy,
+    loinc: catalogEntryFor(bio)?.loinc,
+    cite: markerAnchor(bio.name)
+  };
+};
+
+const compareWithPrevious = (context: AnalysisResult, name: string) => {
+  const bio: Biomarker | undefined = findBiomarker(context, name);
+  if (!bio) return notFound(name);
+  const readings = [
+    ...(bio.history || []).map(r => ({ date: r.date, value: r.value, unit: r.unit || bio.unit })),
+    { date: context.collectionDate || 'latest report', value: bio.currentValue, unit: bio.unit }
+  ];
+  const base = { name: bio.name, status: bio.status, range: bio.range, readings, cite: markerAnchor(bio.name) };
+  const previous = bio.previousValue ?? bio.history?.at(-1)?.value;
+  if (previous === undefined) return { ...base, note: 'Only the latest report has this marker.' };
+  const change = bio.currentValue - previous;
+  return {
+    ...base,
+    change: Number(change.toFixed(2)),
+    percentChange: previous !== 0 ? Number(((change / previous) * 100).toFixed(1)) : undefined,
+    direction: change > 0 ? 'up' : change < 0 ? 'down' : 'unchanged'
+  };
+};
+
+const outOfRange = (context: AnalysisResult) => ({
+  markers: resultRows(context)
+    .map(r => resultRow(context, r))
+    .filter(r => r.status === HealthStatus.HIGH || r.status === HealthStatus.LOW)
+});
+
+const searchResults = (context: AnalysisResult, query: string) => {
+  const needle = query.trim().toLowerCase();
+  const results = resultRows(context)
+    .filter(r => matches(r, query) || r.name.toLowerCase().includes(needle))
+    .map(r => resultRow(context, r));
+  return results.length ? { results } : { results, note: `Nothing on this report matches ${query}.` };
+};
+
+const lifestyleAdvice = (context: AnalysisResult) => ({
+  lifestyle: context.lifestyle,
+  bottomLine: context.bottomLine,
+  doctorQuestions: context.doctorQuestions
+});
+
+// Tools only read the report sent with the chat message, so answers stay grounded in it.
+export const runChatTool = (context: AnalysisResult, name: string, args: Record<string, unknown>): unknown => {
+  const text = (key: string) => typeof args[key] === 'string' ? args[key] as string : '';
+  switch (name) {
+    case 'get_biomarker_details':
+      return biomarkerDetails(context, text('name'));
+    case 'compare_with_previous':
+      return compareWithPrevious(context, text('name'));
+    case 'list_out_of_range_markers':
+      return outOfRange(context);
+    case 'search_all_results':
+      return searchResults(context, text('query'));
+    case 'get_lifestyle_advice':
+      return lifestyleAdvice(context);
+    default:
+      return { error: `Unknown tool ${name}.` };
+  }
+};
@@ -0,0 +1,76 @@
+import { Schema, Type } from "@google/genai";
+import { FileData, ReportClassification } from "../types";
+import { ContentPart } from "../providers";
+import { DEFAULT_LANGUAGE, Language, languageName } from "../i18n/languages";
+import { generateJsonWithRetries } from "./providerErrors";
+import { isObject } from "./validateAnalysis";
+
+// A cheap first look at each upload, so a receipt or someone else's report is caught before the full analysis.
+const CLASSIFY_SYSTEM_INSTRUCTION = `You sort uploaded medical documents for "LabLens" before they are analyzed.
+For each REPORT, decide whether it is a laboratory test report: blood, urine or other specimen results with values and reference ranges.
+Imaging reports (X-ray, CT, MRI, ultrasound), prescriptions, bills, receipts, discharge summaries and photos of anything else are not lab reports.
+- documentType: a few plain words for what the document is, e.g. blood test report, X-ray report, pharmacy receipt.
+- patientName and gender: exactly as printed. Leave empty if not printed or blacked out. Do not guess.
+- collectionDate: the sample collection date, or the report date if no collection date is printed, as YYYY-MM-DD. Leave empty if there is none.
+Return one entry per REPORT, in the order given, with index set to its REPORT number.
+Output MUST be strictly valid JSON.`;
+
+const CLASSIFY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    documents: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER },
+          isLabReport: { type: Type.BOOLEAN },
+          documentType: { type: Type.STRING },
+          patientName: { type: Type.STRING },
+          gender: { type: Type.STRING },
+          collectionDate: { type: Type.STRING }
+        },
+        required: ["index", "isLabReport", "documentType"]
+      }
+    }
+  },
+  required: ["documents"]
+};
+
+const text = (v: unknown) => typeof v === 'string' && v.trim() ? v.trim() : undefined;
+
+// When the model skips a report or garbles an entry, that report is let through rather than blocked on a guess.
+const toClassification = (entry: unknown): ReportClassification => {
+  if (!isObject(entry)) return { isLabReport: true, documentType: 'unknown' };
+  const date = text(entry.collectionDate);
+  const patientName = text(entry.patientName);
+  const gender = text(entry.gender);
+  return {
+    isLabReport: entry.isLabReport !== false,
+    documentType: text(entry.documentType) || 'unknown',
+    ...(patientName ? { patientName } : {}),
+    ...(gender ? { gender } : {}),
+    ...(date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? { collectionDate: date } : {})
+  };
+};
+
+// Reports are ordered newest first, as for analysis. Returns one classification per report, in order.
+export const classifyReports = async (reports: FileData[], language: Language = DEFAULT_LANGUAGE, signal?: AbortSignal): Promise<ReportClassification[]> => {
+  const parts: ContentPart[] = [
+    { text: `Write documentType in ${languageName(language)}.` },
+    ...reports.flatMap((report, idx) => [
+      { text: `REPORT ${idx + 1}:` },
+      ...report.pages.map(page => ({ inlineData: { data: page.base64, mimeType: page.mimeType } }))
+    ])
+  ];
+
+  let documents: unknown[] = [];
+  try {
+    const response: unknown = JSON.parse(await generateJsonWithRetries({ systemInstruction: CLASSIFY_SYSTEM_INSTRUCTION, parts, responseSchema: CLASSIFY_SCHEMA }, signal));
+    documents = isObject(response) && Array.isArray(response.documents) ? response.documents : [];
+  } catch (error) {
+    if (error instanceof SyntaxError) console.warn('Classification response was not valid JSON');
+    else throw error;
+  }
+  return reports.map((_, idx) => toClassification(documents.find(d => isObject(d) && d.index === idx + 1) ?? documents[idx]));
+};
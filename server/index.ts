@@ -0,0 +1,218 @@
+import http from 'node:http';
+import { analysisVersion, analyzeReports, chatWithContext } from './analysis';
+import { classifyReports } from './classification';
+import { createRateLimiter } from './rateLimit';
+import { AnalysisValidationError, isObject, validateAnalysis } from './validateAnalysis';
+import { AnalysisError, AnalysisErrorCode, ERROR_STATUS } from '../analysisErrors';
+import { FileData } from '../types';
+import { ChatTurn, MAX_CHAT_TURN_CHARS, MAX_CHAT_TURNS } from '../providers/types';
+import { mapToCatalog } from '../biomarkerCatalog';
+import { isLanguage } from '../i18n/languages';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local: rely on the real environment
+}
+
+const PORT = Number(process.env.SERVER_PORT || 8787);
+// Set when the server sits behind a reverse proxy, so clients are told apart by the address it forwards.
+const TRUST_PROXY = /^(1|true|yes)$/i.test(process.env.TRUST_PROXY || '');
+
+// Base64 inflates uploads by a third; this leaves room for a few large scans per request.
+const MAX_ANALYZE_BYTES = 60 * 1024 * 1024;
+// A full chat history (MAX_CHAT_TURNS of MAX_CHAT_TURN_CHARS, up to 3 bytes a character) plus the report
+const MAX_CHAT_BYTES = 2 * 1024 * 1024;
+const MAX_REPORTS = 10;
+const MAX_PAGES_PER_REPORT = 20;
+
+const analyzeLimiter = createRateLimiter(10, 10 * 60 * 1000);
+const classifyLimiter = createRateLimiter(10, 10 * 60 * 1000);
+const chatLimiter = createRateLimiter(30, 60 * 1000);
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}, public code?: AnalysisErrorCode) {
+    super(message);
+  }
+}
+
+// What the browser is told; provider messages can carry internals, so they are only logged.
+const ERROR_MESSAGES: Record<AnalysisErrorCode, string> = {
+  quota: 'The model provider is out of quota. Please try again later.',
+  'too-large': 'The report is too large for the model to read.',
+  unreadable: 'The report could not be read.',
+  safety: 'The model declined to read this report.',
+  network: 'The analysis service is unavailable.',
+  timeout: 'The analysis took too long.',
+  cancelled: 'The analysis was cancelled.',
+  unknown: 'The analysis service is unavailable.'
+};
+
+// X-Forwarded-For is written by whoever sends the request, so it is only read when TRUST_PROXY says a proxy
+// set it; then the last entry is the one the proxy added. Otherwise a new header on each request would dodge the limits.
+const clientId = (req: http.IncomingMessage) => {
+  const forwarded = TRUST_PROXY ? String(req.headers['x-forwarded-for'] || '').split(',').pop()?.trim() : undefined;
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const readJson = (req: http.IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    if (Number(req.headers['content-length'] || 0) > maxBytes) {
+      return reject(new HttpError(413, 'Request is too large.', {}, 'too-large'));
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.destroy();
+        return reject(new HttpError(413, 'Request is too large.', {}, 'too-large'));
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body must be JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const readJsonObject = async (req: http.IncomingMessage, maxBytes: number) => {
+  const body = await readJson(req, maxBytes);
+  if (!isObject(body)) throw new HttpError(400, 'Request body must be a JSON object.');
+  return body;
+};
+
+const enforceLimit = (limiter: ReturnType<typeof createRateLimiter>, req: http.IncomingMessage) => {
+  const retryAfter = limiter.check(clientId(req));
+  if (retryAfter) {
+    throw new HttpError(429, 'Too many requests. Please wait a moment and try again.', { 'Retry-After': String(retryAfter) }, 'quota');
+  }
+};
+
+const isFileData = (f: unknown): f is FileData =>
+  isObject(f) && typeof f.name === 'string' && Array.isArray(f.pages) &&
+  f.pages.length > 0 && f.pages.length <= MAX_PAGES_PER_REPORT &&
+  f.pages.every((p: unknown) => isObject(p) && typeof p.base64 === 'string' && typeof p.mimeType === 'string');
+
+const isChatTurn = (t: unknown): t is ChatTurn =>
+  isObject(t) && (t.role === 'user' || t.role === 'model') && typeof t.content === 'string' && t.content.length <= MAX_CHAT_TURN_CHARS;
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readReports = (body: Record<string, unknown>): FileData[] => {
+  const { reports } = body;
+  if (!Array.isArray(reports) || reports.length === 0 || reports.length > MAX_REPORTS || !reports.every(isFileData)) {
+    throw new HttpError(400, `Send between 1 and ${MAX_REPORTS} reports of up to ${MAX_PAGES_PER_REPORT} pages each.`);
+  }
+  return reports;
+};
+
+// A closed connection means the user cancelled; stop paying for model calls nobody will read.
+const abortOnClose = (res: http.ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+};
+
+const handleAnalyze = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  enforceLimit(analyzeLimiter, req);
+  const body = await readJsonObject(req, MAX_ANALYZE_BYTES);
+  const reports = readReports(body);
+  const options = isObject(body.options) ? body.options : {};
+  const language = options.language;
+  sendJson(res, 200, await analyzeReports(reports, {
+    redacted: options.redacted === true,
+    ...(isLanguage(language) ? { language } : {})
+  }, abortOnClose(res)));
+};
+
+const handleClassify = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  enforceLimit(classifyLimiter, req);
+  const body = await readJsonObject(req, MAX_ANALYZE_BYTES);
+  const reports = readReports(body);
+  const language = isLanguage(body.language) ? body.language : undefined;
+  sendJson(res, 200, { reports: await classifyReports(reports, language, abortOnClose(res)) });
+};
+
+const handleVersion = async (_req: http.IncomingMessage, res: http.ServerResponse) => {
+  sendJson(res, 200, { version: analysisVersion() });
+};
+
+const handleChat = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  enforceLimit(chatLimiter, req);
+  const body = await readJsonObject(req, MAX_CHAT_BYTES);
+  const { message, history = [] } = body;
+  if (typeof message !== 'string' || !message.trim() || message.length > MAX_CHAT_TURN_CHARS) {
+    throw new HttpError(400, `Send a message of up to ${MAX_CHAT_TURN_CHARS} characters.`);
+  }
+  if (!Array.isArray(history) || history.length > MAX_CHAT_TURNS || !history.every(isChatTurn)) {
+    throw new HttpError(400, `Send up to ${MAX_CHAT_TURNS} earlier turns, each with a user or model role and text content.`);
+  }
+  // The context goes into the prompt, so it gets the same checks as a model answer; catalog IDs are re-derived.
+  const context = validateAnalysis(body.context).result;
+  if (!context) throw new HttpError(400, 'A complete report context is required.');
+  const signal = abortOnClose(res);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  try {
+    for await (const delta of chatWithContext(message, history, mapToCatalog(context), isLanguage(body.language) ? body.language : undefined, signal)) {
+      if (res.destroyed) return;
+      res.write(`data: ${JSON.stringify(delta)}\n\n`);
+    }
+    res.write('event: done\ndata: {}\n\n');
+  } catch (error) {
+    if (signal.aborted) return;
+    console.error('Chat stream failed', error);
+    res.write(`event: error\ndata: ${JSON.stringify({ error: 'The assistant could not reply.' })}\n\n`);
+  } finally {
+    res.end();
+  }
+};
+
+const routes: Record<string, (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>> = {
+  'POST /api/analyze': handleAnalyze,
+  'POST /api/classify': handleClassify,
+  'POST /api/chat': handleChat,
+  'GET /api/analysis-version': handleVersion
+};
+
+const server = http.createServer(async (req, res) => {
+  const route = routes[`${req.method} ${req.url?.split('?')[0]}`];
+  if (!route) return sendJson(res, 404, { error: 'Not found.' });
+
+  try {
+    await route(req, res);
+  } catch (error) {
+    if (res.headersSent) return void res.end();
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message, ...(error.code ? { code: error.code } : {}) }, error.headers);
+    } else if (error instanceof AnalysisValidationError) {
+      console.error('Analysis failed validation after repair', error.missingFields);
+      sendJson(res, 502, { error: error.message, code: 'unreadable', missingFields: error.missingFields });
+    } else if (error instanceof AnalysisError) {
+      if (error.code === 'cancelled') return void res.end();
+      console.error(`${req.method} ${req.url} failed (${error.code})`, error.message);
+      sendJson(res, ERROR_STATUS[error.code], { error: ERROR_MESSAGES[error.code], code: error.code });
+    } else {
+      console.error(`${req.method} ${req.url} failed`, error);
+      sendJson(res, 502, { error: 'The analysis service is unavailable.' });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`LabLens API listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,51 @@
+import { ApiError } from "@google/genai";
+import { AnalysisError, AnalysisErrorCode, backoff, isTransient } from "../analysisErrors";
+import { AnalysisRequest, getProvider, ProviderError } from "../providers";
+import { AnalysisValidationError } from "./validateAnalysis";
+
+const MODEL_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS || 120_000);
+const MODEL_RETRIES = Number(process.env.LLM_RETRIES ?? 2);
+
+const NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_SOCKET']);
+
+const codeForStatus = (status: number, message: string): AnalysisErrorCode => {
+  if (status === 429) return 'quota';
+  if (status === 413) return 'too-large';
+  if (status === 408) return 'timeout';
+  if (status >= 500) return 'network';
+  if (status === 400 && /token|too large|exceeds|size limit/i.test(message)) return 'too-large';
+  if (status === 400 && /image|document|pdf|mime|unsupported|could not (?:read|process)/i.test(message)) return 'unreadable';
+  return 'unknown';
+};
+
+// Sorts whatever a provider threw into the shared taxonomy; the original message stays in the server log only.
+export const classifyProviderError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+  if (error instanceof AnalysisValidationError) return new AnalysisError('unreadable', error.message);
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ApiError || error instanceof ProviderError) return new AnalysisError(codeForStatus(error.status, message), message);
+  const cause = (error as { cause?: { code?: string } })?.cause?.code;
+  if ((error instanceof TypeError && /fetch/i.test(message)) || (cause && NETWORK_CODES.has(cause))) return new AnalysisError('network', message);
+  return new AnalysisError('unknown', message);
+};
+
+// One structured model call with a per-attempt timeout and backoff retries for outages and timeouts.
+// `signal` is the caller's: when it fires the call stops at once and nothing is retried.
+export const generateJsonWithRetries = async (request: Omit<AnalysisRequest, 'signal'>, signal?: AbortSignal): Promise<string> => {
+  for (let attempt = 0; ; attempt++) {
+    const timeout = AbortSignal.timeout(MODEL_TIMEOUT_MS);
+    try {
+      return await getProvider().generateJson({ ...request, signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+    } catch (error) {
+      if (signal?.aborted) throw new AnalysisError('cancelled', 'The analysis was cancelled.');
+      const failure = timeout.aborted
+        ? new AnalysisError('timeout', `The model did not answer within ${MODEL_TIMEOUT_MS / 1000} seconds.`)
+        : classifyProviderError(error);
+      if (!isTransient(failure.code) || attempt >= MODEL_RETRIES) throw failure;
+      console.warn(`Model call failed (${failure.code}: ${failure.message}); retry ${attempt + 1} of ${MODEL_RETRIES}`);
+      await backoff(attempt, signal).catch(() => {
+        throw new AnalysisError('cancelled', 'The analysis was cancelled.');
+      });
+    }
+  }
+};
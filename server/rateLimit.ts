@@ -0,0 +1,34 @@
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimiter {
+  // Returns 0 when the request is allowed, otherwise the seconds until the client may retry
+  check: (clientId: string) => number;
+}
+
+// Fixed-window limiter kept in memory; good enough for a single-instance proxy.
+export const createRateLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, Window>();
+
+  return {
+    check: (clientId) => {
+      const now = Date.now();
+      if (windows.size > 10_000) {
+        for (const [id, w] of windows) if (w.resetAt <= now) windows.delete(id);
+      }
+
+      const current = windows.get(clientId);
+      if (!current || current.resetAt <= now) {
+        windows.set(clientId, { count: 1, resetAt: now + windowMs });
+        return 0;
+      }
+      if (current.count >= limit) {
+        return Math.ceil((current.resetAt - now) / 1000);
+      }
+      current.count++;
+      return 0;
+    }
+  };
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { validateAnalysis } from "./validateAnalysis";
+
+const analysis = (biomarkers: unknown[]) => ({
+  summary: 'Steady',
+  executiveSummary: 'Most results are in range. One is a little high.',
+  bottomLine: { main: 'Mostly steady', good: [], watch: [] },
+  biomarkers
+});
+
+const glucose = (extra: Record<string, unknown> = {}) =>
+  ({ name: 'Glucose', currentValue: 110, unit: 'mg/dL', status: 'high', range: '70-100', ...extra });
+
+describe('past report history', () => {
+  it('keeps one reading per past report and takes the previous value from the newest', () => {
+    const { result } = validateAnalysis(analysis([glucose({
+      history: [{ date: '2023-01-10', value: 92 }, { date: '2024-02-01', value: 101 }]
+    })]));
+    expect(result?.biomarkers[0].history).toEqual([{ date: '2023-01-10', value: 92 }, { date: '2024-02-01', value: 101 }]);
+    expect(result?.biomarkers[0].previousValue).toBe(101);
+  });
+
+  it('drops readings without a usable value', () => {
+    const { result } = validateAnalysis(analysis([glucose({
+      history: [{ date: '2023-01-10', value: 'n/a' }, 'bad', { date: '2024-02-01', value: '98' }]
+    })]));
+    expect(result?.biomarkers[0].history).toEqual([{ date: '2024-02-01', value: 98 }]);
+  });
+
+  it('leaves history out for a single report', () => {
+    const { result } = validateAnalysis(analysis([glucose()]));
+    expect(result?.biomarkers[0]).not.toHaveProperty('history');
+    expect(result?.biomarkers[0]).not.toHaveProperty('previousValue');
+  });
+});
+
+describe('validateAnalysis', () => {
+  it('reports the required fields that are missing', () => {
+    const { result, missing } = validateAnalysis({ summary: 'Steady', biomarkers: 'none' });
+    expect(result).toBeNull();
+    expect(missing).toEqual(['executiveSummary', 'bottomLine.main', 'biomarkers']);
+  });
+
+  it('rejects a response that is not an object', () => {
+    expect(validateAnalysis([]).missing).toEqual(['(entire response)']);
+  });
+
+  it('coerces numeric strings, including decimal commas and grouped digits', () => {
+    const { result } = validateAnalysis(analysis([
+      glucose({ currentValue: '6,1', range: '3,9-5,6', status: 'HIGH' }),
+      { ...glucose(), name: 'Platelets', currentValue: '1,50,000', range: '1,50,000-4,50,000', status: 'normal' }
+    ]));
+    expect(result?.biomarkers.map(b => [b.currentValue, b.status])).toEqual([[6.1, 'high'], [150000, 'normal']]);
+  });
+
+  it('derives a missing status from the range and drops a marker where it cannot', () => {
+    const { result, warnings } = validateAnalysis(analysis([
+      glucose({ status: 'elevated' }),
+      glucose({ name: 'Urine Sugar', status: undefined, range: 'Nil' })
+    ]));
+    expect(result?.biomarkers).toHaveLength(1);
+    expect(result?.biomarkers[0].status).toBe('high');
+    expect(warnings).toEqual([
+      'biomarkers[0] (Glucose) status derived from the range',
+      'biomarkers[1] (Urine Sugar) dropped: status invalid and could not be derived from the range'
+    ]);
+  });
+
+  it('keeps a value the user corrected even when no status can be derived', () => {
+    const { result, warnings } = validateAnalysis(analysis([glucose({ status: undefined, range: 'see note', userCorrected: true })]));
+    expect(result?.biomarkers[0]).toMatchObject({ name: 'Glucose', userCorrected: true });
+    expect(result?.biomarkers[0]).not.toHaveProperty('status');
+    expect(warnings).toEqual([]);
+  });
+
+  it('fails when no biomarker is usable', () => {
+    const { result, missing } = validateAnalysis(analysis([{ name: 'Glucose', currentValue: 'high' }]));
+    expect(result).toBeNull();
+    expect(missing).toEqual(['biomarkers (none were usable)']);
+  });
+
+  it('keeps a source box in page fractions and drops one that does not make sense', () => {
+    const { result } = validateAnalysis(analysis([
+      glucose({ source: { page: 2, box: [100, 50, 120, 950], text: 'Glucose 110' } }),
+      glucose({ source: { page: 1, box: [120, 50, 100, 950], text: 'Glucose 110' } })
+    ]));
+    expect(result?.biomarkers[0].source).toEqual({ page: 2, box: { x: 0.05, y: 0.1, width: 0.9, height: 0.02 }, text: 'Glucose 110' });
+    expect(result?.biomarkers[1].source).toEqual({ page: 1, text: 'Glucose 110' });
+  });
+
+  it('derives the status of a printed line item from its value and range', () => {
+    const { result } = validateAnalysis({
+      ...analysis([glucose()]),
+      allMarkers: [{ name: 'MCV', value: '102', unit: 'fL', range: '80-100' }, { name: 'Urine Protein', value: 'Negative' }]
+    });
+    expect(result?.allMarkers).toEqual([
+      { name: 'MCV', value: '102', unit: 'fL', range: '80-100', status: 'high' },
+      { name: 'Urine Protein', value: 'Negative' }
+    ]);
+  });
+});
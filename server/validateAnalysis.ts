@@ -0,0 +1,183 @@
+import { AnalysisResult, Biomarker, BiomarkerReading, DoctorQuestion, HealthStatus, SimpleMarker, SourceLocation } from "../types";
+import { deriveStatus, normalizeDecimal, parseReferenceRange } from "../referenceRange";
+
+export interface ValidationOutcome {
+  result: AnalysisResult | null; // null when required fields could not be recovered
+  missing: string[]; // Paths of required fields that were absent or unusable
+  warnings: string[]; // Items that were coerced or dropped
+}
+
+export class AnalysisValidationError extends Error {
+  constructor(public missingFields: string[]) {
+    super(`The analysis came back incomplete. Missing or invalid: ${missingFields.join(', ')}.`);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const toText = (v: unknown): string | undefined => {
+  if (typeof v === 'string') return v;
+  if (typeof v === 'number' || typeof v === 'boolean') return String(v);
+  return undefined;
+};
+
+// Accepts numbers and numeric strings such as "6.1", "1,250", "6,1" or "< 0.5".
+export const toNumber = (v: unknown): number | null => {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : null;
+  if (typeof v !== 'string') return null;
+  const match = v.match(/-?(?:\d[\d,]*)?\.?\d+/);
+  return match ? parseFloat(normalizeDecimal(match[0])) : null;
+};
+
+const toTextList = (v: unknown): string[] =>
+  Array.isArray(v) ? v.map(toText).filter((s): s is string => !!s?.trim()) : [];
+
+const validateSimpleMarker = (raw: Record<string, unknown>, gender: string | undefined): SimpleMarker => {
+  const value = toText(raw.value)?.trim() ?? '';
+  const unit = toText(raw.unit)?.trim();
+  const range = toText(raw.range)?.trim();
+  const numeric = toNumber(value);
+  const status = numeric !== null && range ? deriveStatus(numeric, parseReferenceRange(range, gender)) : null;
+  return {
+    name: toText(raw.name)?.trim() ?? '',
+    value,
+    ...(unit ? { unit } : {}),
+    ...(range ? { range } : {}),
+    ...(status ? { status } : {})
+  };
+};
+
+// The model gives boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid; a box that doesn't make sense is dropped, not guessed at.
+const validateSource = (raw: unknown): SourceLocation | undefined => {
+  if (!isObject(raw)) return undefined;
+  const page = toNumber(raw.page);
+  const text = toText(raw.text)?.trim() ?? '';
+  if (page === null || page < 1 || !Number.isInteger(page)) return undefined;
+
+  const edges = Array.isArray(raw.box) ? raw.box.map(toNumber) : [];
+  const [top, left, bottom, right] = edges as number[];
+  const validBox = edges.length === 4 && edges.every(v => v !== null && v >= 0 && v <= 1000) && bottom > top && right > left;
+  return {
+    page,
+    ...(validBox ? { box: { x: left / 1000, y: top / 1000, width: (right - left) / 1000, height: (bottom - top) / 1000 } } : {}),
+    text
+  };
+};
+
+const validateBiomarker = (raw: unknown, idx: number, gender: string | undefined, warnings: string[]): Biomarker | null => {
+  const label = `biomarkers[${idx}]`;
+  if (!isObject(raw)) {
+    warnings.push(`${label} dropped: not an object`);
+    return null;
+  }
+  const name = toText(raw.name)?.trim();
+  const currentValue = toNumber(raw.currentValue);
+  if (!name || currentValue === null) {
+    warnings.push(`${label} dropped: ${!name ? 'name' : 'currentValue'} missing or not a number`);
+    return null;
+  }
+
+  const range = toText(raw.range) ?? '';
+  const status = (toText(raw.status) ?? '').toLowerCase() as HealthStatus;
+  let validStatus: HealthStatus | null = Object.values(HealthStatus).includes(status) ? status : null;
+  if (!validStatus) {
+    validStatus = deriveStatus(currentValue, parseReferenceRange(range, gender));
+    // A value the user corrected keeps no status when its range can't be read (chat context sends these back)
+    if (!validStatus && raw.userCorrected !== true) {
+      warnings.push(`${label} (${name}) dropped: status invalid and could not be derived from the range`);
+      return null;
+    }
+    if (validStatus) warnings.push(`${label} (${name}) status derived from the range`);
+  }
+
+  const history: BiomarkerReading[] = Array.isArray(raw.history)
+    ? raw.history.flatMap((h: unknown) => {
+        const value = isObject(h) ? toNumber(h.value) : null;
+        if (!isObject(h) || value === null) return [];
+        return [{ date: toText(h.date) ?? '', value, ...(toText(h.unit) ? { unit: toText(h.unit) } : {}) }];
+      })
+    : [];
+  const source = validateSource(raw.source);
+
+  return {
+    name,
+    currentValue,
+    ...(history.length ? { history, previousValue: history[history.length - 1].value } : {}),
+    unit: toText(raw.unit) ?? '',
+    ...(validStatus ? { status: validStatus } : {}),
+    range,
+    analogy: toText(raw.analogy) ?? '',
+    explanation: toText(raw.explanation) ?? '',
+    ...(source ? { source } : {}),
+    ...(raw.userCorrected === true ? { userCorrected: true } : {})
+  };
+};
+
+export const validateAnalysis = (raw: unknown): ValidationOutcome => {
+  const missing: string[] = [];
+  const warnings: string[] = [];
+  if (!isObject(raw)) {
+    return { result: null, missing: ['(entire response)'], warnings };
+  }
+
+  const requireText = (value: unknown, path: string) => {
+    const text = toText(value);
+    if (!text?.trim()) missing.push(path);
+    return text ?? '';
+  };
+
+  const summary = requireText(raw.summary, 'summary');
+  const executiveSummary = requireText(raw.executiveSummary, 'executiveSummary');
+  const bottomLine = isObject(raw.bottomLine) ? raw.bottomLine : {};
+  const main = requireText(bottomLine.main, 'bottomLine.main');
+
+  if (!Array.isArray(raw.biomarkers)) missing.push('biomarkers');
+  const gender = toText(raw.gender);
+  const biomarkers = (Array.isArray(raw.biomarkers) ? raw.biomarkers : [])
+    .map((b, idx) => validateBiomarker(b, idx, gender, warnings))
+    .filter((b): b is Biomarker => b !== null);
+  if (Array.isArray(raw.biomarkers) && raw.biomarkers.length > 0 && biomarkers.length === 0) {
+    missing.push('biomarkers (none were usable)');
+  }
+
+  if (missing.length) return { result: null, missing, warnings };
+
+  const lifestyle = isObject(raw.lifestyle) ? raw.lifestyle : {};
+  const doctorQuestions: DoctorQuestion[] = (Array.isArray(raw.doctorQuestions) ? raw.doctorQuestions : [])
+    .filter(isObject)
+    .map(q => ({ question: toText(q.question) ?? '', why: toText(q.why) ?? '' }))
+    .filter(q => q.question.trim());
+  const allMarkers: SimpleMarker[] = (Array.isArray(raw.allMarkers) ? raw.allMarkers : [])
+    .filter(isObject)
+    .map(m => validateSimpleMarker(m, gender))
+    .filter(m => m.name.trim());
+
+  const optionalText = (key: keyof AnalysisResult) => {
+    const text = toText(raw[key]);
+    return text?.trim() ? { [key]: text } : {};
+  };
+
+  const result: AnalysisResult = {
+    ...optionalText('patientName'),
+    ...optionalText('age'),
+    ...optionalText('gender'),
+    ...optionalText('collectionDate'),
+    ...optionalText('labId'),
+    ...optionalText('hospitalName'),
+    ...optionalText('doctorName'),
+    ...(typeof raw.hasSignature === 'boolean' ? { hasSignature: raw.hasSignature } : {}),
+    ...(allMarkers.length ? { allMarkers } : {}),
+    summary,
+    bottomLine: { main, good: toTextList(bottomLine.good), watch: toTextList(bottomLine.watch) },
+    executiveSummary,
+    biomarkers,
+    lifestyle: {
+      diet: toText(lifestyle.diet) ?? '',
+      sleep: toText(lifestyle.sleep) ?? '',
+      exercise: toText(lifestyle.exercise) ?? ''
+    },
+    doctorQuestions
+  };
+  return { result, missing, warnings };
+};
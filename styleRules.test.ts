@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { autoFixChatReply, autoFixStyle, countSentences, lintAnalysis, lintChatReply, setProseField, stripFormatting } from "./styleRules";
+import { AnalysisResult, HealthStatus } from "./types";
+
+const analysis = (extra: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  summary: 'Steady',
+  bottomLine: { main: 'Mostly steady', good: [], watch: [] },
+  executiveSummary: 'Most results are in range. One is a little high.',
+  biomarkers: [{ name: 'LDL', currentValue: 142, unit: 'mg/dL', status: HealthStatus.HIGH, range: '<100', analogy: 'Like traffic on a road.', explanation: 'A little above the range.' }],
+  lifestyle: { diet: '', sleep: '', exercise: '' },
+  doctorQuestions: [],
+  ...extra
+});
+
+const rules = (violations: { field: string, rule: string }[]) => violations.map(({ field, rule }) => [field, rule]);
+
+describe('countSentences', () => {
+  it('does not split on decimals or common abbreviations', () => {
+    expect(countSentences('Your glucose is 5.6 mmol/L. Dr. Rao can explain it.')).toBe(2);
+    expect(countSentences('Eat more fibre, e.g. oats. Walk daily, approx. 30 minutes.')).toBe(2);
+    expect(countSentences('Dr. Müller hat z.B. den Wert geprüft. Alles gut.')).toBe(2);
+  });
+
+  it('ends sentences at the Devanagari full stop', () => {
+    expect(countSentences('सब ठीक है। एक मान थोड़ा ऊँचा है।')).toBe(2);
+  });
+
+  it('counts empty text as no sentences', () => {
+    expect(countSentences('  ')).toBe(0);
+  });
+});
+
+describe('lintAnalysis', () => {
+  it('passes text that keeps to the rules', () => {
+    expect(lintAnalysis(analysis(), 'en')).toEqual([]);
+  });
+
+  it('flags jargon, alarming words, Markdown, quotes and the summary length', () => {
+    const violations = lintAnalysis(analysis({
+      summary: '**Steady**',
+      executiveSummary: 'Your clinical profile looks fine.',
+      bottomLine: { main: 'One result is abnormal', good: [], watch: ['The "bad" cholesterol'] }
+    }), 'en');
+    expect(rules(violations)).toEqual([
+      ['summary', 'markdown'],
+      ['executiveSummary', 'jargon'],
+      ['executiveSummary', 'sentence-count'],
+      ['bottomLine.main', 'prohibited-word'],
+      ['bottomLine.watch.0', 'prohibited-word'],
+      ['bottomLine.watch.0', 'quotes']
+    ]);
+  });
+
+  it('allows apostrophes inside words', () => {
+    expect(lintAnalysis(analysis({ summary: "Let's keep it up, you're doing well" }), 'en')).toEqual([]);
+  });
+
+  it('checks word lists only for English', () => {
+    const text = analysis({ bottomLine: { main: 'Critical', good: [], watch: [] }, summary: '# Resumen' });
+    expect(rules(lintAnalysis(text, 'es'))).toEqual([['summary', 'markdown']]);
+    expect(rules(lintAnalysis(text, 'en'))).toEqual([['summary', 'markdown'], ['bottomLine.main', 'prohibited-word']]);
+  });
+});
+
+describe('lintChatReply', () => {
+  it('allows Markdown links and lists but not bold or quotes', () => {
+    expect(lintChatReply('- See [MedlinePlus](https://medlineplus.gov)', 'en')).toEqual([]);
+    expect(rules(lintChatReply('This is **urgent** and "serious"', 'en'))).toEqual([
+      ['reply', 'prohibited-word'],
+      ['reply', 'markdown'],
+      ['reply', 'quotes']
+    ]);
+  });
+
+  it('strips bold and quotes', () => {
+    expect(autoFixChatReply('A **clear** "answer"')).toBe('A clear answer');
+  });
+});
+
+describe('autoFixStyle', () => {
+  it('removes formatting and trims the summary to two sentences, leaving word choice alone', () => {
+    const fixed = autoFixStyle(analysis({
+      summary: '## "Steady"',
+      executiveSummary: 'One. Two. Three.',
+      bottomLine: { main: 'Nothing alarming', good: [], watch: [] }
+    }), 'en');
+    expect(fixed.summary).toBe('Steady');
+    expect(fixed.executiveSummary).toBe('One. Two.');
+    expect(fixed.bottomLine.main).toBe('Nothing alarming');
+  });
+
+  it('strips formatting without touching apostrophes', () => {
+    expect(stripFormatting("**Don't** worry  about #it")).toBe("Don't worry about it");
+  });
+});
+
+describe('setProseField', () => {
+  it('replaces a field by its path and ignores unknown paths', () => {
+    const original = analysis();
+    const changed = setProseField(original, 'biomarkers.0.explanation', 'In range soon.');
+    expect(changed.biomarkers[0].explanation).toBe('In range soon.');
+    expect(original.biomarkers[0].explanation).toBe('A little above the range.');
+    expect(setProseField(original, 'biomarkers.0.name', 'X')).toBe(original);
+  });
+});
@@ -0,0 +1,149 @@
+import { AnalysisResult } from "./types";
+import { Language } from "./i18n/languages";
+
+// The writing rules from the analysis and chat prompts, checked after generation.
+// Word lists are English; other languages are only checked for formatting and sentence count.
+
+export type StyleRuleId = 'jargon' | 'prohibited-word' | 'markdown' | 'quotes' | 'sentence-count';
+
+export interface StyleViolation {
+  field: string; // Dotted path into the analysis, e.g. biomarkers.2.explanation, or "reply" for chat
+  rule: StyleRuleId;
+  detail: string;
+}
+
+interface StyleRule {
+  id: StyleRuleId;
+  check: (text: string) => string | null; // Describes the problem, or null when the text passes
+}
+
+export const JARGON = ['metabolic markers', 'clinical profile', 'optimized', 'indexing', 'grounding', 'data objects'];
+export const PROHIBITED = ['critical', 'urgent', 'immediate attention', 'notably high', 'dangerously', 'alarming', 'abnormal', 'bad'];
+
+const wordList = (words: string[]) => new RegExp(`\\b(?:${words.join('|')})\\b`, 'gi');
+const JARGON_PATTERN = wordList(JARGON);
+const PROHIBITED_PATTERN = wordList(PROHIBITED);
+
+const BOLD = /\*\*|__/;
+const MARKDOWN = /\*\*|__|#|(?:^|\s)\*(?=\S)/m;
+// Apostrophes inside words (we'd, let's) are fine; quote marks around words are not.
+const QUOTES = /["“”„]|(?<![\p{L}\p{N}])['‘’]|['‘’](?![\p{L}\p{N}])/u;
+
+// A full stop only ends a sentence when whitespace follows, so decimals like 5.6 stay whole,
+// and not after a common abbreviation such as Dr. or e.g.
+const SENTENCE_BREAK = /(?<=[.!?।])(?<!\b(?:Dr|Dra|Mr|Mrs|Ms|Prof|Sr|Sra|Jr|St|Nr|vs|approx|ca|e\.g|i\.e|z\.B|bzw)\.)\s+(?=\S)/;
+
+const sentences = (text: string) => text.trim() ? text.trim().split(SENTENCE_BREAK) : [];
+
+export const countSentences = (text: string) => sentences(text).length;
+
+const found = (pattern: RegExp, text: string) => [...new Set((text.match(pattern) || []).map(w => w.toLowerCase()))];
+
+const jargon: StyleRule = {
+  id: 'jargon',
+  check: text => {
+    const words = found(JARGON_PATTERN, text);
+    return words.length ? `uses jargon: ${words.join(', ')}` : null;
+  }
+};
+
+const prohibitedWords: StyleRule = {
+  id: 'prohibited-word',
+  check: text => {
+    const words = found(PROHIBITED_PATTERN, text);
+    return words.length ? `uses alarming words: ${words.join(', ')}` : null;
+  }
+};
+
+const plainText: StyleRule = { id: 'markdown', check: text => MARKDOWN.test(text) ? 'contains Markdown such as ** or #' : null };
+const noBold: StyleRule = { id: 'markdown', check: text => BOLD.test(text) ? 'uses bold text' : null };
+const noQuotes: StyleRule = { id: 'quotes', check: text => QUOTES.test(text) ? 'contains quotation marks' : null };
+const twoSentences: StyleRule = {
+  id: 'sentence-count',
+  check: text => countSentences(text) === 2 ? null : `has ${countSentences(text)} sentences instead of exactly two`
+};
+
+const WORD_RULES = [jargon, prohibitedWords];
+const ANALYSIS_RULES = [plainText, noQuotes];
+// Chat replies are rendered as Markdown, so only bold is ruled out; links carry citations.
+const CHAT_RULES = [noBold, noQuotes];
+
+const withWordRules = (rules: StyleRule[], language: Language) => language === 'en' ? [...WORD_RULES, ...rules] : rules;
+
+const lintText = (field: string, text: string, rules: StyleRule[]): StyleViolation[] =>
+  rules.flatMap(rule => {
+    const detail = rule.check(text);
+    return detail ? [{ field, rule: rule.id, detail }] : [];
+  });
+
+// Every free-text field the model writes, keyed by its path in the analysis.
+export const proseFields = (analysis: AnalysisResult): { field: string, text: string }[] => [
+  { field: 'summary', text: analysis.summary },
+  { field: 'executiveSummary', text: analysis.executiveSummary },
+  { field: 'bottomLine.main', text: analysis.bottomLine.main },
+  ...analysis.bottomLine.good.map((text, i) => ({ field: `bottomLine.good.${i}`, text })),
+  ...analysis.bottomLine.watch.map((text, i) => ({ field: `bottomLine.watch.${i}`, text })),
+  ...analysis.biomarkers.flatMap((b, i) => [
+    { field: `biomarkers.${i}.analogy`, text: b.analogy },
+    { field: `biomarkers.${i}.explanation`, text: b.explanation }
+  ]),
+  { field: 'lifestyle.diet', text: analysis.lifestyle.diet },
+  { field: 'lifestyle.sleep', text: analysis.lifestyle.sleep },
+  { field: 'lifestyle.exercise', text: analysis.lifestyle.exercise },
+  ...analysis.doctorQuestions.flatMap((q, i) => [
+    { field: `doctorQuestions.${i}.question`, text: q.question },
+    { field: `doctorQuestions.${i}.why`, text: q.why }
+  ])
+].filter(f => typeof f.text === 'string' && f.text.length > 0);
+
+export const lintAnalysis = (analysis: AnalysisResult, language: Language): StyleViolation[] => {
+  const rules = withWordRules(ANALYSIS_RULES, language);
+  return proseFields(analysis).flatMap(({ field, text }) =>
+    lintText(field, text, field === 'executiveSummary' ? [...rules, twoSentences] : rules)
+  );
+};
+
+export const lintChatReply = (text: string, language: Language): StyleViolation[] =>
+  lintText('reply', text, withWordRules(CHAT_RULES, language));
+
+// Objects and arrays both, so a path can step through either
+const isContainer = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+
+// Returns a copy of the analysis with one prose field replaced; unknown paths are ignored.
+export const setProseField = (analysis: AnalysisResult, field: string, text: string): AnalysisResult => {
+  if (!proseFields(analysis).some(f => f.field === field)) return analysis;
+  const copy = structuredClone(analysis);
+  const keys = field.split('.');
+  const parent = keys.slice(0, -1).reduce<unknown>((node, key) => isContainer(node) ? node[key] : undefined, copy);
+  if (isContainer(parent)) parent[keys[keys.length - 1]] = text;
+  return copy;
+};
+
+// Removes the formatting the rules forbid. The last resort when the model's rewrite still breaks them,
+// and how reports saved before these checks existed are shown.
+export const stripFormatting = (text: string | undefined) => String(text || '')
+  .replace(/\*\*|__|[*#]/g, '')
+  .replace(new RegExp(QUOTES.source, 'gu'), '')
+  .replace(/\s{2,}/g, ' ')
+  .trim();
+
+const firstSentences = (text: string, count: number) => sentences(text).slice(0, count).join(' ');
+
+// Deterministic fixes for what can be fixed without the model. Word choice is left alone.
+export const autoFixStyle = (analysis: AnalysisResult, language: Language): AnalysisResult =>
+  lintAnalysis(analysis, language).reduce((fixed, violation) => {
+    const current = proseFields(fixed).find(f => f.field === violation.field)?.text || '';
+    if (violation.rule === 'markdown' || violation.rule === 'quotes') return setProseField(fixed, violation.field, stripFormatting(current));
+    if (violation.rule === 'sentence-count' && countSentences(current) > 2) return setProseField(fixed, violation.field, firstSentences(current, 2));
+    return fixed;
+  }, analysis);
+
+export const autoFixChatReply = (text: string) => text
+  .replace(/\*\*|__/g, '')
+  .replace(/["“”„]/g, '');
+
+// One line per source so violations can be counted per rule when tuning the prompts.
+export const logStyleViolations = (source: 'analysis' | 'chat', violations: StyleViolation[]) => {
+  const byRule = violations.reduce<Record<string, number>>((counts, v) => ({ ...counts, [v.rule]: (counts[v.rule] || 0) + 1 }), {});
+  console.warn(`Style rule violations in ${source}:`, JSON.stringify({ byRule, violations }));
+};
@@ -1,3 +1,4 @@
+import type { Language } from "./i18n/languages";
 
 export enum HealthStatus {
   HIGH = 'high',
@@ -5,15 +6,33 @@ export enum HealthStatus {
   NORMAL = 'normal'
 }
 
+export interface BiomarkerReading {
+  date: string;
+  value: number;
+  unit?: string;
+}
+
+// Where a value was read on the latest report
+export interface SourceLocation {
+  page: number; // 1-based, counting every page of every image and PDF of the latest report in order
+  box?: { x: number; y: number; width: number; height: number }; // Fractions of the page size, from the top left
+  text: string; // The line exactly as printed
+}
+
 export interface Biomarker {
   name: string;
   currentValue: number;
-  previousValue?: number;
+  previousValue?: number; // Most recent past reading, derived from history
+  history?: BiomarkerReading[]; // Past readings, oldest first
   unit: string;
-  status: HealthStatus;
+  status?: HealthStatus; // Absent only when the user changed the value and its printed range can't be read
+  modelStatus?: HealthStatus; // The model's original status, kept when it disagreed with the range
+  catalogId?: string; // Canonical analyte from biomarkerCatalog, when the name matched one
   range: string;
   analogy: string;
   explanation: string;
+  source?: SourceLocation;
+  userCorrected?: boolean; // Value, unit or range changed by the user, or the marker was added by them
 }
 
 export interface DoctorQuestion {
@@ -21,9 +40,14 @@ export interface DoctorQuestion {
   why: string;
 }
 
+// One line item as printed on the report; value stays text because results like "Negative" are common
 export interface SimpleMarker {
   name: string;
   value: string;
+  unit?: string;
+  range?: string;
+  status?: HealthStatus; // Derived from value and range when both are numeric
+  catalogId?: string;
 }
 
 export interface AnalysisResult {
@@ -50,6 +74,8 @@ export interface AnalysisResult {
     exercise: string;
   };
   doctorQuestions: DoctorQuestion[];
+  unmappedMarkers?: string[]; // Marker names with no biomarkerCatalog entry, for review
+  userCorrected?: boolean; // The user edited, added or removed markers after analysis
 }
 
 export interface ChatMessage {
@@ -57,8 +83,67 @@ export interface ChatMessage {
   content: string;
 }
 
-export interface FileData {
+// One piece of a streamed chat reply. A replace delta carries the whole reply again after a style fix.
+export interface ChatDelta {
+  text: string;
+  replace?: boolean;
+}
+
+export interface FilePage {
   base64: string;
   mimeType: string;
   name: string;
 }
+
+// One report, possibly spread over several photos or PDFs, in reading order
+export interface FileData {
+  name: string;
+  pages: FilePage[];
+}
+
+// Placeholder such as "[PATIENT_NAME]" -> the real value, kept only on this device
+export type PrivacyMap = Record<string, string>;
+
+// What a quick first look at an upload found, before any analysis is run
+export interface ReportClassification {
+  isLabReport: boolean;
+  documentType: string; // In the model's words, e.g. "blood test report" or "pharmacy receipt"
+  patientName?: string;
+  gender?: string;
+  collectionDate?: string; // YYYY-MM-DD
+}
+
+export interface AnalyzeOptions {
+  redacted?: boolean; // Personal identifiers were masked before upload
+  language?: Language; // Language for the written explanations, whatever language the report is in
+}
+
+// A server response kept on this device, keyed by a hash of everything that went into it
+export interface CachedAnalysis {
+  key: string;
+  analysis: AnalysisResult;
+  createdAt: number;
+}
+
+// Someone whose reports are kept on this device: the user, a parent, a child
+export interface Profile {
+  id: string;
+  name: string;
+  birthDate?: string; // YYYY-MM-DD
+  sex?: 'female' | 'male' | 'other';
+  createdAt: number;
+}
+
+export interface StoredReport {
+  id: string;
+  profileId?: string; // Unassigned when missing
+  cacheKey?: string; // Analysis cache key of the files it was read from
+  title: string;
+  patientName?: string;
+  collectionDate?: string;
+  createdAt: number;
+  files: FileData[]; // Same order as analyzeReports: latest first
+  analysis: AnalysisResult;
+  privacyMap?: PrivacyMap;
+  chat?: ChatMessage[]; // Conversation with the assistant, as shown to the user
+}
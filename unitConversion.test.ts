@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { convertValue, findAnalyte, normalizeHistoryUnits, toUnitSystem } from "./unitConversion";
+import { Biomarker, HealthStatus } from "./types";
+
+const marker = (extra: Partial<Biomarker>): Biomarker => ({
+  name: 'Fasting Glucose', currentValue: 110, unit: 'mg/dL', status: HealthStatus.HIGH,
+  range: '70-100', analogy: '', explanation: '', ...extra
+});
+
+describe('findAnalyte', () => {
+  it('matches HbA1c before glucose', () => {
+    expect(findAnalyte('Glycated Hemoglobin (HbA1c)')?.id).toBe('hba1c');
+    expect(findAnalyte('Fasting Blood Sugar')?.id).toBe('glucose');
+    expect(findAnalyte('Sodium')).toBeUndefined();
+  });
+});
+
+describe('convertValue', () => {
+  it('converts between conventional and SI units', () => {
+    expect(convertValue('Glucose', 110, 'mg/dL', 'mmol/L')).toBe(6.1);
+    expect(convertValue('Glucose', 6.1, 'mmol/L', 'mg/dL')).toBe(110);
+    expect(convertValue('Creatinine', 1, 'mg/dL', 'µmol/L')).toBe(88);
+    expect(convertValue('HbA1c', 6.5, '%', 'mmol/mol')).toBe(48);
+  });
+
+  it('accepts unit spellings that differ only in case, spacing or micro sign', () => {
+    expect(convertValue('Creatinine', 88.42, 'umol / litre', 'mg/dL')).toBe(1);
+    expect(convertValue('Glucose', 5.5, 'mmol per L', 'mmol/L')).toBe(5.5);
+  });
+
+  it('returns null for an unknown analyte or unit', () => {
+    expect(convertValue('Sodium', 140, 'mmol/L', 'mEq/L')).toBeNull();
+    expect(convertValue('Glucose', 110, 'mg%', 'mmol/L')).toBeNull();
+  });
+});
+
+describe('normalizeHistoryUnits', () => {
+  it('brings past readings into the current unit and updates the previous value', () => {
+    const bio = normalizeHistoryUnits(marker({ history: [{ date: '2024-01-01', value: 5.5, unit: 'mmol/L' }] }));
+    expect(bio.history).toEqual([{ date: '2024-01-01', value: 99, unit: 'mg/dL' }]);
+    expect(bio.previousValue).toBe(99);
+  });
+
+  it('leaves readings it cannot convert alone', () => {
+    const history = [{ date: '2024-01-01', value: 5.5, unit: 'mmol/dL' }];
+    expect(normalizeHistoryUnits(marker({ history })).history).toEqual(history);
+  });
+});
+
+describe('toUnitSystem', () => {
+  it('converts the value and the printed range', () => {
+    const bio = toUnitSystem(marker({}), 'si');
+    expect(bio).toMatchObject({ unit: 'mmol/L', currentValue: 6.1, range: '3.9-5.6' });
+  });
+
+  it('reads decimal commas in the range', () => {
+    const bio = toUnitSystem(marker({ currentValue: 6.1, unit: 'mmol/L', range: '3,9-5,6' }), 'conventional');
+    expect(bio).toMatchObject({ unit: 'mg/dL', currentValue: 110, range: '70-101' });
+  });
+
+  it('keeps a marker in an unknown unit as reported', () => {
+    const bio = marker({ unit: 'mg%' });
+    expect(toUnitSystem(bio, 'si')).toBe(bio);
+  });
+});
@@ -0,0 +1,103 @@
+import { AnalysisResult, Biomarker } from "./types";
+import { normalizeDecimal } from "./referenceRange";
+
+export type UnitSystem = 'reported' | 'conventional' | 'si';
+
+interface AnalyteUnits {
+  id: string;
+  pattern: RegExp;
+  conventional: string;
+  si: string;
+  toSI: (value: number) => number;
+  fromSI: (value: number) => number;
+  decimals: { conventional: number; si: number };
+}
+
+const scaled = (factor: number) => ({
+  toSI: (v: number) => v * factor,
+  fromSI: (v: number) => v / factor
+});
+
+// Order matters: HbA1c must be matched before plain glucose.
+const ANALYTES: AnalyteUnits[] = [
+  {
+    id: 'hba1c',
+    pattern: /a1c|glycated|glycosylated/i,
+    conventional: '%',
+    si: 'mmol/mol',
+    // IFCC-NGSP master equation
+    toSI: v => (v - 2.15) * 10.929,
+    fromSI: v => v / 10.929 + 2.15,
+    decimals: { conventional: 1, si: 0 }
+  },
+  { id: 'glucose', pattern: /glucose|blood sugar|\bfbs\b|\bppbs\b/i, conventional: 'mg/dL', si: 'mmol/L', ...scaled(1 / 18.016), decimals: { conventional: 0, si: 1 } },
+  { id: 'triglycerides', pattern: /triglyceride/i, conventional: 'mg/dL', si: 'mmol/L', ...scaled(1 / 88.57), decimals: { conventional: 0, si: 2 } },
+  { id: 'cholesterol', pattern: /cholesterol|\bldl\b|\bhdl\b|\bvldl\b/i, conventional: 'mg/dL', si: 'mmol/L', ...scaled(1 / 38.67), decimals: { conventional: 0, si: 2 } },
+  { id: 'creatinine', pattern: /creatinine/i, conventional: 'mg/dL', si: 'µmol/L', ...scaled(88.42), decimals: { conventional: 2, si: 0 } },
+  { id: 'vitamin-d', pattern: /vitamin\s*d|25[\s-]*(?:oh|hydroxy)|calcidiol/i, conventional: 'ng/mL', si: 'nmol/L', ...scaled(2.496), decimals: { conventional: 1, si: 0 } }
+];
+
+const unitKey = (unit: string) => unit
+  .toLowerCase()
+  .replace(/[µμ]/g, 'u')
+  .replace(/\s+/g, '')
+  .replace(/per/g, '/')
+  .replace(/lit(?:re|er)/g, 'l');
+
+export const findAnalyte = (name: string): AnalyteUnits | undefined =>
+  ANALYTES.find(a => a.pattern.test(name));
+
+const systemOf = (analyte: AnalyteUnits, unit: string): 'conventional' | 'si' | null => {
+  const key = unitKey(unit);
+  if (key === unitKey(analyte.conventional)) return 'conventional';
+  if (key === unitKey(analyte.si)) return 'si';
+  return null;
+};
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+// Returns null when the analyte or either unit is not one we know how to convert.
+export const convertValue = (name: string, value: number, fromUnit: string, toUnit: string): number | null => {
+  const analyte = findAnalyte(name);
+  if (!analyte) return null;
+  const from = systemOf(analyte, fromUnit);
+  const to = systemOf(analyte, toUnit);
+  if (!from || !to) return null;
+  if (from === to) return value;
+  const converted = to === 'si' ? analyte.toSI(value) : analyte.fromSI(value);
+  return round(converted, analyte.decimals[to]);
+};
+
+// Brings past readings into the unit of the current report so trends compare like with like.
+export const normalizeHistoryUnits = (bio: Biomarker): Biomarker => {
+  if (!bio.history?.length) return bio;
+  const history = bio.history.map(reading => {
+    if (!reading.unit || reading.unit === bio.unit) return reading;
+    const value = convertValue(bio.name, reading.value, reading.unit, bio.unit);
+    return value === null ? reading : { ...reading, value, unit: bio.unit };
+  });
+  return { ...bio, history, previousValue: history[history.length - 1].value };
+};
+
+export const normalizeAnalysisUnits = (analysis: AnalysisResult): AnalysisResult => ({
+  ...analysis,
+  biomarkers: analysis.biomarkers.map(normalizeHistoryUnits)
+});
+
+// Re-expresses a biomarker, including its printed range, in the chosen unit system for display.
+export const toUnitSystem = (bio: Biomarker, system: UnitSystem): Biomarker => {
+  if (system === 'reported') return bio;
+  const analyte = findAnalyte(bio.name);
+  if (!analyte || !systemOf(analyte, bio.unit)) return bio;
+
+  const target = system === 'si' ? analyte.si : analyte.conventional;
+  const convert = (v: number) => convertValue(bio.name, v, bio.unit, target) ?? v;
+  return {
+    ...bio,
+    unit: target,
+    currentValue: convert(bio.currentValue),
+    previousValue: bio.previousValue === undefined ? undefined : convert(bio.previousValue),
+    history: bio.history?.map(h => ({ ...h, value: convert(h.value), unit: target })),
+    range: bio.range.replace(/\d+(?:,\d+)*(?:\.\d+)?/g, n => String(convert(parseFloat(normalizeDecimal(n)))))
+  };
+};